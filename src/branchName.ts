@@ -0,0 +1,72 @@
+/**
+ * Git branch names for tickets, from a template such as `feature/{key}-{slug}`
+ */
+
+import { RecentTicket } from './types';
+
+const MAX_SLUG_LENGTH = 50;
+
+/**
+ * Lowercase words of a text joined by dashes, without accents or punctuation, e.g. "Add OAuth login!" -> "add-oauth-login".
+ * Long texts are cut at a word boundary.
+ */
+export function slugify(text: string, maxLength: number = MAX_SLUG_LENGTH): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+  const cut = slug.slice(0, maxLength + 1);
+  const lastDash = cut.lastIndexOf('-');
+  return (lastDash > maxLength / 2 ? cut.slice(0, lastDash) : slug.slice(0, maxLength)).replace(/-+$/, '');
+}
+
+/**
+ * Fill in a branch name template: `{key}` is the ticket key (without GitHub's `#`), `{slug}` the summary as a slug
+ * and `{provider}` the ticket's provider. The result is made a valid git branch name.
+ */
+export function formatBranchName(template: string, ticket: Pick<RecentTicket, 'key' | 'summary' | 'provider'>): string {
+  const values: Record<string, string> = {
+    key: ticket.key.replace(/^#/, ''),
+    slug: slugify(ticket.summary),
+    provider: ticket.provider
+  };
+
+  const name = template.replace(/\{(\w+)\}/g, (placeholder, variable: string) => values[variable] ?? placeholder);
+  return sanitizeBranchName(name);
+}
+
+/**
+ * Rewrite a name so git accepts it as a branch (see `git check-ref-format`): characters git forbids become
+ * dashes, and dots and slashes are only kept where they are allowed
+ */
+export function sanitizeBranchName(name: string): string {
+  return [...name.trim()]
+    .map(character => character.charCodeAt(0) <= 0x20 || character.charCodeAt(0) === 0x7f ? '-' : character)
+    .join('')
+    .replace(/[~^:?*[\\{}]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .split('/')
+    .map(part => part.replace(/^[.-]+/, '').replace(/(\.lock)+$/i, '').replace(/-{2,}/g, '-').replace(/[.-]+$/, ''))
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Explain why git would refuse a branch name
+ * @returns undefined when the name is valid
+ */
+export function validateBranchName(name: string): string | undefined {
+  if (!name.trim()) {
+    return 'Enter a branch name';
+  }
+  if (name === '@' || name !== sanitizeBranchName(name)) {
+    return `"${name}" is not a valid branch name; try "${sanitizeBranchName(name) || 'feature/my-branch'}"`;
+  }
+  return undefined;
+}
@@ -0,0 +1,389 @@
+/**
+ * Converting plan markdown to what each ticket service accepts in a comment, within its size limit:
+ * Atlassian Document Format for Jira Cloud, wiki markup for Jira Server/Data Center, mrkdwn for Slack,
+ * and markdown as is for Linear and GitHub
+ */
+
+import { RecentTicket } from './types';
+
+/** Longest comment, in characters, each service accepts; a little under the documented limits */
+export const COMMENT_LIMITS: Record<RecentTicket['provider'], number> = {
+  jira: 32000,
+  linear: 50000,
+  github: 65000,
+  slack: 39000
+};
+
+/**
+ * Length of a comment as each service counts it, after conversion: Slack escapes `&`, `<` and `>` into
+ * entities and Jira rewrites markup. Jira Cloud's limit is measured on the wiki markup too, which is at
+ * least as long as the text of the ADF document.
+ */
+export const COMMENT_LENGTHS: Record<RecentTicket['provider'], (markdown: string) => number> = {
+  jira: markdown => markdownToJiraWiki(markdown).length,
+  linear: markdown => markdown.length,
+  github: markdown => markdown.length,
+  slack: markdown => markdownToSlackMrkdwn(markdown).length
+};
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+/**
+ * Cut a comment on a line boundary so it fits in `limit` characters as measured by `measure`, closing an
+ * open code fence and ending with `notice`
+ */
+export function truncateComment(
+  markdown: string,
+  limit: number,
+  notice: string,
+  measure: (markdown: string) => number = text => text.length
+): { text: string; truncated: boolean } {
+  if (measure(markdown) <= limit) {
+    return { text: markdown, truncated: false };
+  }
+
+  // Search for the longest cut that fits
+  let fits = 0;
+  let tooLong = markdown.length;
+  while (tooLong - fits > 1) {
+    const room = Math.floor((fits + tooLong) / 2);
+    if (measure(cutComment(markdown, room, notice)) <= limit) {
+      fits = room;
+    } else {
+      tooLong = room;
+    }
+  }
+  return { text: cutComment(markdown, fits, notice), truncated: true };
+}
+
+function cutComment(markdown: string, room: number, notice: string): string {
+  let text = markdown.slice(0, room);
+  const lastLine = text.lastIndexOf('\n');
+  if (lastLine > 0) {
+    text = text.slice(0, lastLine);
+  }
+  if ((text.match(/^\s*```/gm) || []).length % 2 === 1) {
+    text += '\n```';
+  }
+  return `${text.trimEnd()}\n\n${notice}`;
+}
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+/;
+const INLINE = /(`+)(.+?)\1|\*\*(.+?)\*\*|__(.+?)__|\[([^\]]+)\]\(([^)\s]+)\)|\*(?!\s)(.+?)\*|(?<![\w])_(?!\s)(.+?)_(?![\w])/g;
+
+/**
+ * Convert markdown to an Atlassian Document Format document, as Jira Cloud comments require.
+ * Headings, paragraphs, nested lists, task items, code blocks, quotes, rules and emphasis, code and
+ * links inside text are kept; tables become code blocks so their columns stay aligned.
+ */
+export function markdownToADF(markdown: string): AdfDocument {
+  const content = parseBlocks(markdown.replace(/\r\n/g, '\n').split('\n'));
+  return { type: 'doc', version: 1, content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }] };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index++]);
+      }
+      index++;
+      blocks.push({
+        type: 'codeBlock',
+        ...(fence[1] ? { attrs: { language: fence[1] } } : {}),
+        content: code.length > 0 ? [{ type: 'text', text: code.join('\n') }] : []
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', attrs: { level: heading[1].length }, content: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      const rows: string[] = [];
+      while (index < lines.length && lines[index].trim().startsWith('|')) {
+        rows.push(lines[index++].trim());
+      }
+      blocks.push({ type: 'codeBlock', content: [{ type: 'text', text: rows.join('\n') }] });
+      continue;
+    }
+
+    if (line.trim().startsWith('>')) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].trim().startsWith('>')) {
+        quoted.push(lines[index++].trim().replace(/^>\s?/, ''));
+      }
+      blocks.push({ type: 'blockquote', content: parseBlocks(quoted).flatMap(toListItemContent) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, index);
+      blocks.push(list.node);
+      index = list.next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines[index])) {
+      paragraph.push(lines[index++].trim());
+    }
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+  }
+  return blocks;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line)
+    || line.trim().startsWith('|') || line.trim().startsWith('>');
+}
+
+/**
+ * Read the list starting at `start`: its items at the first item's indentation, each with the more
+ * indented lines below it as nested content
+ */
+function parseList(lines: string[], start: number): { node: AdfNode; next: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: AdfNode[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const item = lines[index].match(LIST_ITEM);
+    if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) {
+      break;
+    }
+    index++;
+
+    const nested: string[] = [];
+    while (index < lines.length) {
+      const line = lines[index];
+      const lineIndent = line.length - line.trimStart().length;
+      if (line.trim() && lineIndent <= indent) {
+        break;
+      }
+      nested.push(line);
+      index++;
+    }
+    // A blank line followed by a sibling item belongs to the list, not the item
+    while (nested.length > 0 && !nested[nested.length - 1].trim()) {
+      nested.pop();
+    }
+
+    const task = item[3].match(TASK);
+    const text = task ? `${task[1] === ' ' ? '☐' : '☑'} ${item[3].slice(task[0].length)}` : item[3];
+    const nestedIndent = Math.min(...nested.filter(line => line.trim()).map(line => line.length - line.trimStart().length));
+    items.push({
+      type: 'listItem',
+      content: [
+        { type: 'paragraph', content: parseInline(text) },
+        ...parseBlocks(nested.map(line => line.slice(Math.min(nestedIndent, line.length - line.trimStart().length))))
+          .flatMap(toListItemContent)
+      ]
+    });
+
+    // Skip blank lines between items of the same list
+    let lookahead = index;
+    while (lookahead < lines.length && !lines[lookahead].trim()) {
+      lookahead++;
+    }
+    const sibling = lines[lookahead]?.match(LIST_ITEM);
+    if (lookahead !== index && sibling && sibling[1].length === indent) {
+      index = lookahead;
+    }
+  }
+
+  return {
+    node: { type: ordered ? 'orderedList' : 'bulletList', content: items },
+    next: index
+  };
+}
+
+/**
+ * List items and quotes only hold paragraphs, lists and code blocks in ADF
+ */
+function toListItemContent(node: AdfNode): AdfNode[] {
+  switch (node.type) {
+  case 'heading':
+    return [{ type: 'paragraph', content: node.content || [] }];
+  case 'blockquote':
+    return node.content || [];
+  case 'rule':
+    return [];
+  default:
+    return [node];
+  }
+}
+
+function parseInline(text: string, marks: AdfNode['marks'] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  const pushText = (value: string, nodeMarks: AdfNode['marks']) => {
+    if (value) {
+      nodes.push({ type: 'text', text: value, ...(nodeMarks && nodeMarks.length > 0 ? { marks: nodeMarks } : {}) });
+    }
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    pushText(text.slice(last, match.index), marks);
+    const [, , code, bold, boldUnderscore, linkText, href, italic, italicUnderscore] = match;
+    if (code !== undefined) {
+      // Code only combines with links in ADF
+      pushText(code.trim(), [...(marks || []).filter(mark => mark.type === 'link'), { type: 'code' }]);
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      nodes.push(...parseInline(bold ?? boldUnderscore, [...(marks || []), { type: 'strong' }]));
+    } else if (linkText !== undefined) {
+      nodes.push(...parseInline(linkText, [...(marks || []), { type: 'link', attrs: { href } }]));
+    } else {
+      nodes.push(...parseInline(italic ?? italicUnderscore, [...(marks || []), { type: 'em' }]));
+    }
+    last = match.index! + match[0].length;
+  }
+  pushText(text.slice(last), marks);
+  return nodes;
+}
+
+/**
+ * Convert markdown to Slack mrkdwn: bold, italics, links, headings and lists are rewritten; code is kept
+ */
+export function markdownToSlackMrkdwn(markdown: string): string {
+  let inCode = false;
+  return markdown.replace(/\r\n/g, '\n').split('\n').map(line => {
+    if (FENCE.test(line)) {
+      inCode = !inCode;
+      // Slack does not highlight, so the language tag would show as text
+      return line.replace(/```.*$/, '```');
+    }
+    if (inCode) {
+      return line;
+    }
+
+    const escaped = line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const heading = escaped.match(HEADING);
+    if (heading) {
+      return `*${toSlackInline(heading[2].replace(/\*\*|__/g, ''))}*`;
+    }
+    if (RULE.test(escaped)) {
+      return '───';
+    }
+    return toSlackInline(escaped
+      .replace(/^(\s*)[-*+]\s+\[[xX]\]\s+/, '$1☑ ')
+      .replace(/^(\s*)[-*+]\s+\[ \]\s+/, '$1☐ ')
+      .replace(/^(\s*)[-*+]\s+/, '$1• ')
+      .replace(/^&gt;\s?/, '> '));
+  }).join('\n');
+}
+
+function toSlackInline(text: string): string {
+  return text
+    .replace(/(?<![*\w])\*(?![\s*])(.+?)\*(?![*\w])/g, '_$1_')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, bold, boldUnderscore) => `*${bold ?? boldUnderscore}*`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>');
+}
+
+/**
+ * Convert markdown to Jira wiki markup, as Jira Server/Data Center comments require. Headings, nested lists,
+ * task items, code blocks, quotes, rules, tables and emphasis, code and links inside text are rewritten.
+ */
+export function markdownToJiraWiki(markdown: string): string {
+  let inCode = false;
+  let tableRow = 0;
+  const lines: string[] = [];
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const fence = line.match(FENCE);
+    if (fence) {
+      lines.push(inCode || !fence[1] ? '{code}' : `{code:${fence[1]}}`);
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      lines.push(line);
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      // The row under the header only marks the columns' alignment
+      if (/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/.test(line)) {
+        continue;
+      }
+      const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => toJiraInline(cell.trim()));
+      const separator = tableRow++ === 0 ? '||' : '|';
+      lines.push(`${separator}${cells.join(separator)}${separator}`);
+      continue;
+    }
+    tableRow = 0;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      lines.push(`h${heading[1].length}. ${toJiraInline(heading[2])}`);
+    } else if (RULE.test(line)) {
+      lines.push('----');
+    } else if (LIST_ITEM.test(line)) {
+      const [, indent, marker, text] = line.match(LIST_ITEM)!;
+      const task = text.match(TASK);
+      const item = task ? `${task[1] === ' ' ? '☐' : '☑'} ${text.slice(task[0].length)}` : text;
+      const depth = Math.floor(indent.replace(/\t/g, '  ').length / 2) + 1;
+      lines.push(`${(/\d/.test(marker) ? '#' : '*').repeat(depth)} ${toJiraInline(item)}`);
+    } else if (line.trim().startsWith('>')) {
+      lines.push(`bq. ${toJiraInline(line.trim().replace(/^>\s?/, ''))}`);
+    } else {
+      lines.push(toJiraInline(line));
+    }
+  }
+  return lines.join('\n');
+}
+
+function toJiraInline(text: string): string {
+  return text.replace(INLINE, (_, ticks, code, bold, boldUnderscore, linkText, href, italic, italicUnderscore) => {
+    if (code !== undefined) {
+      return `{{${code.trim()}}}`;
+    }
+    if (bold !== undefined || boldUnderscore !== undefined) {
+      return `*${toJiraInline(bold ?? boldUnderscore)}*`;
+    }
+    if (linkText !== undefined) {
+      return `[${toJiraInline(linkText)}|${href}]`;
+    }
+    return `_${toJiraInline(italic ?? italicUnderscore)}_`;
+  });
+}
@@ -8,6 +8,8 @@ interface EnvironmentConfig {
   jira: {
     baseUrl?: string;
     token?: string;
+    // 'cloud', 'server' (Server/Data Center) or 'auto' to detect it from the site
+    deployment: 'auto' | 'cloud' | 'server';
   };
   
   // Linear
@@ -29,6 +31,9 @@ interface EnvironmentConfig {
   ollama: {
     baseUrl: string;
     model: string;
+    numCtx?: number;
+    numPredict?: number;
+    temperature?: number;
   };
   
   // OpenRouter
@@ -37,6 +42,29 @@ interface EnvironmentConfig {
     model?: string;
   };
   
+  // OpenAI-compatible server (vLLM, LM Studio, llama.cpp, LocalAI, gateways)
+  openAICompatible: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    headers: Record<string, string>;
+  };
+  
+  // Which LLM backend to use for plan generation
+  llm: {
+    provider?: string;
+  };
+  
+  // Where generated plans are saved, relative to the workspace folder
+  plans: {
+    folder: string;
+  };
+  
+  // Name of the branch created for a ticket; see formatBranchName
+  branches: {
+    template: string;
+  };
+  
   // Development
   nodeEnv: string;
   logLevel: string;
@@ -53,7 +81,8 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
   return {
     jira: {
       baseUrl: env.JIRA_BASE_URL,
-      token: env.JIRA_TOKEN
+      token: env.JIRA_TOKEN,
+      deployment: parseJiraDeployment(env.JIRA_DEPLOYMENT)
     },
     linear: {
       apiToken: env.LINEAR_API_TOKEN
@@ -66,21 +95,81 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
     },
     ollama: {
       baseUrl: env.OLLAMA_BASE_URL || 'http://localhost:11434',
-      model: env.OLLAMA_MODEL || 'llama2:13b'
+      model: env.OLLAMA_MODEL || 'llama2:13b',
+      numCtx: parseNumber(env.OLLAMA_NUM_CTX),
+      numPredict: parseNumber(env.OLLAMA_NUM_PREDICT),
+      temperature: parseNumber(env.OLLAMA_TEMPERATURE)
     },
     openRouter: {
       apiKey: env.OPENROUTER_API_KEY,
       model: env.OPENROUTER_MODEL || 'anthropic/claude-3-sonnet-20240229'
     },
+    openAICompatible: {
+      baseUrl: env.OPENAI_COMPAT_BASE_URL,
+      apiKey: env.OPENAI_COMPAT_API_KEY,
+      model: env.OPENAI_COMPAT_MODEL,
+      headers: parseHeaders(env.OPENAI_COMPAT_HEADERS)
+    },
+    llm: {
+      provider: env.LLM_PROVIDER
+    },
+    plans: {
+      folder: env.AIPLAN_PLANS_DIR || '.aiplan/plans'
+    },
+    branches: {
+      template: env.AIPLAN_BRANCH_TEMPLATE || 'feature/{key}-{slug}'
+    },
     nodeEnv: env.NODE_ENV || 'development',
     logLevel: env.LOG_LEVEL || 'info'
   };
 }
 
+/**
+ * Parse an optional numeric setting; blank or invalid values fall back to the backend default
+ */
+function parseNumber(raw?: string): number | undefined {
+  if (!raw || !raw.trim()) {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse the Jira deployment type; anything but cloud or server is detected from the site
+ */
+function parseJiraDeployment(raw?: string): 'auto' | 'cloud' | 'server' {
+  const value = raw?.trim().toLowerCase();
+  return value === 'cloud' || value === 'server' ? value : 'auto';
+}
+
+/**
+ * Parse extra HTTP headers given as a JSON object, e.g. {"X-Team": "platform"}
+ */
+function parseHeaders(raw?: string): Record<string, string> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      headers[key] = String(value);
+    }
+    return headers;
+  } catch {
+    console.warn('Ignoring OPENAI_COMPAT_HEADERS: value is not a JSON object');
+    return {};
+  }
+}
+
 /**
  * Get configuration for a specific provider
  */
-export function getProviderConfig(provider: 'jira' | 'linear' | 'slack' | 'github' | 'ollama' | 'openRouter') {
+export function getProviderConfig<K extends Exclude<keyof EnvironmentConfig, 'nodeEnv' | 'logLevel'>>(
+  provider: K
+): EnvironmentConfig[K] {
   const config = loadEnvironmentConfig();
   return config[provider];
 }
@@ -114,7 +203,8 @@ export function getMaskedConfig(): Record<string, any> {
   return {
     jira: {
       baseUrl: config.jira.baseUrl,
-      token: config.jira.token ? '***MASKED***' : undefined
+      token: config.jira.token ? '***MASKED***' : undefined,
+      deployment: config.jira.deployment
     },
     linear: {
       apiToken: config.linear.apiToken ? '***MASKED***' : undefined
@@ -130,6 +220,15 @@ export function getMaskedConfig(): Record<string, any> {
       apiKey: config.openRouter.apiKey ? '***MASKED***' : undefined,
       model: config.openRouter.model
     },
+    openAICompatible: {
+      baseUrl: config.openAICompatible.baseUrl,
+      apiKey: config.openAICompatible.apiKey ? '***MASKED***' : undefined,
+      model: config.openAICompatible.model,
+      headers: Object.keys(config.openAICompatible.headers)
+    },
+    llm: config.llm,
+    plans: config.plans,
+    branches: config.branches,
     nodeEnv: config.nodeEnv,
     logLevel: config.logLevel
   };
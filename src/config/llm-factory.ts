@@ -0,0 +1,88 @@
+/**
+ * LLM factory that creates AI backends using environment configuration
+ * Callers only ever see the BaseLLM contract, never a concrete backend
+ */
+
+import { BaseLLM } from '../llm/base';
+import { OllamaProvider, OllamaConfig } from '../llm/ollama';
+import { OpenRouterProvider } from '../llm/openrouter';
+import { OpenAICompatibleProvider, OpenAICompatibleConfig } from '../llm/openaiCompatible';
+import { getProviderConfig } from './environment';
+import { ErrorFactory } from '../utils/errorTypes';
+
+export type LLMProviderName = 'ollama' | 'openrouter' | 'openai-compatible';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['ollama', 'openrouter', 'openai-compatible'];
+
+/**
+ * Create an Ollama backend using environment configuration
+ * @param overrides Values that take precedence over the environment (e.g. unsaved form input)
+ */
+export function createOllamaLLM(overrides: Partial<OllamaConfig> = {}): OllamaProvider {
+  const config = getProviderConfig('ollama');
+  return new OllamaProvider({
+    baseUrl: overrides.baseUrl || config.baseUrl,
+    model: overrides.model || config.model,
+    numCtx: overrides.numCtx ?? config.numCtx,
+    numPredict: overrides.numPredict ?? config.numPredict,
+    temperature: overrides.temperature ?? config.temperature
+  });
+}
+
+/**
+ * Create an OpenRouter backend using environment configuration
+ * @param overrides Values that take precedence over the environment (e.g. unsaved form input)
+ */
+export function createOpenRouterLLM(overrides: { apiKey?: string; model?: string } = {}): OpenRouterProvider {
+  const config = getProviderConfig('openRouter');
+  const apiKey = overrides.apiKey || config.apiKey;
+  if (!apiKey) {
+    throw ErrorFactory.invalidConfig('LLMFactory', 'OpenRouter API key missing in environment');
+  }
+
+  return new OpenRouterProvider({
+    apiKey,
+    model: overrides.model || config.model
+  });
+}
+
+/**
+ * Create an OpenAI-compatible backend using environment configuration
+ * @param overrides Values that take precedence over the environment (e.g. unsaved form input)
+ */
+export function createOpenAICompatibleLLM(overrides: Partial<OpenAICompatibleConfig> = {}): OpenAICompatibleProvider {
+  const config = getProviderConfig('openAICompatible');
+  const baseUrl = overrides.baseUrl || config.baseUrl;
+  if (!baseUrl) {
+    throw ErrorFactory.invalidConfig('LLMFactory', 'OpenAI-compatible base URL missing in environment');
+  }
+
+  return new OpenAICompatibleProvider({
+    baseUrl,
+    apiKey: overrides.apiKey || config.apiKey,
+    model: overrides.model || config.model,
+    headers: overrides.headers || config.headers
+  });
+}
+
+/**
+ * Create an LLM backend by name. Without a name, LLM_PROVIDER decides;
+ * failing that, OpenRouter when an API key is configured, otherwise local Ollama
+ */
+export function createLLMProvider(providerName?: LLMProviderName): BaseLLM {
+  const name = providerName || getProviderConfig('llm').provider;
+
+  switch (name) {
+  case 'ollama':
+    return createOllamaLLM();
+  case 'openrouter':
+    return createOpenRouterLLM();
+  case 'openai-compatible':
+    return createOpenAICompatibleLLM();
+  case undefined:
+  case '':
+    return getProviderConfig('openRouter').apiKey ? createOpenRouterLLM() : createOllamaLLM();
+  default:
+    throw ErrorFactory.invalidConfig('LLMFactory', `Unknown LLM provider: ${name}`);
+  }
+}
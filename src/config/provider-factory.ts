@@ -21,7 +21,8 @@ export function createJiraProvider(): JiraProvider {
   const config = getProviderConfig('jira');
   return new JiraProvider({
     baseUrl: config.baseUrl!,
-    token: config.token!
+    token: config.token!,
+    deployment: config.deployment
   });
 }
 
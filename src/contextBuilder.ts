@@ -1,149 +1,543 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-// import { WorkspaceContext } from './types'; // TODO: Use this type when implementing context features
+import { ContextFileSelection, GitContext, RecentTicket, WorkspaceContext } from './types';
+import { RankedDocument, extractQueryTerms, rankIndexedDocuments, resolveImports } from './contextRanker';
+import { estimateTokens, truncateToTokens } from './llm/tokenBudget';
+import { IndexedFile, WorkspaceIndex } from './workspaceIndex';
+import { indexService } from './indexService';
+import { OutlineSymbol, formatSymbolOutline } from './symbolOutline';
+import { collectGitContext, formatGitContext } from './gitContext';
+import { ErrorFactory } from './utils/errorTypes';
+import { getExtensionContext } from './context';
+
+const FOLDER_SELECTION_KEY = 'aiPlan.contextFolders';
+
+export interface ContextBuildOptions {
+  signal?: AbortSignal;
+  /** Names of the workspace folders to read; defaults to the saved selection, then to every folder */
+  folders?: string[];
+  /** Tokens the context may use, normally the model's window minus the prompt and answer */
+  tokenBudget?: number;
+  /** List every file in a workspace structure section; defaults to true */
+  includeFileStructure?: boolean;
+  /** Add a section from the local git repository (see `PlanGenerationOptions.includeGitContext`) */
+  includeGitContext?: boolean;
+}
+
+interface SourceDocument {
+  /** Workspace-relative path with forward slashes */
+  path: string;
+  fsPath: string;
+  entry: IndexedFile;
+}
+
+/** Contents and outlines of documents, read on demand and cached for one context build */
+interface DocumentReader {
+  /** Undefined when the file can no longer be read */
+  read(document: SourceDocument): Promise<string | undefined>;
+  outline(document: SourceDocument): Promise<string>;
+}
+
+interface WorkspaceRoot {
+  name: string;
+  fsPath: string;
+  /** Prepended to every path in a multi-root workspace, e.g. "api/" */
+  prefix: string;
+}
 
 export class ContextBuilder {
-  private readonly MAX_CONTEXT_SIZE = 50 * 1024; // 50KB
-  private readonly RELEVANT_EXTENSIONS = [
-    '.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.cs',
-    '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.scala', '.dart',
-    '.vue', '.svelte', '.html', '.css', '.scss', '.less', '.json',
-    '.xml', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf',
-    '.md', '.txt', '.sql', '.sh', '.bash', '.zsh', '.fish'
+  private readonly DEFAULT_TOKEN_BUDGET = 12000; // About 50KB of source
+  private readonly MAX_FILE_TOKENS = 2000; // Longer files are reduced to an outline or an excerpt
+  private readonly MIN_EXCERPT_TOKENS = 64; // Smaller excerpts are not worth including
+  private readonly STRUCTURE_SHARE = 0.1; // Of the budget, for the file tree
+  private readonly GIT_SHARE = 0.15; // Of each folder's budget, at most, for its git section
+  private readonly GIT_HISTORY_FILES = 3; // Best matches whose recent commits are listed
+  private readonly OUTLINE_SHARE = 0.3; // Of each folder's budget, at least, for outlines of the other files
+  private readonly MAX_SYMBOL_PROVIDER_FILES = 40; // Further files are outlined by pattern matching
+  private readonly SYMBOL_PROVIDER_TIMEOUT = 3000; // After one timeout, pattern matching is used for the rest
+  private readonly OUTLINE_EXTENSIONS = [
+    '.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.c', '.cs', '.go', '.rs', '.php', '.rb',
+    '.swift', '.kt', '.scala', '.dart', '.vue', '.svelte'
   ];
+  private readonly MAX_RANKED_FILES = 10;
+  private readonly MAX_IMPORTS_PER_FILE = 5;
+
+  /**
+   * Workspace folders chosen with "AI Plan: Select Context Folders", or undefined for all of them
+   */
+  static getFolderSelection(): string[] | undefined {
+    return getExtensionContext()?.workspaceState.get<string[]>(FOLDER_SELECTION_KEY);
+  }
+
+  static async setFolderSelection(folders: string[] | undefined): Promise<void> {
+    await getExtensionContext()?.workspaceState.update(FOLDER_SELECTION_KEY, folders);
+  }
+
+  /**
+   * Build the workspace context for a plan.
+   * With a ticket, files are ranked by how well they match its summary and description, and their
+   * relative imports are pulled in next to them; without one, source files are picked by type.
+   * Files are added until the token budget is used up; files that do not fit whole are reduced to
+   * their declarations or cut short. A share of the budget is kept for a project outline: the
+   * declarations of the remaining files, most relevant first, taken from the language's document
+   * symbol provider where one answers and found by pattern matching otherwise.
+   * In a multi-root workspace every selected folder gets an equal share of the budget (unused
+   * tokens pass on to the next folder) and paths are prefixed with the folder name.
+   * With no folder open the context is empty and the plan is based on the ticket alone.
+   * With `includeGitContext`, each folder inside a git repository also gets a section with the
+   * branch's changes, commits mentioning the ticket key and uncommitted work, ahead of its files.
+   * Files come from the workspace index, so only the files that end up in the context are read.
+   * Aborting the signal stops waiting for the index and the file reads with a CANCELLED error.
+   */
+  async buildContext(ticket?: RecentTicket, options: ContextBuildOptions = {}): Promise<WorkspaceContext> {
+    const { signal } = options;
+    const tokenBudget = Math.max(0, options.tokenBudget ?? this.DEFAULT_TOKEN_BUDGET);
+    const roots = this.resolveRoots(options.folders ?? ContextBuilder.getFolderSelection());
+    if (roots.length === 0) {
+      return this.buildTicketOnlyContext();
+    }
 
-  async buildContext(): Promise<string> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      throw new Error('No workspace folder found');
+    const files: string[] = [];
+    const ignoredFiles: string[] = [];
+    const documents: SourceDocument[][] = [];
+    const indexes: WorkspaceIndex[] = [];
+
+    for (const root of roots) {
+      const index = await this.getIndex(root, signal);
+      indexes.push(index);
+      const rootDocuments = index.getFiles().map(entry => ({
+        path: root.prefix + entry.path,
+        fsPath: path.join(root.fsPath, ...entry.path.split('/')),
+        entry
+      }));
+      files.push(...rootDocuments.map(document => document.path));
+      ignoredFiles.push(...index.getIgnoredFiles().map(file => root.prefix + file));
+      documents.push(rootDocuments);
     }
 
-    const workspacePath = workspaceFolder.uri.fsPath;
-    const ignorePatterns = await this.readGitignore(workspacePath);
-    const files = await this.walkWorkspace(workspacePath, ignorePatterns);
+    // The file tree gets a fixed share; the list of selected files is small and covered by the model's safety margin
+    const structure = options.includeFileStructure === false
+      ? ''
+      : truncateToTokens(this.buildFileStructure(files), Math.floor(tokenBudget * this.STRUCTURE_SHARE));
+    const selection: ContextFileSelection[] = [];
+    const git: GitContext[] = [];
+    const outlinedFiles: string[] = [];
+    const reader = this.createReader(signal);
+    let gitSections = '';
+    let sources = '';
+    let outlines = '';
+    let totalTokens = estimateTokens(structure);
+
+    for (const [index, root] of roots.entries()) {
+      const rootDocuments = documents[index];
+      const candidates = await this.selectFiles(rootDocuments, reader, ticket);
+      let budget = Math.floor((tokenBudget - totalTokens) / (roots.length - index));
+
+      if (options.includeGitContext) {
+        const rootGit = await this.buildGitContext(root, indexes[index], candidates, ticket, signal);
+        if (rootGit) {
+          const section = formatGitContext(rootGit, Math.floor(budget * this.GIT_SHARE), root.prefix);
+          const tokens = estimateTokens(section);
+          git.push(rootGit);
+          gitSections += section;
+          totalTokens += tokens;
+          budget -= tokens;
+        }
+      }
+
+      const rootContext = await this.assembleSources(
+        candidates,
+        rootDocuments,
+        Math.floor(budget * (1 - this.OUTLINE_SHARE)),
+        reader
+      );
+      selection.push(...rootContext.selection);
+      sources += rootContext.sources;
+      totalTokens += rootContext.tokens;
+
+      // Whatever the full files left over goes to outlines of the files not already included
+      const included = new Set(rootContext.selection.map(file => file.path));
+      const rootOutline = await this.assembleOutline(
+        this.orderByRelevance(rootDocuments, ticket).filter(document => !included.has(document.path)),
+        budget - rootContext.tokens,
+        reader
+      );
+      outlinedFiles.push(...rootOutline.files);
+      outlines += rootOutline.outline;
+      totalTokens += rootOutline.tokens;
+    }
     
-    const context = await this.buildContextFromFiles(files, workspacePath);
+    let content = `# Selected Files\n${this.formatSelection(selection)}\n\n`;
+    if (structure) {
+      content += `# Workspace Structure\n${structure}\n\n`;
+    }
+    if (gitSections) {
+      content += `# Git Context\n${gitSections}\n\n`;
+    }
+    content += `# Source Files\n${sources}`;
+    if (outlines) {
+      content += `\n# Project Outline\nDeclarations in the other files, most relevant first.\n${outlines}`;
+    }
     
-    return context;
+    return {
+      content,
+      folders: roots.map(root => root.name),
+      files,
+      structure,
+      totalSize: content.length,
+      totalTokens: estimateTokens(content),
+      tokenBudget,
+      ignoredFiles,
+      selection,
+      outlinedFiles,
+      git
+    };
   }
 
-  private async readGitignore(workspacePath: string): Promise<string[]> {
-    const gitignorePath = path.join(workspacePath, '.gitignore');
-    
-    if (!fs.existsSync(gitignorePath)) {
-      return [];
+  private resolveRoots(folderNames?: string[]): WorkspaceRoot[] {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const chosen = workspaceFolders.filter(folder => folderNames?.includes(folder.name));
+    // A stale selection (e.g. a renamed folder) falls back to every folder rather than to none
+    const folders = chosen.length > 0 ? chosen : workspaceFolders;
+    const prefixPaths = workspaceFolders.length > 1;
+
+    return folders.map(folder => ({
+      name: folder.name,
+      fsPath: folder.uri.fsPath,
+      prefix: prefixPaths ? `${folder.name}/` : ''
+    }));
+  }
+
+  private buildTicketOnlyContext(): WorkspaceContext {
+    return {
+      content: '# Workspace\nNo workspace folder is open. Base the plan on the ticket alone and say which files are likely to change.',
+      folders: [],
+      files: [],
+      structure: '',
+      totalSize: 0,
+      totalTokens: 0,
+      tokenBudget: 0,
+      ignoredFiles: [],
+      selection: [],
+      outlinedFiles: [],
+      git: []
+    };
+  }
+
+  /**
+   * Read a folder's git state, with the history of its best-matching files. Files the index ignores are
+   * left out, so the diff cannot bring back what `.aiplanignore` keeps from the file context.
+   */
+  private async buildGitContext(
+    root: WorkspaceRoot,
+    index: WorkspaceIndex,
+    candidates: ContextFileSelection[],
+    ticket?: RecentTicket,
+    signal?: AbortSignal
+  ): Promise<GitContext | undefined> {
+    const historyFiles = candidates
+      .filter(candidate => candidate.reason === 'match')
+      .slice(0, this.GIT_HISTORY_FILES)
+      .map(candidate => candidate.path.slice(root.prefix.length));
+
+    const git = await collectGitContext(root.fsPath, {
+      folder: root.name,
+      ticketKey: ticket?.key,
+      files: historyFiles,
+      isIgnored: relativePath => index.isIgnored(relativePath),
+      signal
+    });
+    this.throwIfAborted(signal);
+    return git;
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw ErrorFactory.cancelled('ContextBuilder', 'context_build');
     }
+  }
 
-    try {
-      const content = fs.readFileSync(gitignorePath, 'utf8');
-      return content.split('\n')
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith('#'));
-    } catch (error) {
-      console.error('Error reading .gitignore:', error);
-      return [];
+  /**
+   * The folder's index from the index service, or a one-off index when the extension has not set it up
+   */
+  private async getIndex(root: WorkspaceRoot, signal?: AbortSignal): Promise<WorkspaceIndex> {
+    if (getExtensionContext()) {
+      return indexService.getIndex(root.fsPath, signal);
     }
+    const index = new WorkspaceIndex(root.fsPath);
+    await index.refresh(signal);
+    return index;
   }
 
-  private async walkWorkspace(workspacePath: string, ignorePatterns: string[]): Promise<string[]> {
-    const files: string[] = [];
+  /**
+   * Add the candidates in order until the token budget is used up.
+   * A file that does not fit whole is replaced by its declarations, or else by its first lines.
+   */
+  private async assembleSources(
+    candidates: ContextFileSelection[],
+    documents: SourceDocument[],
+    budget: number,
+    reader: DocumentReader
+  ): Promise<{ sources: string; tokens: number; selection: ContextFileSelection[] }> {
+    const byPath = new Map(documents.map(document => [document.path, document]));
+    let sources = '';
+    let tokens = 0;
+    const selection: ContextFileSelection[] = [];
     
-    const walkDir = (dir: string): void => {
-      try {
-        const items = fs.readdirSync(dir);
-        
-        for (const item of items) {
-          const fullPath = path.join(dir, item);
-          const relativePath = path.relative(workspacePath, fullPath);
-          
-          // Skip if matches ignore patterns
-          if (this.shouldIgnore(relativePath, ignorePatterns)) {
-            continue;
-          }
-          
-          const stat = fs.statSync(fullPath);
-          
-          if (stat.isDirectory()) {
-            walkDir(fullPath);
-          } else if (stat.isFile()) {
-            const ext = path.extname(item).toLowerCase();
-            if (this.RELEVANT_EXTENSIONS.includes(ext)) {
-              files.push(fullPath);
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error walking directory ${dir}:`, error);
+    for (const candidate of candidates) {
+      const remaining = budget - tokens;
+      if (remaining < this.MIN_EXCERPT_TOKENS) {
+        break;
       }
-    };
-    
-    walkDir(workspacePath);
-    return files;
-  }
 
-  private shouldIgnore(filePath: string, ignorePatterns: string[]): boolean {
-    for (const pattern of ignorePatterns) {
-      if (pattern.includes('*')) {
-        // Simple glob pattern matching
-        const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-        if (regex.test(filePath)) {
-          return true;
+      const document = byPath.get(candidate.path)!;
+      const content = await reader.read(document);
+      if (content === undefined) {
+        continue;
+      }
+      const header = `\n## ${candidate.path}\n\`\`\`${this.getLanguageFromExtension(path.extname(candidate.path))}\n`;
+      const footer = '\n```\n';
+      const available = Math.min(this.MAX_FILE_TOKENS, remaining - estimateTokens(header + footer));
+
+      let body = content;
+      let excerpt: ContextFileSelection['excerpt'];
+      if (estimateTokens(content) > available) {
+        const outline = await reader.outline(document);
+        excerpt = outline && estimateTokens(outline) <= available ? 'outline' : 'truncated';
+        body = excerpt === 'outline' ? outline : truncateToTokens(content, available);
+        if (estimateTokens(body) < this.MIN_EXCERPT_TOKENS) {
+          continue;
         }
-      } else if (filePath.includes(pattern)) {
-        return true;
       }
+
+      const fileContext = header + body + footer;
+      sources += fileContext;
+      tokens += estimateTokens(fileContext);
+      selection.push(excerpt ? { ...candidate, excerpt } : candidate);
     }
-    return false;
+
+    return { sources, tokens, selection };
   }
 
-  private async buildContextFromFiles(files: string[], workspacePath: string): Promise<string> {
-    let context = '';
-    let totalSize = 0;
-    const includedFiles: string[] = [];
-    
-    // Sort files by relevance (prioritize source files)
-    const sortedFiles = files.sort((a, b) => {
-      const aExt = path.extname(a).toLowerCase();
-      const bExt = path.extname(b).toLowerCase();
-      
-      const aScore = this.getFileRelevanceScore(aExt);
-      const bScore = this.getFileRelevanceScore(bExt);
-      
-      return bScore - aScore;
-    });
-    
-    for (const file of sortedFiles) {
-      if (totalSize >= this.MAX_CONTEXT_SIZE) {
+  /**
+   * Outline the documents in order until the budget is used up; files without declarations are skipped
+   */
+  private async assembleOutline(
+    documents: SourceDocument[],
+    budget: number,
+    reader: DocumentReader
+  ): Promise<{ outline: string; tokens: number; files: string[] }> {
+    let outline = '';
+    let tokens = 0;
+    const files: string[] = [];
+
+    for (const document of documents) {
+      if (budget - tokens < this.MIN_EXCERPT_TOKENS) {
         break;
       }
-      
-      try {
-        const content = fs.readFileSync(file, 'utf8');
-        const relativePath = path.relative(workspacePath, file);
-        
-        // Skip if file is too large
-        if (content.length > 5000) {
-          continue;
-        }
-        
-        const fileContext = `\n## ${relativePath}\n\`\`\`${this.getLanguageFromExtension(path.extname(file))}\n${content}\n\`\`\`\n`;
-        
-        if (totalSize + fileContext.length <= this.MAX_CONTEXT_SIZE) {
-          context += fileContext;
-          totalSize += fileContext.length;
-          includedFiles.push(relativePath);
+      if (!this.OUTLINE_EXTENSIONS.includes(path.extname(document.path).toLowerCase())) {
+        continue;
+      }
+
+      const declarations = await reader.outline(document);
+      if (!declarations) {
+        continue;
+      }
+      const entry = `\n${document.path}\n${declarations.split('\n').map(line => `  ${line}`).join('\n')}\n`;
+      const cost = estimateTokens(entry);
+      if (tokens + cost > budget) {
+        continue;
+      }
+      outline += entry;
+      tokens += cost;
+      files.push(document.path);
+    }
+
+    return { outline, tokens, files };
+  }
+
+  /**
+   * Read files on demand, and outline them with the language's document symbol provider, falling back
+   * to the index's pattern-matched outline when no provider answers or the provider is too slow
+   */
+  private createReader(signal?: AbortSignal): DocumentReader {
+    const contents = new Map<string, Promise<string | undefined>>();
+    const outlines = new Map<string, string>();
+    let providerCalls = 0;
+    let providerResponsive = true;
+
+    const read = (document: SourceDocument) => {
+      let content = contents.get(document.path);
+      if (!content) {
+        this.throwIfAborted(signal);
+        content = fs.promises.readFile(document.fsPath, 'utf8').catch(error => {
+          // Deleted or moved since it was indexed
+          console.error(`Error reading file ${document.fsPath}:`, error);
+          return undefined;
+        });
+        contents.set(document.path, content);
+      }
+      return content;
+    };
+
+    const outline = async (document: SourceDocument) => {
+      const cached = outlines.get(document.path);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      let declarations = '';
+      const extension = path.extname(document.path).toLowerCase();
+      if (providerResponsive && providerCalls < this.MAX_SYMBOL_PROVIDER_FILES && this.OUTLINE_EXTENSIONS.includes(extension)) {
+        providerCalls++;
+        const symbols = await this.getDocumentSymbols(document.fsPath);
+        this.throwIfAborted(signal);
+        const content = symbols !== 'timeout' && symbols.length > 0 ? await read(document) : undefined;
+        if (symbols === 'timeout') {
+          providerResponsive = false;
+        } else if (content !== undefined) {
+          declarations = formatSymbolOutline(symbols, content);
         }
-      } catch (error) {
-        console.error(`Error reading file ${file}:`, error);
       }
+
+      declarations = declarations || document.entry.outline;
+      outlines.set(document.path, declarations);
+      return declarations;
+    };
+
+    return { read, outline };
+  }
+
+  /**
+   * Ask VS Code for a file's symbols; an empty list when no provider handles the language
+   */
+  private async getDocumentSymbols(fsPath: string): Promise<OutlineSymbol[] | 'timeout'> {
+    const toOutlineSymbol = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation): OutlineSymbol => 'children' in symbol
+      ? {
+        name: symbol.name,
+        kind: vscode.SymbolKind[symbol.kind],
+        line: symbol.selectionRange.start.line,
+        children: symbol.children.map(toOutlineSymbol)
+      }
+      : { name: symbol.name, kind: vscode.SymbolKind[symbol.kind], line: symbol.location.range.start.line, children: [] };
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), this.SYMBOL_PROVIDER_TIMEOUT);
+    });
+
+    try {
+      const symbols = await Promise.race([
+        vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined>(
+          'vscode.executeDocumentSymbolProvider',
+          vscode.Uri.file(fsPath)
+        ),
+        timeout
+      ]);
+      return symbols === 'timeout' ? symbols : (symbols || []).map(toOutlineSymbol);
+    } catch (error) {
+      console.error(`Error reading symbols of ${fsPath}:`, error);
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Order the files to include: the best ticket matches, each followed by the files it imports
+   */
+  private async selectFiles(
+    documents: SourceDocument[],
+    reader: DocumentReader,
+    ticket?: RecentTicket
+  ): Promise<ContextFileSelection[]> {
+    const ranked = this.rankDocuments(documents, ticket).slice(0, this.MAX_RANKED_FILES);
+
+    if (ranked.length === 0) {
+      // Nothing to match against: prioritize source files by type
+      return this.sortByFileType(documents)
+        .map(document => ({ path: document.path, score: 0, reason: 'fallback' as const, matchedTerms: [] }));
+    }
+
+    const knownPaths = new Set(documents.map(document => document.path));
+    const byPath = new Map(documents.map(document => [document.path, document]));
+    const rankedPaths = new Set(ranked.map(document => document.path));
+    const selected = new Map<string, ContextFileSelection>();
+
+    for (const document of ranked) {
+      if (!selected.has(document.path)) {
+        selected.set(document.path, { ...document, reason: 'match' });
+      }
+      const content = await reader.read(byPath.get(document.path)!);
+      const imports = resolveImports(document.path, content || '', knownPaths)
+        .filter(imported => !selected.has(imported) && !rankedPaths.has(imported))
+        .slice(0, this.MAX_IMPORTS_PER_FILE);
+      for (const imported of imports) {
+        selected.set(imported, {
+          path: imported,
+          score: document.score,
+          reason: 'import',
+          matchedTerms: [],
+          importedBy: document.path
+        });
+      }
+    }
+
+    return Array.from(selected.values());
+  }
+
+  /**
+   * Every document, ticket matches first (best first), then the rest by file type
+   */
+  private orderByRelevance(documents: SourceDocument[], ticket?: RecentTicket): SourceDocument[] {
+    const byPath = new Map(documents.map(document => [document.path, document]));
+    const ranked = this.rankDocuments(documents, ticket).map(document => byPath.get(document.path)!);
+    const rankedPaths = new Set(ranked.map(document => document.path));
+    return [...ranked, ...this.sortByFileType(documents.filter(document => !rankedPaths.has(document.path)))];
+  }
+
+  private rankDocuments(documents: SourceDocument[], ticket?: RecentTicket): RankedDocument[] {
+    if (!ticket) {
+      return [];
+    }
+    const queryTerms = extractQueryTerms(ticket.summary, ticket.description, ticket.labels.join(' '));
+    return rankIndexedDocuments(
+      documents.map(document => ({ path: document.path, terms: document.entry.terms, length: document.entry.length })),
+      queryTerms
+    );
+  }
+
+  private sortByFileType(documents: SourceDocument[]): SourceDocument[] {
+    const score = (document: SourceDocument) => this.getFileRelevanceScore(path.extname(document.path).toLowerCase());
+    return [...documents].sort((a, b) => score(b) - score(a));
+  }
+
+  private formatSelection(selection: ContextFileSelection[]): string {
+    if (selection.length === 0) {
+      return 'No files selected.';
+    }
+    return selection.map(file => {
+      switch (file.reason) {
+      case 'match':
+        return `- ${file.path} (score ${file.score.toFixed(2)}; matched: ${file.matchedTerms.slice(0, 5).join(', ')})${this.formatExcerpt(file)}`;
+      case 'import':
+        return `- ${file.path} (imported by ${file.importedBy})${this.formatExcerpt(file)}`;
+      default:
+        return `- ${file.path}${this.formatExcerpt(file)}`;
+      }
+    }).join('\n');
+  }
+
+  private formatExcerpt(file: ContextFileSelection): string {
+    switch (file.excerpt) {
+    case 'outline':
+      return ' [declarations only]';
+    case 'truncated':
+      return ' [truncated]';
+    default:
+      return '';
     }
-    
-    // Add file structure summary
-    const structure = this.buildFileStructure(files, workspacePath);
-    context = `# Workspace Structure\n${structure}\n\n# Source Files\n${context}`;
-    
-    return context;
   }
 
   private getFileRelevanceScore(extension: string): number {
@@ -172,13 +566,12 @@ export class ContextBuilder {
     return languageMap[extension] || 'text';
   }
 
-  private buildFileStructure(files: string[], workspacePath: string): string {
+  private buildFileStructure(relativePaths: string[]): string {
     const structure: Record<string, string[]> = {};
     
-    for (const file of files) {
-      const relativePath = path.relative(workspacePath, file);
-      const dir = path.dirname(relativePath);
-      const filename = path.basename(relativePath);
+    for (const relativePath of relativePaths) {
+      const dir = path.posix.dirname(relativePath);
+      const filename = path.posix.basename(relativePath);
       
       if (!structure[dir]) {
         structure[dir] = [];
@@ -0,0 +1,248 @@
+/**
+ * Ticket-aware ranking of workspace files
+ * BM25 over file paths, declared symbols and content, with no VS Code dependency
+ */
+
+import * as path from 'path';
+
+export interface RankableDocument {
+  /** Workspace-relative path with forward slashes */
+  path: string;
+  content: string;
+}
+
+export interface RankedDocument {
+  path: string;
+  score: number;
+  /** Query terms found in the document, strongest first */
+  matchedTerms: string[];
+}
+
+/** Matches in the path count more than matches in a symbol name, which count more than content */
+const FIELD_WEIGHTS = { path: 3, symbols: 2, content: 1 };
+const K1 = 1.2;
+const B = 0.75;
+const MIN_TERM_LENGTH = 3;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'when', 'then', 'than', 'should', 'would',
+  'could', 'will', 'can', 'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had', 'not', 'but', 'all',
+  'any', 'our', 'their', 'there', 'these', 'those', 'which', 'what', 'where', 'while', 'who', 'why', 'how',
+  'use', 'used', 'using', 'add', 'make', 'need', 'needs', 'want', 'please', 'also', 'only', 'some', 'more',
+  'like', 'such', 'each', 'other', 'instead', 'currently', 'so', 'its', 'it', 'you', 'we', 'they', 'them',
+  'via', 'per', 'out', 'get', 'set', 'new', 'able', 'sure', 'etc', 'e.g', 'i.e', 'http', 'https', 'www', 'com'
+]);
+
+const SYMBOL_PATTERN = new RegExp([
+  '(?:class|interface|enum|type|struct|trait|function|def|fn|func|module|namespace)\\s+([A-Za-z_$][\\w$]*)',
+  '(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)\\s*[=:]'
+].join('|'), 'g');
+
+/**
+ * Split identifiers such as `buildContextFromFiles`, `MAX_SIZE` or `task-queue` into lowercase words.
+ * Compound identifiers are also kept whole so exact symbol references score highest.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*(?:[_-][A-Za-z0-9]+)*/g) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_-]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length >= MIN_TERM_LENGTH && !STOPWORDS.has(part));
+
+    tokens.push(...parts);
+    const whole = word.toLowerCase().replace(/[_-]/g, '');
+    if (parts.length > 1 && whole.length >= MIN_TERM_LENGTH) {
+      tokens.push(whole);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Extract the distinct search terms of a ticket's summary and description
+ */
+export function extractQueryTerms(...texts: string[]): string[] {
+  return Array.from(new Set(texts.flatMap(text => tokenize(text || ''))));
+}
+
+/**
+ * Names declared in a source file (classes, functions, types, top-level constants)
+ */
+export function extractSymbols(content: string): string[] {
+  const symbols: string[] = [];
+  for (const match of content.matchAll(SYMBOL_PATTERN)) {
+    symbols.push(match[1] || match[2]);
+  }
+  return symbols;
+}
+
+const OUTLINE_PATTERNS = [
+  // Type and function declarations at any depth (covers Python methods too)
+  /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:pub\s+)?(?:class|interface|enum|type|struct|trait|impl|function|def|fn|func|module|namespace)\b/,
+  // Top-level constants
+  /^(?:export\s+)?(?:const|let|var)\b/,
+  // Class members one indentation level deep; deeper lines are method bodies
+  /^(?: {2}| {4}|\t)(?!(?:if|for|while|switch|catch|return|await|throw|new|else|super|this)\b)(?:(?:public|private|protected|static|readonly|abstract|async|override|get|set)\s+)*[A-Za-z_$][\w$]*\??\s*[(:<=]/
+];
+
+/**
+ * The declaration lines of a source file, used in place of files too large to include whole
+ */
+export function extractOutline(content: string): string {
+  return content
+    .split('\n')
+    .filter(line => OUTLINE_PATTERNS.some(pattern => pattern.test(line)))
+    .map(line => line.replace(/\s*\{\s*$/, '').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Term statistics of one document, the part of BM25 that does not depend on the query
+ */
+export interface DocumentTerms {
+  /** Field-weighted frequency of every term in the document */
+  terms: Record<string, number>;
+  /** Field-weighted number of terms */
+  length: number;
+}
+
+export interface IndexedDocument extends DocumentTerms {
+  path: string;
+}
+
+/**
+ * Count the terms of a document's path, declared symbols and content, weighting path and symbol terms higher
+ */
+export function indexDocument(document: RankableDocument): DocumentTerms {
+  // No prototype, so terms such as "constructor" start from zero
+  const terms: Record<string, number> = Object.create(null);
+  let length = 0;
+  const addField = (tokens: string[], weight: number) => {
+    for (const token of tokens) {
+      length += weight;
+      terms[token] = (terms[token] || 0) + weight;
+    }
+  };
+  addField(tokenize(document.path), FIELD_WEIGHTS.path);
+  addField(tokenize(extractSymbols(document.content).join(' ')), FIELD_WEIGHTS.symbols);
+  addField(tokenize(document.content), FIELD_WEIGHTS.content);
+  return { terms, length };
+}
+
+/**
+ * Rank documents against the query terms with BM25, weighting path and symbol matches above content.
+ * Documents that match no term are left out.
+ */
+export function rankDocuments(documents: RankableDocument[], queryTerms: string[]): RankedDocument[] {
+  if (queryTerms.length === 0) {
+    return [];
+  }
+  return rankIndexedDocuments(documents.map(document => ({ path: document.path, ...indexDocument(document) })), queryTerms);
+}
+
+/**
+ * `rankDocuments` over documents indexed beforehand, e.g. by the workspace index
+ */
+export function rankIndexedDocuments(documents: IndexedDocument[], queryTerms: string[]): RankedDocument[] {
+  if (documents.length === 0 || queryTerms.length === 0) {
+    return [];
+  }
+
+  const query = Array.from(new Set(queryTerms));
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of query) {
+      if (termFrequency(document, term)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  const ranked: RankedDocument[] = [];
+  for (const document of documents) {
+    const termScores: Array<[string, number]> = [];
+    for (const term of query) {
+      const frequency = termFrequency(document, term);
+      if (!frequency) {
+        continue;
+      }
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm = frequency + K1 * (1 - B + B * document.length / averageLength);
+      termScores.push([term, idf * frequency * (K1 + 1) / norm]);
+    }
+    if (termScores.length === 0) {
+      continue;
+    }
+    termScores.sort((a, b) => b[1] - a[1]);
+    ranked.push({
+      path: document.path,
+      score: termScores.reduce((sum, [, score]) => sum + score, 0),
+      matchedTerms: termScores.map(([term]) => term)
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+/**
+ * Own properties only: terms read back from JSON have a prototype
+ */
+function termFrequency(document: DocumentTerms, term: string): number {
+  return Object.prototype.hasOwnProperty.call(document.terms, term) ? document.terms[term] : 0;
+}
+
+const IMPORT_PATTERNS = [
+  /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]/g,
+  /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /import\s+['"]([^'"]+)['"]/g
+];
+const RESOLVE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.vue', '.svelte', '/index.ts', '/index.tsx', '/index.js'];
+
+/**
+ * Workspace files imported by a file through relative imports (JS/TS) or relative `from . import` (Python)
+ * @param knownPaths every workspace-relative path, with forward slashes
+ */
+export function resolveImports(filePath: string, content: string, knownPaths: Set<string>): string[] {
+  const directory = path.posix.dirname(filePath);
+  const resolved = new Set<string>();
+
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      const specifier = match[1];
+      if (!specifier.startsWith('.')) {
+        continue;
+      }
+      const base = path.posix.normalize(path.posix.join(directory, specifier));
+      const target = RESOLVE_SUFFIXES.map(suffix => base + suffix).find(candidate => knownPaths.has(candidate));
+      if (target && target !== filePath) {
+        resolved.add(target);
+      }
+    }
+  }
+
+  for (const match of content.matchAll(/^\s*from\s+(\.+)([\w.]*)\s+import\s+([\w, ]+)/gm)) {
+    let base = directory;
+    for (let level = 1; level < match[1].length; level++) {
+      base = path.posix.dirname(base);
+    }
+    const modulePath = match[2] ? path.posix.join(base, ...match[2].split('.')) : base;
+    const candidates = [`${modulePath}.py`, `${modulePath}/__init__.py`];
+    if (!match[2]) {
+      // `from . import a, b` imports sibling modules
+      candidates.push(...match[3].split(',').map(name => path.posix.join(modulePath, `${name.trim()}.py`)));
+    }
+    for (const candidate of candidates) {
+      if (knownPaths.has(candidate) && candidate !== filePath) {
+        resolved.add(candidate);
+      }
+    }
+  }
+
+  return Array.from(resolved);
+}
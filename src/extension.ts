@@ -1,23 +1,40 @@
 import * as vscode from 'vscode';
 import { RecentTicketsPicker } from './ui/recentTicketsPicker';
-import { PlanGenerator } from './ui/planGenerator';
+import { PLAN_OPTION_LABELS, PlanGenerator, PlanResult, PlanTaskMetadata } from './ui/planGenerator';
+import { TaskTreeItem, TaskTreeProvider } from './ui/taskTreeView';
+import { PlanHistoryItem, PlanHistoryProvider, comparePlans, formatTimestamp, listSavedPlans } from './ui/planHistoryView';
+import { PlanChecklistItem, PlanChecklistProvider, openChecklistPlan } from './ui/planChecklistView';
+import { moveTicket, startWork } from './ui/ticketWorkflow';
+import { createTicketBranch } from './ui/ticketBranch';
+import { currentTicketService, showCurrentTicketActions } from './ui/currentTicket';
+import { taskQueue } from './utils/taskQueue';
+import { ContextBuilder } from './contextBuilder';
+import { indexService } from './indexService';
 import { setExtensionContext } from './context';
 import { SettingsPanel } from './ui/settingsPanel';
-import { ConfigurationPanel } from './ui/configurationPanel';
+import { ConfigurationPanel, applySavedConfiguration } from './ui/configurationPanel';
 import { feedbackSystem } from './ui/feedbackSystem';
 import { errorHandler } from './ui/errorHandler';
 import { loadDotenv } from './config/dotenv-loader';
 import { getMaskedConfig } from './config/environment';
+import { PlanGenerationOptions, RecentTicket } from './types';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('AI Plan extension is now active!');
   
-  // Load environment variables from .env file
+  // Load environment variables from .env file, then the values saved from the configuration panel
   loadDotenv(context.extensionPath);
+  applySavedConfiguration();
   console.log('Environment configuration:', getMaskedConfig());
   
   setExtensionContext(context);
 
+  // Index the workspace in the background and keep the index current as files change
+  indexService.initialize(context);
+
+  // Follow the checked-out branch to show the ticket being worked on in the status bar
+  currentTicketService.initialize(context);
+
   // Register the main command with enhanced UI
   const disposable = vscode.commands.registerCommand('ai-plan.generateFromRecent', async () => {
     try {
@@ -26,11 +43,12 @@ export function activate(context: vscode.ExtensionContext) {
       const picker = new RecentTicketsPicker();
       const ticket = await picker.showRecentTickets();
       
-      if (ticket) {
+      const options = ticket && await pickPlanOptions();
+      if (ticket && options) {
         feedbackSystem.showStatusBarMessage('$(rocket) Generating plan...', 'progress');
         const generator = new PlanGenerator();
-        await generator.generatePlan(ticket);
-      } else {
+        await generator.generatePlan(ticket, options);
+      } else if (!ticket) {
         feedbackSystem.showStatusBarMessage('$(info) No ticket selected', 'info', 2000);
       }
     } catch (error) {
@@ -58,15 +76,16 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(disposable);
 
-  // Register a streaming variant that writes into Output Channel
+  // Register a streaming variant that renders tokens live in a webview panel
   const streamingDisposable = vscode.commands.registerCommand('ai-plan.generateFromRecentStreaming', async () => {
     try {
       const picker = new RecentTicketsPicker();
       const ticket = await picker.showRecentTickets();
       
-      if (ticket) {
+      const options = ticket && await pickPlanOptions();
+      if (ticket && options) {
         const generator = new PlanGenerator();
-        await generator.generatePlan(ticket);
+        await generator.generatePlanStreaming(ticket, options);
       }
     } catch (error) {
       console.error('Error in generateFromRecentStreaming command:', error);
@@ -76,6 +95,184 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(streamingDisposable);
 
+  // Register cancel command for in-flight plan generations
+  const cancelDisposable = vscode.commands.registerCommand('ai-plan.cancelGeneration', async () => {
+    const cancelled = PlanGenerator.cancelActiveGenerations();
+    if (cancelled > 0) {
+      feedbackSystem.showStatusBarMessage(`$(debug-stop) Cancelled ${cancelled} plan generation${cancelled === 1 ? '' : 's'}`, 'warning', 3000);
+    } else {
+      await vscode.window.showInformationMessage('No plan generation is running.');
+    }
+  });
+
+  context.subscriptions.push(cancelDisposable);
+
+  // Register the background task view in the AI Plan activity bar container
+  const taskTreeProvider = new TaskTreeProvider();
+  context.subscriptions.push(
+    taskTreeProvider,
+    vscode.window.createTreeView('aiPlan.tasks', { treeDataProvider: taskTreeProvider }),
+    vscode.commands.registerCommand('ai-plan.tasks.cancel', (item: TaskTreeItem) => {
+      taskQueue.cancel(item.taskId);
+    }),
+    vscode.commands.registerCommand('ai-plan.tasks.retry', async (item: TaskTreeItem) => {
+      const metadata = item.metadata as PlanTaskMetadata | undefined;
+      if (!metadata?.ticket) {
+        await vscode.window.showWarningMessage('This task cannot be retried.');
+        return;
+      }
+      const generator = new PlanGenerator();
+      await (metadata.streaming
+        ? generator.generatePlanStreaming(metadata.ticket, metadata.options)
+        : generator.generatePlan(metadata.ticket, metadata.options));
+    }),
+    vscode.commands.registerCommand('ai-plan.tasks.openPlan', async (item: TaskTreeItem) => {
+      const metadata = item.metadata as PlanTaskMetadata | undefined;
+      const plan = item.result?.result as PlanResult | undefined;
+      if (!metadata?.ticket || !plan) {
+        await vscode.window.showWarningMessage('This task has no plan to open.');
+        return;
+      }
+      await new PlanGenerator().openPlanDocument(metadata.ticket, plan);
+    }),
+    vscode.commands.registerCommand('ai-plan.tasks.postPlan', async (item: TaskTreeItem) => {
+      const metadata = item.metadata as PlanTaskMetadata | undefined;
+      const plan = item.result?.result as PlanResult | undefined;
+      if (!metadata?.ticket || !plan) {
+        await vscode.window.showWarningMessage('This task has no plan to post.');
+        return;
+      }
+      await new PlanGenerator().postPlanToTicket(metadata.ticket, plan);
+    }),
+    vscode.commands.registerCommand('ai-plan.tasks.clearFinished', () => taskTreeProvider.clearFinished())
+  );
+
+  // Register the Plan History view of plans saved in the workspace
+  const planHistoryProvider = new PlanHistoryProvider();
+  context.subscriptions.push(
+    planHistoryProvider,
+    vscode.window.createTreeView('aiPlan.planHistory', { treeDataProvider: planHistoryProvider }),
+    vscode.commands.registerCommand('ai-plan.planHistory.refresh', () => planHistoryProvider.refresh()),
+    vscode.commands.registerCommand('ai-plan.planHistory.open', async (item: PlanHistoryItem) => {
+      await vscode.window.showTextDocument(vscode.Uri.file(item.plan.filePath), { preview: false });
+    }),
+    vscode.commands.registerCommand('ai-plan.planHistory.compareWithPrevious', async (item: PlanHistoryItem) => {
+      if (item.plans.length < 2) {
+        await vscode.window.showInformationMessage(`This is the first plan saved for ${item.plan.ticket}.`);
+        return;
+      }
+      await comparePlans(item.plans[1], item.plan);
+    }),
+    vscode.commands.registerCommand('ai-plan.planHistory.compareWith', async (item: PlanHistoryItem) => {
+      const others = (await listSavedPlans(item.plan.ticket)).filter(plan => plan.filePath !== item.plan.filePath);
+      if (others.length === 0) {
+        await vscode.window.showInformationMessage(`No other plan is saved for ${item.plan.ticket}.`);
+        return;
+      }
+      const selected = await vscode.window.showQuickPick(
+        others.map(plan => ({
+          label: formatTimestamp(plan.generatedAt),
+          description: [plan.provider, plan.model].filter(Boolean).join(' · '),
+          detail: vscode.workspace.asRelativePath(plan.filePath),
+          plan
+        })),
+        { placeHolder: `Compare with another plan for ${item.plan.ticket}` }
+      );
+      if (selected) {
+        const [older, newer] = selected.plan.generatedAt < item.plan.generatedAt
+          ? [selected.plan, item.plan]
+          : [item.plan, selected.plan];
+        await comparePlans(older, newer);
+      }
+    })
+  );
+
+  // Register the Plan Checklist view, tracking the steps of structured plans per ticket
+  const planChecklistProvider = new PlanChecklistProvider();
+  const planChecklistView = vscode.window.createTreeView('aiPlan.checklist', { treeDataProvider: planChecklistProvider });
+  context.subscriptions.push(
+    planChecklistProvider,
+    planChecklistView,
+    planChecklistView.onDidChangeCheckboxState(event => planChecklistProvider.setCompleted(event.items)),
+    vscode.commands.registerCommand('ai-plan.checklist.openPlan', async (item: PlanChecklistItem) => {
+      await openChecklistPlan(item.checklist);
+    }),
+    vscode.commands.registerCommand('ai-plan.checklist.remove', async (item: PlanChecklistItem) => {
+      await PlanChecklistProvider.removeChecklist(item.checklist.ticket);
+    })
+  );
+
+  // Register the workspace folder picker for multi-root workspaces
+  const foldersDisposable = vscode.commands.registerCommand('ai-plan.selectContextFolders', async () => {
+    await selectContextFolders();
+  });
+
+  context.subscriptions.push(foldersDisposable);
+
+  // Register the plan options picker on its own, to change the defaults without generating
+  const planOptionsDisposable = vscode.commands.registerCommand('ai-plan.selectPlanOptions', async () => {
+    const options = await pickPlanOptions();
+    if (options) {
+      feedbackSystem.showStatusBarMessage('$(check) Plan options saved', 'success', 3000);
+    }
+  });
+
+  context.subscriptions.push(planOptionsDisposable);
+
+  // Register a preview of the rendered prompt, to check workspace prompt templates before spending tokens
+  const previewPromptDisposable = vscode.commands.registerCommand('ai-plan.previewPrompt', async () => {
+    const picker = new RecentTicketsPicker();
+    const ticket = await picker.showRecentTickets();
+    if (ticket) {
+      await new PlanGenerator().previewPrompt(ticket, PlanGenerator.getDefaultOptions());
+    }
+  });
+
+  context.subscriptions.push(previewPromptDisposable);
+
+  // Register ticket branch and status commands; from the Tasks view they apply to the task's ticket, otherwise one is picked
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ai-plan.currentTicket.actions', () => showCurrentTicketActions()),
+    vscode.commands.registerCommand('ai-plan.createBranch', async (item?: TaskTreeItem) => {
+      const ticket = await getCommandTicket(item);
+      if (ticket) {
+        await createTicketBranch(ticket);
+      }
+    }),
+    vscode.commands.registerCommand('ai-plan.startWork', async (item?: TaskTreeItem) => {
+      const ticket = await getCommandTicket(item);
+      if (ticket) {
+        await startWork(ticket);
+      }
+    }),
+    vscode.commands.registerCommand('ai-plan.markInReview', async (item?: TaskTreeItem) => {
+      const ticket = await getCommandTicket(item);
+      if (ticket) {
+        await moveTicket(ticket, 'inReview');
+      }
+    }),
+    vscode.commands.registerCommand('ai-plan.markDone', async (item?: TaskTreeItem) => {
+      const ticket = await getCommandTicket(item);
+      if (ticket) {
+        await moveTicket(ticket, 'done');
+      }
+    })
+  );
+
+  const rebuildIndexDisposable = vscode.commands.registerCommand('ai-plan.rebuildIndex', async () => {
+    try {
+      await feedbackSystem.showProgress('Rebuilding workspace index', async () => {
+        await indexService.rebuild();
+      });
+      feedbackSystem.showStatusBarMessage('$(check) Workspace index rebuilt', 'success', 3000);
+    } catch (error) {
+      console.error('Error in rebuildIndex command:', error);
+      await errorHandler.handleError(error instanceof Error ? error : new Error(String(error)), 'rebuild_index');
+    }
+  });
+
+  context.subscriptions.push(rebuildIndexDisposable);
+
   // Register configuration command
   const configDisposable = vscode.commands.registerCommand('ai-plan.configure', async () => {
     await configureExtension(context);
@@ -241,11 +438,34 @@ async function configureSlack(context: vscode.ExtensionContext): Promise<void> {
 }
 
 async function configureOllama(context: vscode.ExtensionContext): Promise<void> {
-  const model = await vscode.window.showInputBox({
-    prompt: 'Enter Ollama model name (e.g., llama2:13b)',
-    placeHolder: 'llama2:13b',
-    value: 'llama2:13b'
-  });
+  const { createOllamaLLM } = await import('./config/llm-factory');
+  const provider = createOllamaLLM();
+
+  let model: string | undefined;
+  try {
+    const models = await provider.listModels();
+    if (models.length > 0) {
+      const selected = await vscode.window.showQuickPick(
+        models.map(m => ({ label: m.id, description: m.name !== m.id ? m.name : undefined })),
+        { placeHolder: `Select an Ollama model installed on ${provider.getBaseUrl()}` }
+      );
+      if (!selected) {
+        return;
+      }
+      model = selected.label;
+    }
+  } catch (error) {
+    console.warn('Could not list Ollama models:', error);
+  }
+
+  // Fall back to a free-text name when the server is unreachable or has no models
+  if (!model) {
+    model = await vscode.window.showInputBox({
+      prompt: 'Enter Ollama model name (e.g., llama2:13b)',
+      placeHolder: 'llama2:13b',
+      value: provider.getModel()
+    });
+  }
 
   if (!model) {
     return;
@@ -309,8 +529,8 @@ async function testConnections(context: vscode.ExtensionContext): Promise<void>
   // Test Ollama connection
   totalTests++;
   try {
-    const { OllamaProvider } = await import('./llm/ollama');
-    const provider = new OllamaProvider({});
+    const { createOllamaLLM } = await import('./config/llm-factory');
+    const provider = createOllamaLLM();
     const isValid = await provider.validateConfig();
     
     if (isValid) {
@@ -335,6 +555,80 @@ async function testConnections(context: vscode.ExtensionContext): Promise<void>
   }
 }
 
+/**
+ * The ticket of a task the command was run on from the Tasks view, or one picked from the recent tickets
+ */
+async function getCommandTicket(item?: TaskTreeItem): Promise<RecentTicket | null> {
+  if (item instanceof TaskTreeItem) {
+    return (item.metadata as PlanTaskMetadata | undefined)?.ticket || null;
+  }
+  return new RecentTicketsPicker().showRecentTickets();
+}
+
+/**
+ * Let the user choose which sections and context a plan includes, starting from the saved defaults.
+ * The choice becomes the new default.
+ * @returns undefined when the picker is dismissed
+ */
+async function pickPlanOptions(): Promise<PlanGenerationOptions | undefined> {
+  const defaults = PlanGenerator.getDefaultOptions();
+  const keys = Object.keys(PLAN_OPTION_LABELS) as Array<keyof PlanGenerationOptions>;
+  const picked = await vscode.window.showQuickPick(
+    keys.map(key => ({ label: PLAN_OPTION_LABELS[key], key, picked: defaults[key] })),
+    {
+      canPickMany: true,
+      title: 'AI Plan: Plan Options',
+      placeHolder: 'Choose what the plan includes (your choice is remembered)'
+    }
+  );
+
+  if (!picked) {
+    return undefined;
+  }
+
+  const chosen = new Set(picked.map(item => item.key));
+  const options = { ...defaults };
+  for (const key of keys) {
+    options[key] = chosen.has(key);
+  }
+  await PlanGenerator.setDefaultOptions(options);
+  return options;
+}
+
+async function selectContextFolders(): Promise<void> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length < 2) {
+    await vscode.window.showInformationMessage('Folder selection applies to multi-root workspaces; every open folder is already used.');
+    return;
+  }
+
+  const selection = ContextBuilder.getFolderSelection();
+  const picked = await vscode.window.showQuickPick(
+    folders.map(folder => ({
+      label: folder.name,
+      description: folder.uri.fsPath,
+      picked: !selection || selection.includes(folder.name)
+    })),
+    {
+      canPickMany: true,
+      title: 'Folders to include in the plan context',
+      placeHolder: 'Uncheck folders that are unrelated to your tickets'
+    }
+  );
+
+  if (!picked) {
+    return;
+  }
+  if (picked.length === 0) {
+    await vscode.window.showWarningMessage('Select at least one folder.');
+    return;
+  }
+
+  // Selecting everything is stored as "all", so folders added later are included too
+  await ContextBuilder.setFolderSelection(picked.length === folders.length ? undefined : picked.map(item => item.label));
+  feedbackSystem.showStatusBarMessage(`$(check) Plan context uses ${picked.length} of ${folders.length} folders`, 'success', 3000);
+}
+
 async function checkConfiguration(context: vscode.ExtensionContext): Promise<void> {
   const jiraBaseUrl = await context.secrets.get('jira.baseUrl');
   const jiraToken = await context.secrets.get('jira.token');
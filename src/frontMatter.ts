@@ -0,0 +1,71 @@
+/**
+ * The small subset of YAML front matter used by prompt templates and saved plans:
+ * `key: value`, `key: [a, b]` and block lists of `- item` lines. Other YAML is not supported.
+ */
+
+export type FrontMatterAttributes = Record<string, string | string[]>;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const LIST_ITEM = /^\s+-\s+(.*)$/;
+
+export function parseFrontMatter(text: string): { attributes: FrontMatterAttributes; body: string } {
+  const match = text.match(FRONT_MATTER);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+
+  const attributes: FrontMatterAttributes = {};
+  let listKey: string | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(LIST_ITEM);
+    if (item && listKey) {
+      (attributes[listKey] as string[]).push(unquote(item[1].trim()));
+      continue;
+    }
+    listKey = undefined;
+
+    const separator = line.indexOf(':');
+    if (separator === -1 || line.trim().startsWith('#')) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (!value) {
+      // A block list may follow
+      attributes[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      attributes[key] = value.slice(1, -1).split(',').map(entry => unquote(entry.trim())).filter(Boolean);
+    } else {
+      attributes[key] = unquote(value);
+    }
+  }
+  return { attributes, body: text.slice(match[0].length) };
+}
+
+/**
+ * Write attributes that `parseFrontMatter` reads back unchanged; strings are double-quoted and lists are block lists
+ */
+export function formatFrontMatter(attributes: FrontMatterAttributes): string {
+  const lines = ['---'];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (Array.isArray(value)) {
+      lines.push(`${key}:`, ...value.map(entry => `  - ${JSON.stringify(entry)}`));
+    } else {
+      lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+  }
+  lines.push('---', '');
+  return lines.join('\n');
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value.replace(/^'(.*)'$/, '$1');
+}
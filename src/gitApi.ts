@@ -0,0 +1,65 @@
+/**
+ * The part of the built-in Git extension's API (`vscode.git`, API version 1) that AI Plan uses.
+ * Repository changes go through it so the Source Control view and status bar stay in step.
+ */
+
+import * as vscode from 'vscode';
+
+export interface GitBranch {
+  readonly name?: string;
+  readonly commit?: string;
+}
+
+export interface GitRemote {
+  readonly name: string;
+  readonly fetchUrl?: string;
+  readonly pushUrl?: string;
+}
+
+export interface GitCommit {
+  readonly hash: string;
+  readonly message: string;
+}
+
+export interface GitRepositoryState {
+  readonly HEAD: GitBranch | undefined;
+  readonly remotes: GitRemote[];
+  readonly onDidChange: vscode.Event<void>;
+}
+
+export interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: GitRepositoryState;
+  createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+  /** Rejects when there is no such branch */
+  getBranch(name: string): Promise<GitBranch>;
+  checkout(treeish: string): Promise<void>;
+  /** Commits reachable from HEAD, newest first */
+  log(options?: { maxEntries?: number }): Promise<GitCommit[]>;
+}
+
+export interface GitAPI {
+  readonly repositories: GitRepository[];
+  getRepository(uri: vscode.Uri): GitRepository | null;
+  readonly onDidOpenRepository: vscode.Event<GitRepository>;
+  readonly onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitAPI;
+}
+
+/**
+ * The Git extension's API, activating the extension if needed
+ * @returns undefined when the Git extension is missing or disabled (`git.enabled: false`)
+ */
+export async function getGitAPI(): Promise<GitAPI | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!extension) {
+    return undefined;
+  }
+
+  const git = extension.isActive ? extension.exports : await extension.activate();
+  return git.enabled ? git.getAPI(1) : undefined;
+}
@@ -0,0 +1,245 @@
+/**
+ * Local git history for the workspace context
+ * Runs the git CLI against the repository on disk only (never fetches), so it works offline.
+ */
+
+import { execFile } from 'child_process';
+import { GitCommit, GitContext, GitFileChange } from './types';
+import { estimateTokens, truncateToTokens } from './llm/tokenBudget';
+
+/** Tried in order when the remote's default branch is unknown */
+export const BASE_BRANCH_CANDIDATES = ['main', 'master', 'develop', 'trunk'];
+const GIT_TIMEOUT = 10000;
+const MAX_BUFFER = 8 * 1024 * 1024;
+/** Commits scanned for a mention of the ticket key */
+const COMMIT_SEARCH_DEPTH = 200;
+const MAX_TICKET_COMMITS = 10;
+const MAX_LISTED_FILES = 50;
+const HISTORY_DEPTH = 3;
+
+/** Unit and record separators keep commit fields apart whatever the message contains */
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const LOG_FORMAT = `--format=%h${FIELD}%an${FIELD}%ad${FIELD}%s${FIELD}%b${RECORD}`;
+
+export interface GitContextOptions {
+  /** Name recorded on the result */
+  folder?: string;
+  /** Ticket key to look for in commit messages, e.g. "PROJ-123" or "#42" */
+  ticketKey?: string;
+  /** Paths relative to the folder whose recent history should be included */
+  files?: string[];
+  /** Paths relative to the folder to leave out of the file lists and the diff, e.g. those `.aiplanignore` excludes */
+  isIgnored?: (relativePath: string) => boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run git in a directory and resolve with its standard output
+ */
+function runGit(cwd: string, args: string[], signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, {
+      cwd,
+      signal,
+      timeout: GIT_TIMEOUT,
+      maxBuffer: MAX_BUFFER,
+      windowsHide: true,
+      // Never prompt for credentials, and do not take the index lock just to refresh stat data
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0', LC_ALL: 'C' }
+    }, (error, stdout) => error ? reject(error) : resolve(stdout));
+  });
+}
+
+/**
+ * Like `runGit`, but a failing command (missing ref, empty repository...) yields an empty string
+ */
+async function tryGit(cwd: string, args: string[], signal?: AbortSignal): Promise<string> {
+  try {
+    return await runGit(cwd, args, signal);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * A pattern matching a ticket key as a whole word, so "PROJ-12" does not match "PROJ-123" and "#4" does not match "#42"
+ */
+export function ticketKeyPattern(ticketKey: string): RegExp {
+  const escaped = ticketKey.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'i');
+}
+
+/**
+ * Parse `git diff --name-status` output; renames and copies are reported under their new path
+ */
+export function parseNameStatus(output: string): GitFileChange[] {
+  return output
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const [status, ...paths] = line.split('\t');
+      return { status: status.charAt(0), path: paths[paths.length - 1] };
+    })
+    .filter(change => change.path);
+}
+
+/**
+ * Parse `git log` output written with `LOG_FORMAT`
+ * @returns the commits, each with its full message body
+ */
+export function parseLog(output: string): Array<GitCommit & { body: string }> {
+  return output
+    .split(RECORD)
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(record => record.includes(FIELD))
+    .map(record => {
+      const [hash, author, date, subject, body = ''] = record.split(FIELD);
+      return { hash, author, date, subject, body: body.trim() };
+    });
+}
+
+/**
+ * Drop the files of a `git diff` for which `isIgnored` is true; a rename is dropped when either path is
+ */
+export function filterDiff(diff: string, isIgnored: (relativePath: string) => boolean): string {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter(file => {
+      const header = file.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/m);
+      return !header || !(isIgnored(header[1]) || isIgnored(header[2]));
+    })
+    .join('');
+}
+
+function toCommit({ hash, author, date, subject }: GitCommit): GitCommit {
+  return { hash, author, date, subject };
+}
+
+/**
+ * Read the git state of a workspace folder
+ * @returns undefined when the folder is not inside a git repository or git is not installed
+ */
+export async function collectGitContext(cwd: string, options: GitContextOptions = {}): Promise<GitContext | undefined> {
+  const { signal } = options;
+  const isIgnored = options.isIgnored || (() => false);
+  const keep = (change: GitFileChange) => !isIgnored(change.path);
+  if ((await tryGit(cwd, ['rev-parse', '--is-inside-work-tree'], signal)).trim() !== 'true') {
+    return undefined;
+  }
+
+  const head = (await tryGit(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD'], signal)).trim();
+  const branch = (await tryGit(cwd, ['symbolic-ref', '--quiet', '--short', 'HEAD'], signal)).trim()
+    || head.slice(0, 7)
+    || 'HEAD';
+  const baseRef = head ? await findBaseRef(cwd, branch, signal) : undefined;
+
+  const branchChanges = baseRef
+    ? parseNameStatus(await tryGit(cwd, ['diff', '--name-status', '--relative', `${baseRef}...HEAD`], signal)).filter(keep)
+    : [];
+
+  const uncommittedChanges = [
+    ...parseNameStatus(await tryGit(cwd, ['diff', '--name-status', '--relative', head ? 'HEAD' : '--cached'], signal)),
+    ...(await tryGit(cwd, ['ls-files', '--others', '--exclude-standard'], signal))
+      .split('\n')
+      .filter(Boolean)
+      .map(filePath => ({ status: '?', path: filePath }))
+  ].filter(keep);
+  const uncommittedDiff = head ? filterDiff(await tryGit(cwd, ['diff', '--relative', 'HEAD'], signal), isIgnored) : '';
+
+  let ticketCommits: GitCommit[] = [];
+  if (options.ticketKey && head) {
+    const pattern = ticketKeyPattern(options.ticketKey);
+    const log = await tryGit(cwd, [
+      'log', '--branches', `--max-count=${COMMIT_SEARCH_DEPTH}`, '--date=short', '--fixed-strings', '--regexp-ignore-case',
+      `--grep=${options.ticketKey}`, LOG_FORMAT
+    ], signal);
+    ticketCommits = parseLog(log)
+      .filter(commit => pattern.test(`${commit.subject}\n${commit.body}`))
+      .slice(0, MAX_TICKET_COMMITS)
+      .map(toCommit);
+  }
+
+  const fileHistory: GitContext['fileHistory'] = [];
+  for (const filePath of head ? (options.files || []).filter(filePath => !isIgnored(filePath)) : []) {
+    const log = await tryGit(cwd, ['log', `--max-count=${HISTORY_DEPTH}`, '--date=short', LOG_FORMAT, '--', filePath], signal);
+    const commits = parseLog(log).map(toCommit);
+    if (commits.length > 0) {
+      fileHistory.push({ path: filePath, commits });
+    }
+  }
+
+  return {
+    folder: options.folder || '',
+    branch,
+    baseRef,
+    branchChanges,
+    ticketCommits,
+    uncommittedChanges,
+    uncommittedDiff,
+    fileHistory
+  };
+}
+
+/**
+ * The branch to compare the current one with: the remote's default branch if known, else the first
+ * common default branch name that exists. Undefined when the current branch is that branch.
+ */
+async function findBaseRef(cwd: string, branch: string, signal?: AbortSignal): Promise<string | undefined> {
+  const remoteHead = (await tryGit(cwd, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'], signal)).trim();
+  const names = remoteHead ? [remoteHead.replace(/^origin\//, '')] : BASE_BRANCH_CANDIDATES;
+
+  for (const name of names) {
+    if (name === branch) {
+      return undefined;
+    }
+    for (const ref of [name, `origin/${name}`]) {
+      if ((await tryGit(cwd, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], signal)).trim()) {
+        return ref;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Render the git context as markdown for the prompt, cutting the uncommitted diff to fit the token budget
+ * @param prefix prepended to paths in a multi-root workspace, e.g. "api/"
+ */
+export function formatGitContext(git: GitContext, maxTokens: number, prefix = ''): string {
+  const formatChanges = (changes: GitFileChange[]) => {
+    const lines = changes.slice(0, MAX_LISTED_FILES).map(change => `- ${change.status} ${prefix}${change.path}`);
+    if (changes.length > MAX_LISTED_FILES) {
+      lines.push(`- ...and ${changes.length - MAX_LISTED_FILES} more`);
+    }
+    return lines.join('\n');
+  };
+  const formatCommit = (commit: GitCommit) => `- ${commit.hash} ${commit.date} ${commit.author}: ${commit.subject}`;
+
+  const sections = [
+    `\n## ${git.folder ? `${git.folder}: ` : ''}branch ${git.branch}${git.baseRef ? ` (compared with ${git.baseRef})` : ''}`
+  ];
+  if (git.branchChanges.length > 0) {
+    sections.push(`### Changed on this branch\n${formatChanges(git.branchChanges)}`);
+  }
+  if (git.ticketCommits.length > 0) {
+    sections.push(`### Commits mentioning the ticket\n${git.ticketCommits.map(formatCommit).join('\n')}`);
+  }
+  if (git.fileHistory.length > 0) {
+    sections.push(`### Recent history of the relevant files\n${git.fileHistory
+      .map(file => `${prefix}${file.path}\n${file.commits.map(commit => `  ${formatCommit(commit)}`).join('\n')}`)
+      .join('\n')}`);
+  }
+  if (git.uncommittedChanges.length > 0) {
+    sections.push(`### Uncommitted changes\n${formatChanges(git.uncommittedChanges)}`);
+  }
+  if (sections.length === 1) {
+    sections.push('No changes on this branch, commits mentioning the ticket or uncommitted work.');
+  }
+
+  const summary = truncateToTokens(sections.join('\n\n'), maxTokens);
+  // The diff gets whatever the lists leave over
+  const diffBudget = maxTokens - estimateTokens(summary) - estimateTokens('\n\n```diff\n\n```');
+  const diff = git.uncommittedDiff.trim() ? truncateToTokens(git.uncommittedDiff.trim(), diffBudget) : '';
+  return diff ? `${summary}\n\n\`\`\`diff\n${diff}\n\`\`\`` : summary;
+}
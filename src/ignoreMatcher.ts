@@ -0,0 +1,167 @@
+/**
+ * gitignore-compatible path matching for the workspace walk
+ * See https://git-scm.com/docs/gitignore#_pattern_format
+ */
+
+/** Directories that are never part of the context, whatever the ignore files say (`.aiplan` holds our own prompts and plans) */
+export const ALWAYS_IGNORED = new Set(['.git', 'node_modules', '.aiplan']);
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  /** Directory of the ignore file, relative to the workspace root ('' for the root) */
+  baseDir: string;
+}
+
+/**
+ * Parse the contents of an ignore file
+ * @param baseDir directory containing the file, relative to the workspace root, with forward slashes
+ */
+export function parseIgnoreFile(content: string, baseDir = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith('/') && !line.endsWith('\\/')) {
+      directoryOnly = true;
+      line = line.replace(/\/+$/, '');
+    }
+    if (!line) {
+      continue;
+    }
+
+    rules.push({ regex: patternToRegExp(line), negated, directoryOnly, baseDir });
+  }
+  return rules;
+}
+
+/**
+ * Convert one gitignore pattern (without `!` or trailing `/`) into a regular expression over relative paths
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes('/');
+  let source = anchored ? pattern.replace(/^\//, '') : `**/${pattern}`;
+  let regex = '';
+
+  while (source.length > 0) {
+    if (source.startsWith('**/')) {
+      regex += '(?:.*/)?';
+      source = source.slice(3);
+    } else if (source === '**') {
+      regex += '.*';
+      source = '';
+    } else if (source.startsWith('/**/')) {
+      regex += '/(?:.*/)?';
+      source = source.slice(4);
+    } else if (source === '/**') {
+      regex += '/.*';
+      source = '';
+    } else if (source[0] === '*') {
+      regex += '[^/]*';
+      source = source.replace(/^\*+/, '');
+    } else if (source[0] === '?') {
+      regex += '[^/]';
+      source = source.slice(1);
+    } else if (source[0] === '[' && source.indexOf(']', 2) !== -1) {
+      const end = source.indexOf(']', 2);
+      const body = source.slice(1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      regex += `[${body}]`;
+      source = source.slice(end + 1);
+    } else if (source[0] === '\\' && source.length > 1) {
+      regex += escapeRegExp(source[1]);
+      source = source.slice(2);
+    } else {
+      regex += escapeRegExp(source[0]);
+      source = source.slice(1);
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Immutable set of ignore rules. Nested ignore files are layered on with `withRules` while walking,
+ * so their rules only apply below their own directory and take precedence over the parents'.
+ */
+export class IgnoreMatcher {
+  private constructor(
+    private readonly rules: IgnoreRule[],
+    /** Rules that are evaluated after every other file, e.g. from `.aiplanignore` */
+    private readonly overrides: IgnoreRule[]
+  ) {}
+
+  static create(): IgnoreMatcher {
+    return new IgnoreMatcher([], []);
+  }
+
+  withRules(content: string, baseDir = ''): IgnoreMatcher {
+    return new IgnoreMatcher([...this.rules, ...parseIgnoreFile(content, baseDir)], this.overrides);
+  }
+
+  withOverrides(content: string, baseDir = ''): IgnoreMatcher {
+    return new IgnoreMatcher(this.rules, [...this.overrides, ...parseIgnoreFile(content, baseDir)]);
+  }
+
+  /**
+   * Whether a workspace-relative path is ignored, either itself or through one of its parent directories
+   * (like git, a file cannot be re-included when its directory is excluded)
+   */
+  ignores(relativePath: string, isDirectory = false): boolean {
+    const segments = relativePath.split(/[\\/]/).filter(Boolean);
+    for (let i = 1; i <= segments.length; i++) {
+      const isLast = i === segments.length;
+      if (this.matches(segments.slice(0, i).join('/'), isLast ? isDirectory : true)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether the path itself is ignored, assuming its parent directories are not
+   */
+  matches(relativePath: string, isDirectory = false): boolean {
+    const name = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+    if (isDirectory && ALWAYS_IGNORED.has(name)) {
+      return true;
+    }
+
+    let ignored = false;
+    for (const rule of [...this.rules, ...this.overrides]) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      let candidate = relativePath;
+      if (rule.baseDir) {
+        if (!relativePath.startsWith(`${rule.baseDir}/`)) {
+          continue;
+        }
+        candidate = relativePath.slice(rule.baseDir.length + 1);
+      }
+      // The last matching rule wins, so a negation only needs to be checked while ignored and vice versa
+      if (rule.negated === ignored && rule.regex.test(candidate)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  }
+}
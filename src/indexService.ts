@@ -0,0 +1,154 @@
+/**
+ * Keeps a `WorkspaceIndex` per workspace folder, saved in the extension's workspace storage and
+ * updated from file system events, so building context does not have to walk and read the tree again
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { WorkspaceIndex } from './workspaceIndex';
+
+/** Saving waits for a quiet period, e.g. until a branch checkout has finished touching files */
+const SAVE_DELAY = 5000;
+
+export class IndexService implements vscode.Disposable {
+  private readonly indexes = new Map<string, Promise<WorkspaceIndex>>();
+  private readonly saveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private storagePath: string | undefined;
+
+  /**
+   * Start watching the workspace; until this is called indexes are kept in memory only
+   */
+  initialize(context: vscode.ExtensionContext): void {
+    this.storagePath = (context.storageUri || context.globalStorageUri).fsPath;
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.handleFileEvent(uri)),
+      watcher.onDidChange(uri => this.handleFileEvent(uri)),
+      watcher.onDidDelete(uri => this.handleFileEvent(uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(event => {
+        for (const folder of event.removed) {
+          void this.release(folder.uri.fsPath);
+        }
+      })
+    );
+    context.subscriptions.push(this);
+
+    // Warm up in the background so the first plan does not pay for the walk
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      this.getIndex(folder.uri.fsPath).catch(error => console.error('Error indexing workspace folder:', error));
+    }
+  }
+
+  /**
+   * The index of a workspace folder, up to date with the file system
+   */
+  async getIndex(rootPath: string, signal?: AbortSignal): Promise<WorkspaceIndex> {
+    let loading = this.indexes.get(rootPath);
+    if (!loading) {
+      loading = this.load(rootPath);
+      this.indexes.set(rootPath, loading);
+    }
+    const index = await loading;
+    await index.ensureFresh(signal);
+    return index;
+  }
+
+  /**
+   * Drop every saved index and walk the workspace again
+   */
+  async rebuild(): Promise<void> {
+    const roots = Array.from(this.indexes.keys());
+    this.indexes.clear();
+    for (const rootPath of roots) {
+      this.indexes.set(rootPath, Promise.resolve(this.track(new WorkspaceIndex(rootPath))));
+      await this.getIndex(rootPath);
+      this.scheduleSave(rootPath);
+    }
+  }
+
+  dispose(): void {
+    for (const rootPath of this.saveTimers.keys()) {
+      clearTimeout(this.saveTimers.get(rootPath)!);
+      void this.save(rootPath);
+    }
+    this.saveTimers.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+  }
+
+  private async load(rootPath: string): Promise<WorkspaceIndex> {
+    const snapshotPath = this.getSnapshotPath(rootPath);
+    if (!snapshotPath) {
+      return this.track(new WorkspaceIndex(rootPath));
+    }
+    try {
+      const snapshot = await vscode.workspace.fs.readFile(vscode.Uri.file(snapshotPath));
+      return this.track(WorkspaceIndex.fromSnapshot(rootPath, Buffer.from(snapshot).toString('utf8')));
+    } catch {
+      // First run in this workspace
+      return this.track(new WorkspaceIndex(rootPath));
+    }
+  }
+
+  private track(index: WorkspaceIndex): WorkspaceIndex {
+    index.onDidChange(() => this.scheduleSave(index.rootPath));
+    return index;
+  }
+
+  private handleFileEvent(uri: vscode.Uri): void {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const loading = folder && this.indexes.get(folder.uri.fsPath);
+    if (!folder || !loading) {
+      return;
+    }
+    const relativePath = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+    void loading.then(index => index.update(relativePath));
+  }
+
+  private scheduleSave(rootPath: string): void {
+    if (!this.storagePath) {
+      return;
+    }
+    clearTimeout(this.saveTimers.get(rootPath));
+    this.saveTimers.set(rootPath, setTimeout(() => {
+      this.saveTimers.delete(rootPath);
+      void this.save(rootPath);
+    }, SAVE_DELAY));
+  }
+
+  private async save(rootPath: string): Promise<void> {
+    const snapshotPath = this.getSnapshotPath(rootPath);
+    const loading = this.indexes.get(rootPath);
+    if (!snapshotPath || !loading) {
+      return;
+    }
+    try {
+      const index = await loading;
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(snapshotPath)));
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(snapshotPath), Buffer.from(index.toSnapshot(), 'utf8'));
+    } catch (error) {
+      console.error(`Error saving workspace index for ${rootPath}:`, error);
+    }
+  }
+
+  private async release(rootPath: string): Promise<void> {
+    clearTimeout(this.saveTimers.get(rootPath));
+    this.saveTimers.delete(rootPath);
+    await this.save(rootPath);
+    this.indexes.delete(rootPath);
+  }
+
+  private getSnapshotPath(rootPath: string): string | undefined {
+    if (!this.storagePath) {
+      return undefined;
+    }
+    const id = createHash('sha1').update(rootPath).digest('hex').slice(0, 16);
+    return path.join(this.storagePath, `workspace-index-${id}.json`);
+  }
+}
+
+export const indexService = new IndexService();
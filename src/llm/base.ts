@@ -1,43 +1,93 @@
-import { LLMResponse } from '../types';
+import { LLMModelInfo, LLMRequest, LLMResponse, LLMSamplingOptions } from '../types';
+import { DEFAULT_CONTEXT_WINDOW } from './tokenBudget';
 
+export interface LLMConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+const DEFAULT_SAMPLING: Required<LLMSamplingOptions> = {
+  temperature: 0.7,
+  topP: 0.9,
+  maxTokens: 4000
+};
+
+/**
+ * Base class for all LLM backends.
+ * Every backend accepts the same LLMRequest, so callers can swap models without special-casing them.
+ */
 export abstract class BaseLLM {
-  protected config: {
-    apiKey?: string;
-    baseUrl?: string;
-    model?: string;
-  };
+  protected config: LLMConfig;
 
-  constructor(config: { apiKey?: string; baseUrl?: string; model?: string }) {
+  constructor(config: LLMConfig) {
     this.config = config;
   }
 
-  abstract generatePlan(prompt: string): Promise<LLMResponse>;
-  abstract validateConfig(): Promise<boolean>;
   abstract getProviderName(): string;
+  abstract getModel(): string;
+  abstract validateConfig(): Promise<boolean>;
+
+  /**
+   * Run a completion. Streams through `request.onToken` when it is set,
+   * and honours `request.signal` to abort the underlying HTTP call.
+   */
+  abstract generate(request: LLMRequest): Promise<LLMResponse>;
+
+  /**
+   * List the models this backend can serve. Backends without a model catalogue
+   * report only the configured model.
+   */
+  async listModels(): Promise<LLMModelInfo[]> {
+    const model = this.getModel();
+    return [{ id: model, name: model }];
+  }
 
-  protected abstract makeRequest(prompt: string): Promise<any>;
+  /**
+   * Context window of the configured model in tokens, from the model catalogue when the backend has one
+   */
+  async getContextWindow(): Promise<number> {
+    try {
+      const model = await this.resolveModel();
+      const info = (await this.listModels()).find(candidate => candidate.id === model);
+      return info?.contextLength || DEFAULT_CONTEXT_WINDOW;
+    } catch (error) {
+      console.debug('Could not read the model context window:', error);
+      return DEFAULT_CONTEXT_WINDOW;
+    }
+  }
+
+  /**
+   * Model a request will run on; backends that pick a default from the server override this
+   */
+  protected async resolveModel(): Promise<string> {
+    return this.getModel();
+  }
+
+  /**
+   * Answer length the backend asks for when a request sets no `maxTokens`; undefined when unlimited
+   */
+  getMaxOutputTokens(): number | undefined {
+    return DEFAULT_SAMPLING.maxTokens;
+  }
 
-  protected formatPrompt(ticket: any, context: string): string {
-    return `Ticket: ${ticket.key} – ${ticket.summary}
-${ticket.description}
----  
-Workspace context:
-${context}
----  
-Return a concise, numbered checklist to implement this ticket.`;
+  protected resolveOptions(options: LLMSamplingOptions = {}): Required<LLMSamplingOptions> {
+    return {
+      temperature: options.temperature ?? DEFAULT_SAMPLING.temperature,
+      topP: options.topP ?? DEFAULT_SAMPLING.topP,
+      maxTokens: options.maxTokens ?? DEFAULT_SAMPLING.maxTokens
+    };
   }
 
-  // Default streaming behavior: fall back to non-streaming implementation
-  async streamGeneratePlan(
-    prompt: string,
-    onToken: (token: string) => void
-  ): Promise<LLMResponse> {
-    const response = await this.generatePlan(prompt);
+  // Swallow UI callback errors so a broken listener never breaks generation
+  protected emitToken(request: LLMRequest, token: string): void {
+    if (!request.onToken || !token) {
+      return;
+    }
     try {
-      onToken(response.content);
-    } catch {
-      // Swallow UI callback errors to not break generation
+      request.onToken(token);
+    } catch (e) {
+      console.debug('onToken error:', e);
     }
-    return { content: response.content, isStreaming: false };
   }
 }
@@ -1,105 +1,221 @@
-import { BaseLLM } from './base';
-import { LLMResponse } from '../types';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { BaseLLM, LLMConfig } from './base';
+import { LLMModelInfo, LLMRequest, LLMResponse, LLMUsage } from '../types';
+import { ErrorFactory, ExtensionError } from '../utils/errorTypes';
 
+export interface OllamaConfig extends LLMConfig {
+  /** Context window size in tokens (num_ctx) */
+  numCtx?: number;
+  /** Maximum tokens to generate (num_predict) */
+  numPredict?: number;
+  temperature?: number;
+}
+
+interface OllamaChatChunk {
+  model?: string;
+  message?: { role: string; content: string };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string; details?: { parameter_size?: string } }>;
+}
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+/** num_ctx Ollama uses when neither the request nor the Modelfile sets one */
+const OLLAMA_DEFAULT_NUM_CTX = 4096;
+
+/**
+ * Provider for a local or remote Ollama server, using the /api/chat endpoint
+ */
 export class OllamaProvider extends BaseLLM {
+  private readonly ollamaConfig: OllamaConfig;
+
+  constructor(config: OllamaConfig) {
+    super(config);
+    this.ollamaConfig = config;
+  }
+
   getProviderName(): string {
     return 'ollama';
   }
 
+  getModel(): string {
+    return this.config.model || 'llama2:13b';
+  }
+
+  getBaseUrl(): string {
+    return (this.config.baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+  }
+
   async validateConfig(): Promise<boolean> {
     try {
       const { default: axios } = await import('axios');
-      await axios.get('http://localhost:11434/api/tags');
+      await axios.get(`${this.getBaseUrl()}/api/tags`, { timeout: 5000 });
       return true;
     } catch (error) {
       return false;
     }
   }
 
-  async generatePlan(prompt: string): Promise<LLMResponse> {
-    const model = this.config.model || 'llama2:13b';
-    
+  /**
+   * List models installed on the Ollama server
+   */
+  async listModels(): Promise<LLMModelInfo[]> {
     try {
       const { default: axios } = await import('axios');
-      
-      const response = await axios.post('http://localhost:11434/api/generate', {
-        model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          max_tokens: 2000
-        }
-      });
+      const response = await axios.get<OllamaTagsResponse>(`${this.getBaseUrl()}/api/tags`, { timeout: 10000 });
+      const models = response.data?.models || [];
 
-      return {
-        content: response.data.response,
-        isStreaming: false
-      };
+      return models.map(model => ({
+        id: model.name,
+        name: model.details?.parameter_size
+          ? `${model.name} (${model.details.parameter_size})`
+          : model.name
+      }));
     } catch (error) {
-      console.error('Error generating plan with Ollama:', error);
-      throw new Error('Failed to generate plan with Ollama. Make sure Ollama is running and the model is available.');
+      throw ErrorFactory.connectionFailed('OllamaProvider', 'ollama');
     }
   }
 
-  protected async makeRequest(_prompt: string): Promise<any> {
-    // This method is not used in Ollama implementation
-    // as we handle the request directly in generatePlan
-    throw new Error('makeRequest not implemented for Ollama');
+  /**
+   * Ollama truncates prompts to num_ctx, not to the model's trained length, so that is the real window
+   */
+  async getContextWindow(): Promise<number> {
+    return this.ollamaConfig.numCtx ?? OLLAMA_DEFAULT_NUM_CTX;
   }
 
-  // Streaming using Ollama's SSE-style chunked responses (NDJSON lines)
-  async streamGeneratePlan(
-    prompt: string,
-    onToken: (token: string) => void
-  ): Promise<LLMResponse> {
-    const model = this.config.model || 'llama2:13b';
-    const url = 'http://localhost:11434/api/generate';
+  getMaxOutputTokens(): number | undefined {
+    return this.ollamaConfig.numPredict;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.getModel();
+    const stream = !!request.onToken;
+
     try {
       const { default: axios } = await import('axios');
-      const response = await axios.post(url, {
+      const response = await axios.post(`${this.getBaseUrl()}/api/chat`, {
         model,
-        prompt,
-        stream: true,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          max_tokens: 2000
-        }
-      }, { responseType: 'stream' as any });
-
-      let full = '';
-      const stream = response.data as any; // ReadableStream
-      await new Promise<void>((resolve, reject) => {
-        stream.on('data', (chunk: Buffer) => {
-          const text = chunk.toString('utf8');
-          // Ollama streams NDJSON lines: { response: "...", done: bool, ... }
-          for (const line of text.split(/\r?\n/)) {
-            const trimmed = line.trim();
-            if (!trimmed) {continue;}
-            try {
-              const obj = JSON.parse(trimmed);
-              if (obj.response) {
-                full += obj.response;
-                try { onToken(obj.response); } catch (e) { console.debug('onToken error:', e); }
-              }
-              if (obj.done) {
-                // do nothing; wait for end
-              }
-            } catch {
-              // Ignore non-JSON lines
-            }
-          }
-        });
-        stream.on('end', () => resolve());
-        stream.on('error', (err: any) => reject(err));
+        messages: request.messages,
+        stream,
+        options: this.buildOptions(request),
+        ...(request.responseSchema ? { format: request.responseSchema.schema } : {})
+      }, {
+        responseType: stream ? 'stream' : 'json',
+        signal: request.signal
       });
 
-      return { content: full, isStreaming: true };
+      if (!stream) {
+        const chunk = response.data as OllamaChatChunk;
+        return {
+          content: chunk.message?.content || '',
+          isStreaming: false,
+          model,
+          usage: this.toUsage(chunk)
+        };
+      }
+
+      return await this.readStream(response.data, request, model);
     } catch (error) {
-      console.error('Error streaming plan with Ollama:', error);
-      throw new Error('Failed to stream plan with Ollama. Ensure Ollama is running on localhost:11434');
+      if (request.signal?.aborted) {
+        throw ErrorFactory.cancelled('OllamaProvider', 'ai_generation');
+      }
+      if (error instanceof ExtensionError) {
+        throw error;
+      }
+      console.error('Error generating plan with Ollama:', error);
+      throw ErrorFactory.aiRequestFailed(
+        'OllamaProvider',
+        `Failed to generate plan with Ollama at ${this.getBaseUrl()}. Make sure Ollama is running and the model "${model}" is available.`
+      );
+    }
+  }
+
+  // Explicit request options win over the configured defaults
+  private buildOptions(request: LLMRequest): Record<string, number> {
+    const options: Record<string, number> = {
+      temperature: request.options?.temperature ?? this.ollamaConfig.temperature ?? 0.7,
+      top_p: request.options?.topP ?? 0.9
+    };
+
+    const numPredict = request.options?.maxTokens ?? this.ollamaConfig.numPredict;
+    if (numPredict !== undefined) {
+      options.num_predict = numPredict;
+    }
+    if (this.ollamaConfig.numCtx !== undefined) {
+      options.num_ctx = this.ollamaConfig.numCtx;
+    }
+
+    return options;
+  }
+
+  // Ollama streams NDJSON lines: { message: { content }, done, ... }
+  private readStream(body: Readable, request: LLMRequest, model: string): Promise<LLMResponse> {
+    let content = '';
+    let usage: LLMUsage | undefined;
+    let buffer = '';
+    // Chunks may end inside a multi-byte character; the decoder holds its first bytes back
+    const decoder = new StringDecoder('utf8');
+
+    return new Promise<LLMResponse>((resolve, reject) => {
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed) {
+          return;
+        }
+        let chunk: OllamaChatChunk;
+        try {
+          chunk = JSON.parse(trimmed);
+        } catch {
+          return; // Ignore non-JSON lines
+        }
+        if (chunk.error) {
+          throw ErrorFactory.aiRequestFailed('OllamaProvider', chunk.error);
+        }
+        const token = chunk.message?.content;
+        if (token) {
+          content += token;
+          this.emitToken(request, token);
+        }
+        if (chunk.done) {
+          usage = this.toUsage(chunk);
+        }
+      };
+
+      const consume = (lines: string[]) => {
+        try {
+          lines.forEach(handleLine);
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      body.on('data', (chunk: Buffer) => {
+        buffer += decoder.write(chunk);
+        const lines = buffer.split(/\r?\n/);
+        // Keep the trailing partial line for the next chunk
+        buffer = lines.pop() || '';
+        consume(lines);
+      });
+      body.on('end', () => {
+        consume([buffer + decoder.end()]);
+        resolve({ content, isStreaming: true, model, usage });
+      });
+      body.on('error', (err: Error) => reject(err));
+    });
+  }
+
+  private toUsage(data: { prompt_eval_count?: number; eval_count?: number }): LLMUsage | undefined {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+      return undefined;
     }
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
   }
 }
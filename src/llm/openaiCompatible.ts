@@ -0,0 +1,197 @@
+/**
+ * OpenAI-compatible LLM provider
+ * Talks to any server exposing /v1/chat/completions (vLLM, LM Studio, llama.cpp server, LocalAI, gateways)
+ */
+
+import { Readable } from 'stream';
+import { BaseLLM } from './base';
+import { readChatCompletionStream } from './sse';
+import { LLMModelInfo, LLMRequest, LLMResponse, LLMUsage } from '../types';
+import { ErrorFactory, ExtensionError, parseRetryAfter } from '../utils/errorTypes';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+  headers?: Record<string, string>;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Provider for self-hosted or gateway servers speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider extends BaseLLM {
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super(config);
+    // Accept both "http://host:8000" and "http://host:8000/v1"
+    const trimmed = config.baseUrl.replace(/\/+$/, '');
+    this.baseUrl = trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+    this.headers = config.headers || {};
+  }
+
+  getProviderName(): string {
+    return 'openai-compatible';
+  }
+
+  getModel(): string {
+    return this.config.model || '';
+  }
+
+  async validateConfig(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch (error) {
+      console.error('OpenAI-compatible validation failed:', error);
+      return false;
+    }
+  }
+
+  async listModels(): Promise<LLMModelInfo[]> {
+    const response = await this.makeRequest('/models', { method: 'GET' });
+    const models: any[] = Array.isArray(response?.data) ? response.data : [];
+
+    return models.map(model => ({
+      id: model.id,
+      name: model.name || model.id,
+      contextLength: model.context_length ?? model.max_model_len
+    }));
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = await this.resolveModel();
+    const options = this.resolveOptions(request.options);
+    const stream = !!request.onToken;
+
+    const requestBody = {
+      model,
+      messages: request.messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(request.responseSchema ? { response_format: { type: 'json_schema', json_schema: request.responseSchema } } : {})
+    };
+
+    try {
+      const response = await this.makeRequest('/chat/completions', {
+        method: 'POST',
+        data: requestBody,
+        signal: request.signal,
+        responseType: stream ? 'stream' : 'json'
+      });
+
+      if (!stream) {
+        const completion = response as ChatCompletionChunk;
+        const content = completion.choices?.[0]?.message?.content;
+        if (!content) {
+          throw ErrorFactory.invalidResponse('OpenAICompatibleProvider', 'Empty response content');
+        }
+        return {
+          content,
+          isStreaming: false,
+          model: completion.model || model,
+          usage: this.toUsage(completion.usage)
+        };
+      }
+
+      return await this.readStream(response, request, model);
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw ErrorFactory.cancelled('OpenAICompatibleProvider', 'ai_generation');
+      }
+      if (error instanceof ExtensionError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw ErrorFactory.aiRequestFailed('OpenAICompatibleProvider', message);
+    }
+  }
+
+  // Servers that host a single model often accept any name, but some require one: fall back to the first listed
+  protected async resolveModel(): Promise<string> {
+    if (this.config.model) {
+      return this.config.model;
+    }
+    const models = await this.listModels();
+    if (models.length === 0) {
+      throw ErrorFactory.invalidConfig('OpenAICompatibleProvider', 'No model configured and the server lists none');
+    }
+    return models[0].id;
+  }
+
+  private async readStream(stream: Readable, request: LLMRequest, model: string): Promise<LLMResponse> {
+    const result = await readChatCompletionStream(stream, 'OpenAICompatibleProvider', token => this.emitToken(request, token));
+    return {
+      content: result.content,
+      isStreaming: true,
+      model: result.model || model,
+      usage: result.usage
+    };
+  }
+
+  private toUsage(usage?: ChatCompletionChunk['usage']): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens
+    };
+  }
+
+  protected async makeRequest(endpoint: string, options: any = {}): Promise<any> {
+    const { default: axios } = await import('axios');
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.headers
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    try {
+      const response = await axios({
+        url: `${this.baseUrl}${endpoint}`,
+        timeout: 120000, // Self-hosted models can be slow to produce the first token
+        ...options,
+        headers: { ...headers, ...options.headers }
+      });
+      return response.data;
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      if (error.response) {
+        const status = error.response.status;
+        if (status === 401 || status === 403) {
+          throw ErrorFactory.authenticationFailed('OpenAICompatibleProvider', 'openai-compatible');
+        } else if (status === 429) {
+          throw ErrorFactory.rateLimited('OpenAICompatibleProvider', 'openai-compatible', parseRetryAfter(error.response.headers['retry-after']));
+        } else if (status >= 500) {
+          throw ErrorFactory.connectionFailed('OpenAICompatibleProvider', 'openai-compatible');
+        }
+        throw ErrorFactory.invalidResponse('OpenAICompatibleProvider', `HTTP ${status} from ${endpoint}`);
+      }
+      throw ErrorFactory.connectionFailed('OpenAICompatibleProvider', 'openai-compatible');
+    }
+  }
+}
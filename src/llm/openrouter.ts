@@ -3,9 +3,11 @@
  * Supports multiple models through OpenRouter API
  */
 
-import { BaseLLMProvider, LLMResponse } from './base';
-import { RecentTicket } from '../types';
-import { ErrorFactory } from '../utils/errorTypes';
+import { Readable } from 'stream';
+import { BaseLLM } from './base';
+import { readChatCompletionStream } from './sse';
+import { LLMModelInfo, LLMRequest, LLMResponse, LLMUsage } from '../types';
+import { ErrorFactory, ExtensionError, parseRetryAfter } from '../utils/errorTypes';
 
 export interface OpenRouterConfig {
   apiKey: string;
@@ -39,18 +41,22 @@ export interface OpenRouterResponse {
 /**
  * OpenRouter provider for accessing various cloud AI models
  */
-export class OpenRouterProvider extends BaseLLMProvider {
+export class OpenRouterProvider extends BaseLLM {
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly model: string;
 
   constructor(config: OpenRouterConfig) {
-    super();
+    super(config);
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://openrouter.ai/api/v1';
     this.model = config.model || 'anthropic/claude-3-sonnet-20240229';
   }
 
+  getProviderName(): string {
+    return 'openrouter';
+  }
+
   async validateConfig(): Promise<boolean> {
     if (!this.apiKey) {
       return false;
@@ -69,148 +75,52 @@ export class OpenRouterProvider extends BaseLLMProvider {
     }
   }
 
-  async generatePlan(
-    ticket: RecentTicket,
-    context: string,
-    customPrompt?: string,
-    _options?: any
-  ): Promise<LLMResponse> {
-    try {
-      const systemPrompt = this.buildSystemPrompt();
-      const userPrompt = customPrompt || this.buildUserPrompt(ticket, context);
-
-      const messages: OpenRouterMessage[] = [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ];
-
-      const requestBody = {
-        model: this.model,
-        messages,
-        max_tokens: 4000,
-        temperature: 0.7,
-        top_p: 0.9,
-        frequency_penalty: 0,
-        presence_penalty: 0,
-        stream: false
-      };
-
-      const response = await this.makeRequest('/chat/completions', {
-        method: 'POST',
-        data: requestBody
-      });
-
-      const openRouterResponse = response as OpenRouterResponse;
-      
-      if (!openRouterResponse.choices || openRouterResponse.choices.length === 0) {
-        throw ErrorFactory.invalidResponse('OpenRouterProvider', 'No choices in response');
-      }
-
-      const content = openRouterResponse.choices[0].message.content;
-      
-      if (!content) {
-        throw ErrorFactory.invalidResponse('OpenRouterProvider', 'Empty response content');
-      }
-
-      return {
-        content,
-        isStreaming: false
-      };
-
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw ErrorFactory.connectionFailed('OpenRouterProvider', `OpenRouter request failed: ${message}`);
-    }
-  }
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const options = this.resolveOptions(request.options);
+    const stream = !!request.onToken;
+
+    const requestBody = {
+      model: this.model,
+      messages: request.messages as OpenRouterMessage[],
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      frequency_penalty: 0,
+      presence_penalty: 0,
+      stream,
+      // Ask OpenRouter to append token usage to the final stream chunk
+      ...(stream ? { usage: { include: true } } : {}),
+      ...(request.responseSchema ? { response_format: { type: 'json_schema', json_schema: request.responseSchema } } : {})
+    };
 
-  /**
-   * Generate plan with streaming support
-   */
-  async generatePlanStreaming(
-    ticket: RecentTicket,
-    context: string,
-    onToken: (token: string) => void,
-    customPrompt?: string
-  ): Promise<string> {
     try {
-      const systemPrompt = this.buildSystemPrompt();
-      const userPrompt = customPrompt || this.buildUserPrompt(ticket, context);
-
-      const messages: OpenRouterMessage[] = [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ];
-
-      const requestBody = {
-        model: this.model,
-        messages,
-        max_tokens: 4000,
-        temperature: 0.7,
-        top_p: 0.9,
-        frequency_penalty: 0,
-        presence_penalty: 0,
-        stream: true
-      };
-
       const response = await this.makeRequest('/chat/completions', {
         method: 'POST',
         data: requestBody,
-        responseType: 'stream'
+        signal: request.signal,
+        responseType: stream ? 'stream' : 'json'
       });
 
-      let fullContent = '';
-      const stream = response.data;
-
-      return new Promise<string>((resolve, reject) => {
-        stream.on('data', (chunk: Buffer) => {
-          const text = chunk.toString('utf8');
-          const lines = text.split('\n');
-
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || !trimmed.startsWith('data: ')) {
-              continue;
-            }
-
-            const data = trimmed.slice(6); // Remove 'data: ' prefix
-            if (data === '[DONE]') {
-              resolve(fullContent);
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data) as OpenRouterResponse;
-              const delta = parsed.choices[0]?.message?.content;
-              
-              if (delta) {
-                fullContent += delta;
-                onToken(delta);
-              }
-            } catch (parseError) {
-              console.debug('Ignoring malformed JSON line:', data);
-            }
-          }
-        });
-
-        stream.on('error', (error: Error) => {
-          reject(ErrorFactory.connectionFailed('OpenRouterProvider', `Stream error: ${error.message}`));
-        });
-
-        stream.on('end', () => {
-          resolve(fullContent);
-        });
-      });
+      return stream
+        ? await this.readStream(response, request)
+        : this.readCompletion(response as OpenRouterResponse);
 
     } catch (error) {
+      if (request.signal?.aborted) {
+        throw ErrorFactory.cancelled('OpenRouterProvider', 'ai_generation');
+      }
+      if (error instanceof ExtensionError) {
+        throw error;
+      }
       const message = error instanceof Error ? error.message : String(error);
-      throw ErrorFactory.connectionFailed('OpenRouterProvider', `Streaming request failed: ${message}`);
+      throw ErrorFactory.aiRequestFailed('OpenRouterProvider', `OpenRouter request failed: ${message}`);
     }
   }
 
   /**
    * Get list of available models
    */
-  async getAvailableModels(): Promise<Array<{ id: string; name: string; context_length: number }>> {
+  async listModels(): Promise<LLMModelInfo[]> {
     try {
       const response = await this.makeRequest('/models', {
         method: 'GET'
@@ -219,21 +129,64 @@ export class OpenRouterProvider extends BaseLLMProvider {
       return response.data.map((model: any) => ({
         id: model.id,
         name: model.name || model.id,
-        context_length: model.context_length || 4000
+        contextLength: model.context_length || 4000
       }));
     } catch (error) {
+      if (error instanceof ExtensionError) {
+        throw error;
+      }
       const message = error instanceof Error ? error.message : String(error);
-      throw ErrorFactory.connectionFailed('OpenRouterProvider', `Failed to fetch models: ${message}`);
+      throw ErrorFactory.invalidResponse('OpenRouterProvider', `Failed to fetch models: ${message}`);
     }
   }
 
   /**
    * Get current model information
    */
-  getCurrentModel(): string {
+  getModel(): string {
     return this.model;
   }
 
+  private readCompletion(openRouterResponse: OpenRouterResponse): LLMResponse {
+    if (!openRouterResponse.choices || openRouterResponse.choices.length === 0) {
+      throw ErrorFactory.invalidResponse('OpenRouterProvider', 'No choices in response');
+    }
+
+    const content = openRouterResponse.choices[0].message.content;
+    
+    if (!content) {
+      throw ErrorFactory.invalidResponse('OpenRouterProvider', 'Empty response content');
+    }
+
+    return {
+      content,
+      isStreaming: false,
+      model: openRouterResponse.model || this.model,
+      usage: this.toUsage(openRouterResponse.usage)
+    };
+  }
+
+  private async readStream(stream: Readable, request: LLMRequest): Promise<LLMResponse> {
+    const result = await readChatCompletionStream(stream, 'OpenRouterProvider', token => this.emitToken(request, token));
+    return {
+      content: result.content,
+      isStreaming: true,
+      model: result.model || this.model,
+      usage: result.usage
+    };
+  }
+
+  private toUsage(usage?: OpenRouterResponse['usage']): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens
+    };
+  }
+
   protected async makeRequest(endpoint: string, options: any = {}): Promise<any> {
     const { default: axios } = await import('axios');
     
@@ -257,95 +210,27 @@ export class OpenRouterProvider extends BaseLLMProvider {
       const response = await axios(config);
       return response.data;
     } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
       if (error.response) {
         const status = error.response.status;
         const data = error.response.data;
         
         if (status === 401) {
-          throw ErrorFactory.authenticationFailed('OpenRouterProvider', 'Invalid API key');
+          throw ErrorFactory.authenticationFailed('OpenRouterProvider', 'openrouter');
         } else if (status === 429) {
-          throw ErrorFactory.rateLimited('OpenRouterProvider', 'openrouter');
+          throw ErrorFactory.rateLimited('OpenRouterProvider', 'openrouter', parseRetryAfter(error.response.headers['retry-after']));
         } else if (status >= 500) {
-          throw ErrorFactory.connectionFailed('OpenRouterProvider', 'OpenRouter server error');
+          throw ErrorFactory.connectionFailed('OpenRouterProvider', 'openrouter');
         } else {
           throw ErrorFactory.invalidResponse('OpenRouterProvider', `HTTP ${status}: ${data?.error?.message || 'Unknown error'}`);
         }
       } else if (error.code === 'ECONNABORTED') {
         throw ErrorFactory.rateLimited('OpenRouterProvider', 'openrouter'); // Treat timeout as rate limit
       } else {
-        throw ErrorFactory.connectionFailed('OpenRouterProvider', `Network error: ${error.message}`);
+        throw ErrorFactory.connectionFailed('OpenRouterProvider', 'openrouter');
       }
     }
   }
-
-  private buildSystemPrompt(): string {
-    return `You are an expert software engineer and project manager. Your task is to create detailed implementation plans based on tickets/issues from project management tools.
-
-Your response should be a well-structured markdown document that includes:
-
-## 📋 Implementation Plan
-
-### Overview
-- Brief summary of what needs to be implemented
-- Key objectives and success criteria
-
-### Technical Approach
-- High-level technical strategy
-- Architecture decisions and rationale
-- Technology stack considerations
-
-### Implementation Steps
-1. **Step 1: [Name]**
-   - Detailed description
-   - Specific tasks
-   - Expected outcome
-
-2. **Step 2: [Name]**
-   - Detailed description  
-   - Specific tasks
-   - Expected outcome
-
-(Continue with additional steps as needed)
-
-### Testing Strategy
-- Unit testing approach
-- Integration testing considerations
-- End-to-end testing plan
-
-### Deployment Plan
-- Deployment steps
-- Environment considerations
-- Rollback strategy
-
-### Risks & Considerations
-- Potential challenges
-- Mitigation strategies
-- Dependencies
-
-### Timeline Estimate
-- Rough time estimates for each phase
-- Critical path items
-
-Be specific, actionable, and consider the existing codebase context provided.`;
-  }
-
-  private buildUserPrompt(ticket: RecentTicket, context: string): string {
-    return `Please create an implementation plan for the following ticket:
-
-**Ticket Information:**
-- **ID:** ${ticket.key}
-- **Title:** ${ticket.summary}
-- **Description:** ${ticket.description}
-- **Priority:** ${ticket.priority}
-- **Status:** ${ticket.status}
-- **Labels:** ${ticket.labels.join(', ')}
-- **Provider:** ${ticket.provider}
-
-**Current Codebase Context:**
-\`\`\`
-${context}
-\`\`\`
-
-Please analyze the ticket requirements in the context of the existing codebase and create a comprehensive implementation plan. Focus on practical, actionable steps that a developer can follow immediately.`;
-  }
-}
\ No newline at end of file
+}
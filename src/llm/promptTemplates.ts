@@ -0,0 +1,181 @@
+/**
+ * User-editable prompt templates stored in the workspace
+ * A template is a markdown file in `.aiplan/prompts/` with optional front matter choosing when it
+ * applies, and `{{placeholders}}` filled in from the ticket and the workspace context:
+ *
+ *     ---
+ *     name: Backend plans
+ *     labels: [backend, api]
+ *     providers: [jira]
+ *     llm: [ollama]
+ *     ---
+ *     <!-- system -->
+ *     You are a senior backend engineer...
+ *     <!-- user -->
+ *     Plan {{ticket.key}}: {{ticket.summary}}
+ *     {{context}}
+ *
+ * Without the `<!-- system -->` / `<!-- user -->` markers the whole body is the user message and the
+ * built-in system prompt is kept.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { RecentTicket } from '../types';
+import { parseFrontMatter } from '../frontMatter';
+
+export const PROMPT_TEMPLATE_DIR = path.join('.aiplan', 'prompts');
+
+export interface PromptTemplate {
+  /** From the front matter, or the file name without extension */
+  name: string;
+  filePath: string;
+  /** Ticket providers the template applies to (jira, linear, github, slack); empty for all */
+  providers: string[];
+  /** LLM backends the template applies to (ollama, openrouter, openai-compatible); empty for all */
+  llm: string[];
+  /** Ticket labels, any of which selects the template; empty for all */
+  labels: string[];
+  /** Undefined to keep the built-in system prompt */
+  system?: string;
+  user: string;
+}
+
+export interface PromptVariables {
+  ticket: RecentTicket;
+  context: string;
+  /** The built-in plan section list, shaped by the plan options */
+  sections: string;
+}
+
+export interface RenderedPrompt {
+  system?: string;
+  user: string;
+  /** Placeholders without a value, left in the text as written */
+  unknownVariables: string[];
+}
+
+const SYSTEM_MARKER = /^[ \t]*<!--\s*system\s*-->[ \t]*$/im;
+const USER_MARKER = /^[ \t]*<!--\s*user\s*-->[ \t]*$/im;
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : value.split(',')).map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+export function parsePromptTemplate(filePath: string, text: string): PromptTemplate {
+  const { attributes, body } = parseFrontMatter(text);
+  const name = typeof attributes.name === 'string' && attributes.name
+    ? attributes.name
+    : path.basename(filePath, path.extname(filePath));
+
+  let system: string | undefined;
+  let user = body;
+  const systemMatch = body.match(SYSTEM_MARKER);
+  const userMatch = body.match(USER_MARKER);
+  if (systemMatch?.index !== undefined) {
+    const systemStart = systemMatch.index + systemMatch[0].length;
+    if (userMatch?.index !== undefined && userMatch.index > systemMatch.index) {
+      system = body.slice(systemStart, userMatch.index);
+      user = body.slice(userMatch.index + userMatch[0].length);
+    } else {
+      system = body.slice(systemStart);
+      user = '';
+    }
+  } else if (userMatch?.index !== undefined) {
+    user = body.slice(userMatch.index + userMatch[0].length);
+  }
+
+  return {
+    name,
+    filePath,
+    providers: toList(attributes.providers),
+    llm: toList(attributes.llm),
+    labels: toList(attributes.labels),
+    system: system?.trim(),
+    user: user.trim()
+  };
+}
+
+/**
+ * Pick the template for a ticket: among those whose filters all match, the one with the most filters,
+ * then the first by name. Undefined when none applies.
+ */
+export function selectPromptTemplate(
+  templates: PromptTemplate[],
+  ticket: RecentTicket,
+  llmProvider: string
+): PromptTemplate | undefined {
+  const labels = ticket.labels.map(label => label.toLowerCase());
+  const applicable = templates.filter(template =>
+    (template.providers.length === 0 || template.providers.includes(ticket.provider))
+    && (template.llm.length === 0 || template.llm.includes(llmProvider.toLowerCase()))
+    && (template.labels.length === 0 || template.labels.some(label => labels.includes(label)))
+  );
+  const specificity = (template: PromptTemplate) =>
+    [template.providers, template.llm, template.labels].filter(filter => filter.length > 0).length;
+
+  return applicable.sort((a, b) => specificity(b) - specificity(a) || a.name.localeCompare(b.name))[0];
+}
+
+/**
+ * Fill in a template's placeholders:
+ * `{{ticket.<field>}}` for any ticket field, `{{labels}}`, `{{context}}`, `{{sections}}` and `{{date}}`
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: PromptVariables): RenderedPrompt {
+  const { ticket } = variables;
+  const values: Record<string, string> = {
+    labels: ticket.labels.join(', '),
+    context: variables.context,
+    sections: variables.sections,
+    date: new Date().toISOString().slice(0, 10)
+  };
+  for (const [key, value] of Object.entries(ticket)) {
+    values[`ticket.${key}`] = value instanceof Date
+      ? value.toISOString()
+      : Array.isArray(value) ? value.join(', ') : String(value ?? '');
+  }
+
+  const unknownVariables = new Set<string>();
+  const render = (text: string) => text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(values, name)) {
+      return values[name];
+    }
+    unknownVariables.add(name);
+    return placeholder;
+  });
+
+  return {
+    system: template.system === undefined ? undefined : render(template.system),
+    user: render(template.user),
+    unknownVariables: Array.from(unknownVariables)
+  };
+}
+
+/**
+ * Read every `*.md` template in `.aiplan/prompts/` of the given folders; unreadable files are skipped
+ */
+export async function loadPromptTemplates(folderPaths: string[]): Promise<PromptTemplate[]> {
+  const templates: PromptTemplate[] = [];
+  for (const folderPath of folderPaths) {
+    const directory = path.join(folderPath, PROMPT_TEMPLATE_DIR);
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(directory);
+    } catch {
+      continue;
+    }
+    for (const name of names.filter(entry => entry.endsWith('.md')).sort()) {
+      const filePath = path.join(directory, name);
+      try {
+        templates.push(parsePromptTemplate(filePath, await fs.promises.readFile(filePath, 'utf8')));
+      } catch (error) {
+        console.error(`Error reading prompt template ${filePath}:`, error);
+      }
+    }
+  }
+  return templates;
+}
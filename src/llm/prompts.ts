@@ -0,0 +1,177 @@
+/**
+ * Prompt construction shared by every LLM backend
+ */
+
+import { LLMMessage, PlanGenerationOptions, RecentTicket } from '../types';
+import { PromptTemplate, renderPromptTemplate } from './promptTemplates';
+import { STRUCTURED_PLAN_SCHEMA } from '../structuredPlan';
+
+/**
+ * Build the system + user messages for an implementation plan request
+ * @param options decide which sections the plan asks for
+ * @param template a workspace prompt template replacing the built-in user prompt, and the system prompt if it has one
+ */
+export function buildPlanMessages(
+  ticket: RecentTicket,
+  context: string,
+  options: PlanGenerationOptions,
+  template?: PromptTemplate
+): LLMMessage[] {
+  if (template) {
+    const rendered = renderPromptTemplate(template, { ticket, context, sections: buildPlanSections(options) });
+    return [
+      { role: 'system', content: rendered.system ?? buildSystemPrompt(options) },
+      { role: 'user', content: rendered.user }
+    ];
+  }
+
+  return [
+    { role: 'system', content: buildSystemPrompt(options) },
+    { role: 'user', content: buildUserPrompt(ticket, context) }
+  ];
+}
+
+function buildSystemPrompt(options: PlanGenerationOptions): string {
+  return `You are an expert software engineer and project manager. Your task is to create detailed implementation plans based on tickets/issues from project management tools.
+
+${options.structuredOutput
+    ? 'Your response must be a single JSON object, with no text before or after it:'
+    : 'Your response should be a well-structured markdown document that includes:'}
+
+${buildPlanSections(options)}`;
+}
+
+/**
+ * The outline the plan should follow and how to write it; `{{sections}}` in prompt templates
+ */
+export function buildPlanSections(options: PlanGenerationOptions): string {
+  if (options.structuredOutput) {
+    return buildStructuredSections(options);
+  }
+
+  const sections = [`### Overview
+- Brief summary of what needs to be implemented
+- Key objectives and success criteria`, `### Technical Approach
+- High-level technical strategy
+- Architecture decisions and rationale
+- Technology stack considerations`];
+
+  if (options.includeFileStructure) {
+    sections.push(`### Files to Change
+- Files to create, modify or delete, as paths from the workspace context
+- One line per file on what changes in it`);
+  }
+
+  sections.push(`### Implementation Steps
+1. **Step 1: [Name]**
+   - Detailed description
+   - Specific tasks${options.includeCodeExamples ? '\n   - Code snippets for the key changes' : ''}
+   - Expected outcome
+
+2. **Step 2: [Name]**
+   - Detailed description
+   - Specific tasks${options.includeCodeExamples ? '\n   - Code snippets for the key changes' : ''}
+   - Expected outcome
+
+(Continue with additional steps as needed)`);
+
+  if (options.includeTestingStrategy) {
+    sections.push(`### Testing Strategy
+- Unit testing approach
+- Integration testing considerations
+- End-to-end testing plan`);
+  }
+
+  if (options.includeDeploymentSteps) {
+    sections.push(`### Deployment Plan
+- Deployment steps
+- Environment considerations
+- Rollback strategy`);
+  }
+
+  sections.push(`### Risks & Considerations
+- Potential challenges
+- Mitigation strategies
+- Dependencies`, `### Timeline Estimate
+- Rough time estimates for each phase
+- Critical path items`);
+
+  const instructions = ['Be specific, actionable, and consider the existing codebase context provided.'];
+  if (!options.includeCodeExamples) {
+    instructions.push('Do not include code; describe each change in prose, naming the functions and types involved.');
+  }
+  const omitted = [
+    !options.includeTestingStrategy && 'testing',
+    !options.includeDeploymentSteps && 'deployment'
+  ].filter(Boolean);
+  if (omitted.length > 0) {
+    instructions.push(`Do not add sections about ${omitted.join(' or ')}.`);
+  }
+
+  return `## 📋 Implementation Plan
+
+${sections.join('\n\n')}
+
+${instructions.join(' ')}`;
+}
+
+/**
+ * The JSON shape of a structured plan and what goes in each field
+ */
+function buildStructuredSections(options: PlanGenerationOptions): string {
+  const fields = [
+    '- `overview`: what needs to be implemented, the key objectives and the technical approach',
+    '- `steps`: the implementation steps in order. `id` is a short unique string ("1", "2", ...); '
+      + '`description` says what to do and the expected outcome, in markdown'
+      + `${options.includeCodeExamples ? ' with code snippets for the key changes' : ''}; `
+      + '`files` lists the workspace paths the step creates or changes (empty when unknown); '
+      + '`estimate` is a rough effort such as "2h" or "1d"; `dependencies` lists the ids of steps that must be done first'
+  ];
+  if (options.includeTestingStrategy) {
+    fields.push('- `testing`: the unit, integration and end-to-end testing approach');
+  }
+  if (options.includeDeploymentSteps) {
+    fields.push('- `deployment`: deployment steps, environment considerations and rollback strategy');
+  }
+  fields.push('- `risks`: potential challenges, mitigations and external dependencies');
+
+  const instructions = ['Be specific, actionable, and consider the existing codebase context provided.'];
+  if (!options.includeCodeExamples) {
+    instructions.push('Do not include code; describe each change in prose, naming the functions and types involved.');
+  }
+  const omitted = [
+    !options.includeTestingStrategy && '`testing`',
+    !options.includeDeploymentSteps && '`deployment`'
+  ].filter(Boolean);
+  if (omitted.length > 0) {
+    instructions.push(`Leave out ${omitted.join(' and ')}.`);
+  }
+
+  return `\`\`\`json
+${JSON.stringify(STRUCTURED_PLAN_SCHEMA)}
+\`\`\`
+
+${fields.join('\n')}
+
+${instructions.join(' ')}`;
+}
+
+function buildUserPrompt(ticket: RecentTicket, context: string): string {
+  return `Please create an implementation plan for the following ticket:
+
+**Ticket Information:**
+- **ID:** ${ticket.key}
+- **Title:** ${ticket.summary}
+- **Description:** ${ticket.description}
+- **Priority:** ${ticket.priority}
+- **Status:** ${ticket.status}
+- **Labels:** ${ticket.labels.join(', ')}
+- **Provider:** ${ticket.provider}
+
+**Current Codebase Context:**
+\`\`\`
+${context}
+\`\`\`
+
+Please analyze the ticket requirements in the context of the existing codebase and create a comprehensive implementation plan. Focus on practical, actionable steps that a developer can follow immediately.`;
+}
@@ -0,0 +1,251 @@
+/**
+ * Server-sent events parsing for OpenAI-style chat completion streams
+ * Shared by every backend that speaks /chat/completions with `stream: true`
+ */
+
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { LLMUsage } from '../types';
+import { ErrorFactory } from '../utils/errorTypes';
+
+export interface ChatCompletionStreamChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  error?: { message?: string; code?: string | number } | string;
+}
+
+export interface ChatCompletionStreamResult {
+  content: string;
+  model?: string;
+  usage?: LLMUsage;
+  /** True when the server sent `[DONE]`, false when the connection simply ended */
+  done: boolean;
+}
+
+/**
+ * Splits a byte stream into SSE events.
+ * Chunk boundaries may fall anywhere: inside a line, between `\r` and `\n`, or inside a multi-byte character.
+ */
+export class SSEEventBuffer {
+  private readonly decoder = new StringDecoder('utf8');
+  private pending = '';
+  private dataLines: string[] = [];
+  private eventName: string | undefined;
+
+  /**
+   * Feed raw bytes and return the data of every event completed by them
+   */
+  push(chunk: Buffer | string): Array<{ event?: string; data: string }> {
+    this.pending += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+
+    const events: Array<{ event?: string; data: string }> = [];
+    let newline: number;
+    while ((newline = this.pending.search(/\r\n|\r|\n/)) !== -1) {
+      // A trailing "\r" may be the first half of "\r\n": wait for the next chunk
+      if (this.pending[newline] === '\r' && newline === this.pending.length - 1) {
+        break;
+      }
+      const line = this.pending.slice(0, newline);
+      const width = this.pending.startsWith('\r\n', newline) ? 2 : 1;
+      this.pending = this.pending.slice(newline + width);
+      this.handleLine(line, events);
+    }
+    return events;
+  }
+
+  /**
+   * Flush whatever is left when the connection closes
+   */
+  end(): Array<{ event?: string; data: string }> {
+    const events: Array<{ event?: string; data: string }> = [];
+    this.pending += this.decoder.end();
+    if (this.pending) {
+      this.handleLine(this.pending.replace(/\r$/, ''), events);
+      this.pending = '';
+    }
+    this.dispatch(events);
+    return events;
+  }
+
+  private handleLine(line: string, events: Array<{ event?: string; data: string }>): void {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) {
+      return; // Comment / keep-alive, e.g. ": OPENROUTER PROCESSING"
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'event') {
+      this.eventName = value;
+    }
+  }
+
+  private dispatch(events: Array<{ event?: string; data: string }>): void {
+    if (this.dataLines.length > 0) {
+      events.push({ event: this.eventName, data: this.dataLines.join('\n') });
+    }
+    this.dataLines = [];
+    this.eventName = undefined;
+  }
+}
+
+/**
+ * Accumulates `delta` content and the final `usage` block of a chat completion stream.
+ * Throws an AI_REQUEST_FAILED error when the server reports an error mid-stream.
+ */
+export class ChatCompletionStreamParser {
+  private readonly buffer = new SSEEventBuffer();
+  private content = '';
+  private model: string | undefined;
+  private usage: LLMUsage | undefined;
+  private done = false;
+
+  constructor(
+    private readonly component: string,
+    private readonly onToken?: (token: string) => void
+  ) {}
+
+  get isDone(): boolean {
+    return this.done;
+  }
+
+  push(chunk: Buffer | string): void {
+    for (const event of this.buffer.push(chunk)) {
+      this.handleEvent(event);
+    }
+  }
+
+  end(): ChatCompletionStreamResult {
+    for (const event of this.buffer.end()) {
+      this.handleEvent(event);
+    }
+    return this.result();
+  }
+
+  result(): ChatCompletionStreamResult {
+    return { content: this.content, model: this.model, usage: this.usage, done: this.done };
+  }
+
+  private handleEvent(event: { event?: string; data: string }): void {
+    if (this.done) {
+      return;
+    }
+    if (event.data.trim() === '[DONE]') {
+      this.done = true;
+      return;
+    }
+
+    let chunk: ChatCompletionStreamChunk;
+    try {
+      chunk = JSON.parse(event.data);
+    } catch {
+      if (event.event === 'error') {
+        throw ErrorFactory.aiRequestFailed(this.component, `Stream error: ${event.data}`);
+      }
+      console.debug('Ignoring malformed SSE event:', event.data);
+      return;
+    }
+
+    if (chunk.error || event.event === 'error') {
+      throw ErrorFactory.aiRequestFailed(this.component, `Stream error: ${describeError(chunk.error ?? event.data)}`);
+    }
+
+    if (chunk.model) {
+      this.model = chunk.model;
+    }
+
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      this.content += delta;
+      this.onToken?.(delta);
+    }
+
+    if (chunk.usage) {
+      this.usage = {
+        promptTokens: chunk.usage.prompt_tokens,
+        completionTokens: chunk.usage.completion_tokens,
+        totalTokens: chunk.usage.total_tokens
+      };
+    }
+  }
+}
+
+function describeError(error: ChatCompletionStreamChunk['error']): string {
+  if (!error) {
+    return 'unknown error';
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  const code = error.code !== undefined ? ` (${error.code})` : '';
+  return `${error.message || 'unknown error'}${code}`;
+}
+
+/**
+ * Read a chat completion stream to the end, emitting tokens as they arrive
+ */
+export function readChatCompletionStream(
+  stream: Readable,
+  component: string,
+  onToken?: (token: string) => void
+): Promise<ChatCompletionStreamResult> {
+  const parser = new ChatCompletionStreamParser(component, onToken);
+
+  return new Promise<ChatCompletionStreamResult>((resolve, reject) => {
+    let settled = false;
+    const settle = (action: () => void) => {
+      if (!settled) {
+        settled = true;
+        action();
+      }
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      try {
+        parser.push(chunk);
+        if (parser.isDone) {
+          settle(() => resolve(parser.result()));
+        }
+      } catch (error) {
+        settle(() => reject(error));
+        stream.destroy();
+      }
+    });
+
+    stream.on('end', () => {
+      try {
+        const result = parser.end();
+        settle(() => resolve(result));
+      } catch (error) {
+        settle(() => reject(error));
+      }
+    });
+
+    // A dropped or aborted connection closes without an 'end' event
+    stream.on('close', () => {
+      settle(() => reject(ErrorFactory.aiRequestFailed(component, 'Stream closed before the response completed')));
+    });
+
+    stream.on('error', (error: Error) => {
+      settle(() => reject(ErrorFactory.aiRequestFailed(component, `Stream error: ${error.message}`)));
+    });
+  });
+}
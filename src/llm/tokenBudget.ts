@@ -0,0 +1,100 @@
+/**
+ * Token estimation and context window budgeting
+ * Approximates BPE tokenizers closely enough to size prompts without shipping a tokenizer per model.
+ */
+
+import { LLMMessage } from '../types';
+
+/** Used when a backend cannot report its model's context window */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/** Never reserve more than this share of the window for the answer, so small models still get context */
+const MAX_OUTPUT_SHARE = 0.25;
+
+/** Headroom for the estimate being off and for chat template tokens */
+const SAFETY_MARGIN = 0.05;
+
+/** Per-message overhead of chat templates (role markers, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextBudget {
+  contextWindow: number;
+  /** Tokens used by the prompt without workspace context */
+  promptTokens: number;
+  /** Tokens kept free for the model's answer */
+  outputTokens: number;
+  /** Tokens left for workspace context; zero or less when even the bare prompt does not fit */
+  contextTokens: number;
+}
+
+/**
+ * Estimate the number of tokens in a text.
+ * Letters cost a token per four characters, which errs high for common words and close for identifiers;
+ * digits come in groups of up to three, and punctuation and line breaks are mostly tokens of their own.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(/[A-Za-z]+|\d{1,3}|\s+|[^\sA-Za-z\d]/g) || []) {
+    if (/[A-Za-z]/.test(piece[0])) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (/\d/.test(piece[0])) {
+      tokens += 1;
+    } else if (/\s/.test(piece[0])) {
+      // A single space merges into the next word; newlines and indentation runs cost tokens
+      const newlines = (piece.match(/\n/g) || []).length;
+      const spaces = piece.length - newlines;
+      tokens += newlines + (spaces > 1 ? Math.ceil(spaces / 4) : 0);
+    } else {
+      // Non-ASCII characters often take more than one token
+      tokens += piece.charCodeAt(0) > 127 ? 2 : 1;
+    }
+  }
+  return tokens;
+}
+
+export function estimateMessageTokens(messages: LLMMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Split a model's context window between the prompt, the answer and the workspace context
+ * @param maxOutputTokens the answer length the backend is configured for, if any
+ */
+export function calculateContextBudget(
+  contextWindow: number,
+  promptTokens: number,
+  maxOutputTokens?: number
+): ContextBudget {
+  const outputCap = Math.floor(contextWindow * MAX_OUTPUT_SHARE);
+  const outputTokens = maxOutputTokens ? Math.min(maxOutputTokens, outputCap) : outputCap;
+  const margin = Math.ceil(contextWindow * SAFETY_MARGIN);
+
+  return {
+    contextWindow,
+    promptTokens,
+    outputTokens,
+    contextTokens: contextWindow - promptTokens - outputTokens - margin
+  };
+}
+
+/**
+ * Cut a text down to roughly the given number of tokens, on a line boundary where possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > maxTokens) {
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+  return kept.join('\n');
+}
@@ -0,0 +1,147 @@
+/**
+ * Generated plans saved in the workspace, one markdown file per generation:
+ * `<plans folder>/<ticket key>/<timestamp>.md`, with front matter recording what produced the plan.
+ * No VS Code dependency; the Plan History view lists and compares what is saved here.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { LLMMessage } from './types';
+import { formatFrontMatter, parseFrontMatter } from './frontMatter';
+
+export interface PlanMetadata {
+  ticket: string;
+  summary: string;
+  ticketProvider: string;
+  /** LLM backend and model that wrote the plan */
+  provider: string;
+  model: string;
+  generatedAt: Date;
+  /** Hash of the messages sent, to tell whether two plans were asked the same thing */
+  promptHash: string;
+  promptTemplate?: string;
+  /** Workspace files whose content or outline was in the context */
+  contextFiles: string[];
+}
+
+export interface SavedPlan extends PlanMetadata {
+  filePath: string;
+}
+
+/**
+ * Short, stable hash of the messages sent for a plan
+ */
+export function hashPrompt(messages: LLMMessage[]): string {
+  const hash = createHash('sha256');
+  for (const message of messages) {
+    hash.update(`${message.role}\0${message.content}\0`);
+  }
+  return hash.digest('hex').slice(0, 12);
+}
+
+/**
+ * Directory name for a ticket key; keys like `#42` or `SLACK-general-1.2` only keep safe characters
+ */
+export function toTicketDirectory(ticketKey: string): string {
+  return ticketKey.replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'ticket';
+}
+
+export function formatPlanFile(metadata: PlanMetadata, document: string): string {
+  const attributes: Record<string, string | string[]> = {
+    ticket: metadata.ticket,
+    summary: metadata.summary,
+    ticketProvider: metadata.ticketProvider,
+    provider: metadata.provider,
+    model: metadata.model,
+    generatedAt: metadata.generatedAt.toISOString(),
+    promptHash: metadata.promptHash
+  };
+  if (metadata.promptTemplate) {
+    attributes.promptTemplate = metadata.promptTemplate;
+  }
+  attributes.contextFiles = metadata.contextFiles;
+  return `${formatFrontMatter(attributes)}\n${document}`;
+}
+
+/**
+ * Read a saved plan's metadata; files edited by hand fall back to their location and modification time
+ */
+export function parsePlanFile(filePath: string, text: string, modifiedAt: Date): SavedPlan {
+  const { attributes } = parseFrontMatter(text);
+  const attribute = (key: string) => typeof attributes[key] === 'string' ? attributes[key] as string : '';
+  const generatedAt = new Date(attribute('generatedAt'));
+
+  return {
+    filePath,
+    ticket: attribute('ticket') || path.basename(path.dirname(filePath)),
+    summary: attribute('summary'),
+    ticketProvider: attribute('ticketProvider'),
+    provider: attribute('provider'),
+    model: attribute('model'),
+    generatedAt: isNaN(generatedAt.getTime()) ? modifiedAt : generatedAt,
+    promptHash: attribute('promptHash'),
+    promptTemplate: attribute('promptTemplate') || undefined,
+    contextFiles: Array.isArray(attributes.contextFiles) ? attributes.contextFiles : []
+  };
+}
+
+export class PlanHistory {
+  readonly plansPath: string;
+
+  /**
+   * @param folder plans folder, relative to `rootPath` or absolute
+   */
+  constructor(readonly rootPath: string, folder: string) {
+    this.plansPath = path.resolve(rootPath, folder);
+  }
+
+  /**
+   * Write a plan document with its metadata
+   * @returns the path of the new file
+   */
+  async save(metadata: PlanMetadata, document: string): Promise<string> {
+    const directory = path.join(this.plansPath, toTicketDirectory(metadata.ticket));
+    // Colons are not allowed in Windows file names
+    const fileName = `${metadata.generatedAt.toISOString().replace(/:/g, '-')}.md`;
+    const filePath = path.join(directory, fileName);
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(filePath, formatPlanFile(metadata, document), 'utf8');
+    return filePath;
+  }
+
+  /**
+   * Every saved plan, newest first; only the plans of one ticket when a key is given
+   */
+  async listPlans(ticketKey?: string): Promise<SavedPlan[]> {
+    const directories = ticketKey ? [toTicketDirectory(ticketKey)] : await this.readDirectory(this.plansPath);
+    const plans: SavedPlan[] = [];
+
+    for (const directory of directories) {
+      const directoryPath = path.join(this.plansPath, directory);
+      for (const name of (await this.readDirectory(directoryPath)).filter(entry => entry.endsWith('.md'))) {
+        const filePath = path.join(directoryPath, name);
+        try {
+          const [text, stat] = await Promise.all([fs.promises.readFile(filePath, 'utf8'), fs.promises.stat(filePath)]);
+          plans.push(parsePlanFile(filePath, text, stat.mtime));
+        } catch (error) {
+          console.error(`Error reading saved plan ${filePath}:`, error);
+        }
+      }
+    }
+
+    return plans
+      .filter(plan => !ticketKey || plan.ticket === ticketKey)
+      .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
+  }
+
+  private async readDirectory(directoryPath: string): Promise<string[]> {
+    try {
+      return await fs.promises.readdir(directoryPath);
+    } catch {
+      // Nothing saved yet
+      return [];
+    }
+  }
+}
@@ -44,6 +44,14 @@ export abstract class BaseProvider {
    */
   abstract getProviderName(): string;
 
+  /**
+   * Add a comment to a ticket
+   * @param ticket Ticket previously returned by this provider
+   * @param markdown Comment text; providers convert it to the service's own format
+   * @returns Promise resolving to the URL of the new comment, when the service gives one
+   */
+  abstract addComment(ticket: RecentTicket, markdown: string): Promise<string | undefined>;
+
   /**
    * Map provider-specific ticket data to standard RecentTicket format
    * @param rawTicket Raw ticket data from provider API
@@ -3,7 +3,7 @@
  * Uses GitHub REST API v4 for data retrieval
  */
 
-import { BaseProvider } from './base';
+import { TicketTransition, WritableProvider } from './writable';
 import { RecentTicket, TaskGroup, ProjectGroup } from '../types';
 import { cacheManager } from '../utils/cache';
 import { ErrorFactory } from '../utils/errorTypes';
@@ -42,8 +42,11 @@ export interface GitHubIssue {
 /**
  * GitHub API provider for fetching issues and pull requests
  */
-export class GitHubProvider extends BaseProvider {
+export class GitHubProvider extends WritableProvider {
   private readonly API_BASE_URL = 'https://api.github.com';
+  // Issues have no workflow of their own; work in progress and in review is marked with these labels
+  private readonly IN_PROGRESS_LABEL = 'in progress';
+  private readonly IN_REVIEW_LABEL = 'in review';
   private cache = cacheManager.getCache<any>('github', {
     defaultTTL: 5 * 60 * 1000, // 5 minutes
     maxSize: 50
@@ -106,6 +109,89 @@ export class GitHubProvider extends BaseProvider {
     return this.mapToRecentTicket(issue);
   }
 
+  /**
+   * Add a markdown comment to an issue or pull request
+   */
+  async addComment(ticket: RecentTicket, markdown: string): Promise<string | undefined> {
+    const comment = await this.makeRequest(`${this.getIssueUrl(ticket)}/comments`, {
+      method: 'POST',
+      data: { body: markdown }
+    });
+    return comment?.html_url;
+  }
+
+  /**
+   * Label the issue as in progress or in review, or close it as completed
+   */
+  async getTransitions(ticket: RecentTicket): Promise<TicketTransition[]> {
+    if (ticket.status === 'Closed') {
+      return [{ id: 'reopen', name: 'Reopen', stage: 'todo' }];
+    }
+    return [
+      { id: 'inProgress', name: `Label "${this.IN_PROGRESS_LABEL}"`, stage: 'inProgress' },
+      { id: 'inReview', name: `Label "${this.IN_REVIEW_LABEL}"`, stage: 'inReview' },
+      { id: 'close', name: 'Close as completed', stage: 'done' }
+    ];
+  }
+
+  async transitionTicket(ticket: RecentTicket, transition: TicketTransition): Promise<void> {
+    const issueUrl = this.getIssueUrl(ticket);
+
+    switch (transition.id) {
+    case 'inProgress':
+    case 'inReview': {
+      const [label, previous] = transition.id === 'inProgress'
+        ? [this.IN_PROGRESS_LABEL, this.IN_REVIEW_LABEL]
+        : [this.IN_REVIEW_LABEL, this.IN_PROGRESS_LABEL];
+      await this.makeRequest(`${issueUrl}/labels`, { method: 'POST', data: { labels: [label] } });
+      await this.removeLabel(issueUrl, previous);
+      break;
+    }
+    case 'close':
+      await this.removeLabel(issueUrl, this.IN_PROGRESS_LABEL);
+      await this.removeLabel(issueUrl, this.IN_REVIEW_LABEL);
+      await this.makeRequest(issueUrl, { method: 'PATCH', data: { state: 'closed', state_reason: 'completed' } });
+      break;
+    case 'reopen':
+      await this.makeRequest(issueUrl, { method: 'PATCH', data: { state: 'open' } });
+      break;
+    default:
+      throw ErrorFactory.validationFailed('GitHubProvider', 'transition', transition.id, 'Unknown GitHub transition');
+    }
+    this.cache.clear();
+  }
+
+  async assignToMe(ticket: RecentTicket): Promise<void> {
+    const user = await this.makeRequest(`${this.API_BASE_URL}/user`);
+    await this.makeRequest(`${this.getIssueUrl(ticket)}/assignees`, {
+      method: 'POST',
+      data: { assignees: [user.login] }
+    });
+    this.cache.clear();
+  }
+
+  /**
+   * API URL of the issue or pull request behind a ticket
+   */
+  private getIssueUrl(ticket: RecentTicket): string {
+    const match = ticket.url.match(/github\.com\/([^/]+\/[^/]+)\/(?:issues|pull)\/(\d+)/);
+    if (!match) {
+      throw ErrorFactory.validationFailed('GitHubProvider', 'url', ticket.url, 'Expected a github.com issue or pull request URL');
+    }
+    return `${this.API_BASE_URL}/repos/${match[1]}/issues/${match[2]}`;
+  }
+
+  private async removeLabel(issueUrl: string, label: string): Promise<void> {
+    try {
+      await this.makeRequest(`${issueUrl}/labels/${encodeURIComponent(label)}`, { method: 'DELETE' });
+    } catch (error) {
+      // GitHub answers 404 when the issue does not have the label
+      if (!(error instanceof Error && error.message.startsWith('HTTP 404'))) {
+        throw error;
+      }
+    }
+  }
+
   /**
    * Get issues grouped by status and priority
    */
@@ -308,7 +394,7 @@ export class GitHubProvider extends BaseProvider {
     return match ? match[1] : 'unknown/unknown';
   }
 
-  private mapToRecentTicket(issue: GitHubIssue): RecentTicket {
+  protected mapToRecentTicket(issue: GitHubIssue): RecentTicket {
     const priority = this.determinePriority(issue.labels);
     
     return {
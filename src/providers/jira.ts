@@ -1,14 +1,41 @@
-import { BaseProvider } from './base';
-import { RecentTicket, TaskGroup, ProjectGroup, JiraBoard, JiraSprint } from '../types';
+import { TicketTransition, WritableProvider, classifyWorkflowState } from './writable';
+import { RecentTicket, TaskGroup, ProjectGroup, JiraBoard, JiraSprint, TicketPage } from '../types';
 
 import { cacheManager } from '../utils/cache';
+import { markdownToADF, markdownToJiraWiki } from '../commentFormat';
+import { wikiMarkupToMarkdown } from '../wikiMarkup';
+
+// The enhanced search rejects queries without a restriction, so recent issues are limited to the last 90 days
+const RECENT_JQL = 'updated >= -90d ORDER BY updated DESC';
+const ISSUE_FIELDS = 'summary,description,priority,assignee,labels,created,updated,status,key,project,duedate';
+// Jira returns at most 100 issues per page however many are asked for
+const MAX_PAGE_SIZE = 100;
+
+/** Jira Cloud, or a self-hosted Jira Server/Data Center site */
+export type JiraDeployment = 'cloud' | 'server';
+
+export interface JiraProviderConfig {
+  baseUrl?: string;
+  token?: string;
+  /** Detected from the site when 'auto' or unset */
+  deployment?: JiraDeployment | 'auto';
+}
 
-export class JiraProvider extends BaseProvider {
+export class JiraProvider extends WritableProvider {
   private cache = cacheManager.getCache<any>('jira', {
     defaultTTL: 5 * 60 * 1000, // 5 minutes
     maxSize: 50
   });
   private currentUser: any = null;
+  // Jira Cloud sites answer the enhanced search endpoint; older ones only the offset-paginated one
+  private useLegacySearch = false;
+  private deployment: JiraDeployment | undefined;
+  private deploymentDetection: Promise<JiraDeployment | undefined> | undefined;
+
+  constructor(config: JiraProviderConfig) {
+    super(config);
+    this.deployment = config.deployment === 'cloud' || config.deployment === 'server' ? config.deployment : undefined;
+  }
 
   getProviderName(): string {
     return 'jira';
@@ -20,7 +47,7 @@ export class JiraProvider extends BaseProvider {
     }
 
     try {
-      const user = await this.makeRequest(`${this.config.baseUrl}/rest/api/3/myself`);
+      const user = await this.makeRequest(await this.apiUrl('/myself'));
       this.currentUser = user; // Cache user info
       return true;
     } catch (error) {
@@ -165,23 +192,16 @@ export class JiraProvider extends BaseProvider {
   // =================== LEGACY METHODS (Updated) ===================
   
   async getRecentTickets(limit: number = 10): Promise<RecentTicket[]> {
-    const jql = 'ORDER BY updated DESC';
-    const url = `${this.config.baseUrl}/rest/api/3/search`;
-    
-    const response = await this.makeRequest(url, {
-      method: 'GET',
-      params: {
-        jql,
-        maxResults: limit,
-        fields: 'summary,description,priority,assignee,labels,created,updated,status,key'
-      }
-    });
+    return this.executeJQLQuery(RECENT_JQL, limit);
+  }
 
-    return response.issues.map((issue: any) => this.mapToRecentTicket(issue));
+  // Recently updated issues a page at a time, for lists that load more on demand
+  recentTicketPages(pageSize: number = 50): AsyncGenerator<TicketPage> {
+    return this.searchPages(RECENT_JQL, pageSize);
   }
 
   async getTicket(id: string): Promise<RecentTicket> {
-    const url = `${this.config.baseUrl}/rest/api/3/issue/${id}`;
+    const url = await this.apiUrl(`/issue/${id}`);
     
     const response = await this.makeRequest(url, {
       method: 'GET',
@@ -193,45 +213,72 @@ export class JiraProvider extends BaseProvider {
     return this.mapToRecentTicket(response);
   }
 
-  // Fetch issues related to the current user (assigned or reported)
-  async getMyWork(limit: number = 20): Promise<RecentTicket[]> {
-    const jql = 'assignee = currentUser() OR reporter = currentUser() ORDER BY updated DESC';
-    const url = `${this.config.baseUrl}/rest/api/3/search`;
+  // Comments are Atlassian Document Format on Jira Cloud and wiki markup on Server/Data Center, not markdown
+  async addComment(ticket: RecentTicket, markdown: string): Promise<string | undefined> {
+    const cloud = await this.getDeployment() === 'cloud';
+    const url = await this.apiUrl(`/issue/${ticket.key}/comment`);
 
-    const response = await this.makeRequest(url, {
-      method: 'GET',
-      params: {
-        jql,
-        maxResults: limit,
-        fields: 'summary,description,priority,assignee,labels,created,updated,status,key'
-      }
+    const comment = await this.makeRequest(url, {
+      method: 'POST',
+      data: { body: cloud ? markdownToADF(markdown) : markdownToJiraWiki(markdown) }
     });
 
-    return response.issues.map((issue: any) => this.mapToRecentTicket(issue));
+    return comment?.id ? `${this.config.baseUrl}/browse/${ticket.key}?focusedCommentId=${comment.id}` : undefined;
   }
 
-  // Full-text search in issues (title/description/comments depending on instance config)
-  async searchByText(query: string, limit: number = 20): Promise<RecentTicket[]> {
-    const safe = query.replace(/"/g, '\\"');
-    const jql = `text ~ "${safe}" ORDER BY updated DESC`;
-    const url = `${this.config.baseUrl}/rest/api/3/search`;
+  // Transitions are defined per workflow; each names the status it leads to and that status's category
+  async getTransitions(ticket: RecentTicket): Promise<TicketTransition[]> {
+    const response = await this.makeRequest(await this.apiUrl(`/issue/${ticket.key}/transitions`));
 
-    const response = await this.makeRequest(url, {
-      method: 'GET',
-      params: {
-        jql,
-        maxResults: limit,
-        fields: 'summary,description,priority,assignee,labels,created,updated,status,key'
-      }
+    return (response.transitions || []).flatMap((transition: any) => {
+      const name = transition.to?.name || transition.name;
+      const stage = classifyWorkflowState(name, transition.to?.statusCategory?.key);
+      return stage ? [{ id: String(transition.id), name, stage }] : [];
+    });
+  }
+
+  async transitionTicket(ticket: RecentTicket, transition: TicketTransition): Promise<void> {
+    await this.makeRequest(await this.apiUrl(`/issue/${ticket.key}/transitions`), {
+      method: 'POST',
+      data: { transition: { id: transition.id } }
+    });
+    this.cache.clear();
+  }
+
+  async assignToMe(ticket: RecentTicket): Promise<void> {
+    if (!this.currentUser) {
+      this.currentUser = await this.makeRequest(await this.apiUrl('/myself'));
+    }
+
+    // Jira Cloud identifies users by account ID, Server/Data Center by username
+    const cloud = await this.getDeployment() === 'cloud';
+    await this.makeRequest(await this.apiUrl(`/issue/${ticket.key}/assignee`), {
+      method: 'PUT',
+      data: cloud ? { accountId: this.currentUser.accountId } : { name: this.currentUser.name }
     });
+    this.cache.clear();
+  }
+
+  // Fetch issues related to the current user (assigned or reported)
+  async getMyWork(limit: number = 20): Promise<RecentTicket[]> {
+    const jql = 'assignee = currentUser() OR reporter = currentUser() ORDER BY updated DESC';
+    return this.executeJQLQuery(jql, limit);
+  }
+
+  // Full-text search in issues (title/description/comments depending on instance config)
+  async searchByText(query: string, limit: number = 20): Promise<RecentTicket[]> {
+    return this.executeJQLQuery(this.textSearchJql(query), limit);
+  }
 
-    return response.issues.map((issue: any) => this.mapToRecentTicket(issue));
+  textSearchPages(query: string, pageSize: number = 50): AsyncGenerator<TicketPage> {
+    return this.searchPages(this.textSearchJql(query), pageSize);
   }
 
   async getProjects(): Promise<Array<{ key: string; name: string }>> {
-    const url = `${this.config.baseUrl}/rest/api/3/project/search`;
-    const response = await this.makeRequest(url, { method: 'GET' });
-    const values = response.values || [];
+    // Server/Data Center lists every project at once; Cloud pages them under /project/search
+    const cloud = await this.getDeployment() === 'cloud';
+    const response = await this.makeRequest(await this.apiUrl(cloud ? '/project/search' : '/project'), { method: 'GET' });
+    const values = (cloud ? response.values : response) || [];
     return values.map((p: any) => ({ key: p.key, name: p.name }));
   }
 
@@ -240,16 +287,7 @@ export class JiraProvider extends BaseProvider {
       return this.getRecentTickets(limit);
     }
     const jql = `project in (${projectKeys.map(k => `'${k}'`).join(',')}) ORDER BY updated DESC`;
-    const url = `${this.config.baseUrl}/rest/api/3/search`;
-    const response = await this.makeRequest(url, {
-      method: 'GET',
-      params: {
-        jql,
-        maxResults: limit,
-        fields: 'summary,description,priority,assignee,labels,created,updated,status,key'
-      }
-    });
-    return response.issues.map((issue: any) => this.mapToRecentTicket(issue));
+    return this.executeJQLQuery(jql, limit);
   }
 
   // Boards (Jira Software Agile API)
@@ -283,20 +321,128 @@ export class JiraProvider extends BaseProvider {
 
   // =================== HELPER METHODS ===================
 
-  // Optimized JQL execution
+  // Up to maxResults issues matching the query, over as many pages as that takes
   private async executeJQLQuery(jql: string, maxResults: number = 50): Promise<RecentTicket[]> {
-    const url = `${this.config.baseUrl}/rest/api/3/search`;
-    
-    const response = await this.makeRequest(url, {
-      method: 'GET',
-      params: {
-        jql,
-        maxResults,
-        fields: 'summary,description,priority,assignee,labels,created,updated,status,key,project,duedate'
+    const tickets: RecentTicket[] = [];
+    for await (const ticket of this.searchIssues(jql, maxResults)) {
+      tickets.push(ticket);
+    }
+    return tickets;
+  }
+
+  /**
+   * Issues matching a JQL query, one at a time; pages are fetched as the iteration reaches them
+   * @param limit Stop after this many issues
+   */
+  async *searchIssues(jql: string, limit: number = Infinity): AsyncGenerator<RecentTicket> {
+    let count = 0;
+    for await (const page of this.searchPages(jql, Math.min(limit, MAX_PAGE_SIZE))) {
+      for (const ticket of page.tickets) {
+        yield ticket;
+        if (++count >= limit) {
+          return;
+        }
       }
+    }
+  }
+
+  /**
+   * Pages of the issues matching a JQL query, fetched as they are iterated
+   */
+  async *searchPages(jql: string, pageSize: number = 50): AsyncGenerator<TicketPage> {
+    let nextPageToken: string | undefined;
+    do {
+      const page = await this.fetchSearchPage(jql, pageSize, nextPageToken);
+      yield page;
+      nextPageToken = page.nextPageToken;
+    } while (nextPageToken);
+  }
+
+  // One page from /search/jql (token-based), or from /search (offset-based) where the former does not exist
+  private async fetchSearchPage(jql: string, pageSize: number, nextPageToken?: string): Promise<TicketPage> {
+    const maxResults = Math.max(1, Math.min(pageSize, MAX_PAGE_SIZE));
+
+    if (!this.useLegacySearch && await this.getDeployment() === 'cloud') {
+      try {
+        const response = await this.makeRequest(`${this.config.baseUrl}/rest/api/3/search/jql`, {
+          method: 'GET',
+          params: { jql, maxResults, fields: ISSUE_FIELDS, nextPageToken }
+        });
+        return {
+          tickets: (response.issues || []).map((issue: any) => this.mapToRecentTicket(issue)),
+          nextPageToken: response.isLast ? undefined : response.nextPageToken
+        };
+      } catch (error) {
+        if (nextPageToken || !(error instanceof Error && /^HTTP (404|405|410)\b/.test(error.message))) {
+          throw error;
+        }
+        this.useLegacySearch = true;
+      }
+    }
+
+    const startAt = nextPageToken ? Number(nextPageToken) : 0;
+    const response = await this.makeRequest(await this.apiUrl('/search'), {
+      method: 'GET',
+      params: { jql, startAt, maxResults, fields: ISSUE_FIELDS }
     });
+    const issues = response.issues || [];
+    const next = startAt + issues.length;
+    return {
+      tickets: issues.map((issue: any) => this.mapToRecentTicket(issue)),
+      nextPageToken: issues.length > 0 && next < (response.total ?? 0) ? String(next) : undefined
+    };
+  }
 
-    return (response.issues || []).map((issue: any) => this.mapToRecentTicket(issue));
+  /**
+   * Whether the site is Jira Cloud or Server/Data Center: as configured, otherwise as reported by
+   * `/rest/api/2/serverInfo`, which both answer
+   */
+  async getDeployment(): Promise<JiraDeployment> {
+    if (this.deployment) {
+      return this.deployment;
+    }
+
+    if (!this.deploymentDetection) {
+      this.deploymentDetection = this.detectDeployment();
+    }
+    const detected = await this.deploymentDetection;
+    if (detected) {
+      this.deployment = detected;
+      return detected;
+    }
+    // Detect again next time, e.g. once the site is reachable, and guess from the host meanwhile
+    this.deploymentDetection = undefined;
+    return /\.(atlassian\.net|jira\.com)$/i.test(this.getHostname()) ? 'cloud' : 'server';
+  }
+
+  private async detectDeployment(): Promise<JiraDeployment | undefined> {
+    try {
+      const info = await this.makeRequest(`${this.config.baseUrl}/rest/api/2/serverInfo`);
+      // 'Cloud', 'Server' or 'DataCenter'; Server versions before 7 leave it out
+      return info?.deploymentType === 'Cloud' ? 'cloud' : 'server';
+    } catch (error) {
+      console.warn('Could not detect the Jira deployment type:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  // REST API v3 on Cloud; Server/Data Center only has v2
+  private async apiUrl(path: string): Promise<string> {
+    const version = await this.getDeployment() === 'cloud' ? 3 : 2;
+    return `${this.config.baseUrl}/rest/api/${version}${path}`;
+  }
+
+  private getHostname(): string {
+    try {
+      return new URL(this.config.baseUrl || '').hostname;
+    } catch {
+      return '';
+    }
+  }
+
+  private textSearchJql(query: string): string {
+    const safe = query.replace(/"/g, '\\"');
+    return `text ~ "${safe}" ORDER BY updated DESC`;
   }
 
   // Get user's assigned tasks (core method)
@@ -502,9 +648,9 @@ export class JiraProvider extends BaseProvider {
   private extractDescription(description: any): string {
     if (!description) {return '';}
     
-    // If it's a string, return as-is
+    // REST API v2 (Server/Data Center) returns wiki markup
     if (typeof description === 'string') {
-      return description;
+      return wikiMarkupToMarkdown(description);
     }
     
     // If it's Atlassian Document Format (ADF), extract text content
@@ -560,13 +706,18 @@ export class JiraProvider extends BaseProvider {
     return text.trim();
   }
 
+  /**
+   * Jira Cloud takes `email:api-token` as Basic auth. Server/Data Center takes personal access tokens as
+   * Bearer tokens, and `username:password` as Basic auth.
+   */
   protected getAuthHeaders(): Record<string, string> {
     if (!this.config.token) {
       return {};
     }
 
+    const basic = this.deployment === 'cloud' || this.config.token.includes(':');
     return {
-      'Authorization': `Basic ${Buffer.from(this.config.token).toString('base64')}`,
+      'Authorization': basic ? `Basic ${Buffer.from(this.config.token).toString('base64')}` : `Bearer ${this.config.token}`,
       'Content-Type': 'application/json'
     };
   }
@@ -1,11 +1,11 @@
-import { BaseProvider } from './base';
+import { TicketTransition, WritableProvider, classifyWorkflowState } from './writable';
 import { RecentTicket, TaskGroup, ProjectGroup } from '../types';
 
 /**
  * Linear API provider for fetching issues and tasks
  * Uses Linear's GraphQL API for data retrieval
  */
-export class LinearProvider extends BaseProvider {
+export class LinearProvider extends WritableProvider {
   private readonly GRAPHQL_ENDPOINT = 'https://api.linear.app/graphql';
   private taskCache = new Map<string, { data: any; timestamp: number }>();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -122,6 +122,88 @@ export class LinearProvider extends BaseProvider {
     return this.mapToRecentTicket(response.data.issue);
   }
 
+  /**
+   * Add a markdown comment to an issue
+   */
+  async addComment(ticket: RecentTicket, markdown: string): Promise<string | undefined> {
+    const mutation = `
+      mutation CreateComment($issueId: String!, $body: String!) {
+        commentCreate(input: { issueId: $issueId, body: $body }) {
+          success
+          comment {
+            url
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(mutation, { issueId: ticket.id, body: markdown });
+    if (!response.data?.commentCreate?.success) {
+      throw new Error(`Linear did not create the comment on ${ticket.key}`);
+    }
+    return response.data.commentCreate.comment?.url;
+  }
+
+  /**
+   * Every workflow state of the issue's team other than its current one; Linear lets an issue move to any of them
+   */
+  async getTransitions(ticket: RecentTicket): Promise<TicketTransition[]> {
+    const query = `
+      query GetIssueStates($id: String!) {
+        issue(id: $id) {
+          state {
+            id
+          }
+          team {
+            states {
+              nodes {
+                id
+                name
+                type
+                position
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(query, { id: ticket.id });
+    const issue = response.data.issue;
+    return [...(issue.team?.states?.nodes || [])]
+      .filter((state: any) => state.id !== issue.state?.id)
+      .sort((a: any, b: any) => a.position - b.position)
+      .flatMap((state: any) => {
+        const stage = classifyWorkflowState(state.name, state.type);
+        return stage ? [{ id: state.id, name: state.name, stage }] : [];
+      });
+  }
+
+  async transitionTicket(ticket: RecentTicket, transition: TicketTransition): Promise<void> {
+    await this.updateIssue(ticket, { stateId: transition.id });
+  }
+
+  async assignToMe(ticket: RecentTicket): Promise<void> {
+    const response = await this.graphqlRequest('query { viewer { id } }');
+    await this.updateIssue(ticket, { assigneeId: response.data.viewer.id });
+  }
+
+  private async updateIssue(ticket: RecentTicket, input: { stateId?: string; assigneeId?: string }): Promise<void> {
+    const mutation = `
+      mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) {
+          success
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(mutation, { id: ticket.id, input });
+    if (!response.data?.issueUpdate?.success) {
+      throw new Error(`Linear did not update ${ticket.key}`);
+    }
+    this.taskCache.clear();
+  }
+
   /**
    * Get tasks grouped by status/workflow
    */
@@ -365,7 +447,7 @@ export class LinearProvider extends BaseProvider {
     return response;
   }
 
-  private mapToRecentTicket(issue: any): RecentTicket {
+  protected mapToRecentTicket(issue: any): RecentTicket {
     const priorityMap: Record<number, 'low' | 'medium' | 'high' | 'urgent'> = {
       0: 'low',     // None
       1: 'low',     // Low  
@@ -36,6 +36,7 @@ import {
   SlackUrlGenerator,
   SlackValidator
 } from '../utils/slackUtils';
+import { markdownToSlackMrkdwn } from '../commentFormat';
 
 /**
  * Slack provider implementation for retrieving and processing task-related messages
@@ -132,6 +133,38 @@ export class SlackProvider extends BaseProvider {
     throw new Error('getTicket not implemented for Slack - use search methods instead');
   }
 
+  /**
+   * Replies in the thread of the message a ticket was made from
+   * @param ticket - Ticket from this provider; its URL names the channel and its ID is the message timestamp
+   * @param markdown - Reply text, converted to Slack mrkdwn
+   * @returns Promise resolving to the reply's permalink, when Slack provides one
+   */
+  async addComment(ticket: RecentTicket, markdown: string): Promise<string | undefined> {
+    const channel = ticket.url.match(/^slack:\/\/channel\/([^/]+)\//)?.[1];
+    if (!channel || channel === 'unknown') {
+      throw new Error(SLACK_ERROR_MESSAGES.CHANNEL_NOT_FOUND);
+    }
+
+    const result = await this.client.chat.postMessage({
+      channel,
+      thread_ts: ticket.id,
+      text: markdownToSlackMrkdwn(markdown),
+      mrkdwn: true,
+      unfurl_links: false
+    });
+    if (!result.ok || !result.ts) {
+      throw new Error(`Slack did not post the reply: ${result.error || 'unknown error'}`);
+    }
+
+    try {
+      const link = await this.client.chat.getPermalink({ channel, message_ts: result.ts });
+      return link.permalink;
+    } catch (error) {
+      SlackLogger.warn('Could not get the reply permalink:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Retrieves recent task-related messages from Slack
    * @param limit - Maximum number of tasks to retrieve
@@ -0,0 +1,98 @@
+import { BaseProvider } from './base';
+import { RecentTicket } from '../types';
+
+/**
+ * Where a ticket is in its workflow, whatever the service calls the state
+ */
+export type WorkflowStage = 'todo' | 'inProgress' | 'inReview' | 'done';
+
+/**
+ * A state change a ticket can make from where it is now
+ */
+export interface TicketTransition {
+  /** Provider-specific: Jira transition ID, Linear workflow state ID, GitHub stage */
+  id: string;
+  /** Name of the state the ticket moves to */
+  name: string;
+  stage: WorkflowStage;
+}
+
+/**
+ * Provider that can update tickets as well as read them: move them through their workflow and assign them
+ */
+export abstract class WritableProvider extends BaseProvider {
+  /**
+   * List the transitions available to a ticket in its current state
+   * @param ticket Ticket previously returned by this provider
+   * @returns Promise resolving to the transitions, in the order the service lists them
+   */
+  abstract getTransitions(ticket: RecentTicket): Promise<TicketTransition[]>;
+
+  /**
+   * Move a ticket to another state
+   * @param ticket Ticket previously returned by this provider
+   * @param transition One of the transitions returned by `getTransitions` for the ticket
+   */
+  abstract transitionTicket(ticket: RecentTicket, transition: TicketTransition): Promise<void>;
+
+  /**
+   * Assign a ticket to the user whose credentials the provider uses
+   * @param ticket Ticket previously returned by this provider
+   */
+  abstract assignToMe(ticket: RecentTicket): Promise<void>;
+}
+
+export function isWritableProvider(provider: BaseProvider): provider is WritableProvider {
+  return provider instanceof WritableProvider;
+}
+
+const REVIEW_STATE = /review|qa|testing|verif/i;
+
+/**
+ * Place a workflow state in a stage from its name and the category the service gives it
+ * (Jira status category keys `new`/`indeterminate`/`done`, Linear state types `backlog`/`unstarted`/`started`/`completed`/`canceled`)
+ * @returns undefined for states that close a ticket without finishing it, such as cancelled
+ */
+export function classifyWorkflowState(name: string, category?: string): WorkflowStage | undefined {
+  switch (category?.toLowerCase()) {
+  case 'new':
+  case 'backlog':
+  case 'unstarted':
+  case 'triage':
+    return 'todo';
+  case 'indeterminate':
+  case 'started':
+    return REVIEW_STATE.test(name) ? 'inReview' : 'inProgress';
+  case 'done':
+  case 'completed':
+    return /cancel|won'?t|duplicate|reject|invalid/i.test(name) ? undefined : 'done';
+  case 'canceled':
+    return undefined;
+  }
+
+  if (/cancel|won'?t|duplicate|reject|invalid/i.test(name)) {
+    return undefined;
+  }
+  if (/done|closed|resolved|complete|fixed|shipped/i.test(name)) {
+    return 'done';
+  }
+  if (REVIEW_STATE.test(name)) {
+    return 'inReview';
+  }
+  return /progress|doing|develop|started|active/i.test(name) ? 'inProgress' : 'todo';
+}
+
+/**
+ * The transition to make to reach a stage: one whose name says it plainly ("In Progress", "In Review", "Done")
+ * if there is one, otherwise the first of the stage
+ */
+export function selectTransition(transitions: TicketTransition[], stage: WorkflowStage): TicketTransition | undefined {
+  const preferred: Record<WorkflowStage, RegExp> = {
+    todo: /^(to ?do|open)$/i,
+    inProgress: /^in progress$/i,
+    inReview: /^(in )?(code )?review$/i,
+    done: /^done$/i
+  };
+  const candidates = transitions.filter(transition => transition.stage === stage);
+  return candidates.find(transition => preferred[stage].test(transition.name.trim())) || candidates[0];
+}
@@ -0,0 +1,214 @@
+/**
+ * Plans as data: the JSON shape the model is asked for, its validation, the markdown it renders to,
+ * and the per-ticket checklist that tracks which steps are done
+ */
+
+import { ErrorFactory } from './utils/errorTypes';
+
+export interface PlanStep {
+  /** Stable within a plan; other steps refer to it in `dependencies` */
+  id: string;
+  title: string;
+  description: string;
+  /** Workspace paths the step creates or changes */
+  files: string[];
+  /** Free-form effort, e.g. "2h" or "1d" */
+  estimate?: string;
+  dependencies: string[];
+}
+
+export interface StructuredPlan {
+  overview: string;
+  steps: PlanStep[];
+  testing?: string[];
+  deployment?: string[];
+  risks?: string[];
+}
+
+export interface PlanChecklist {
+  ticket: string;
+  summary: string;
+  plan: StructuredPlan;
+  /** Ids of the steps checked off */
+  completed: string[];
+  /** The saved plan document, when there is one */
+  filePath?: string;
+  updatedAt: string;
+}
+
+/** JSON Schema of `StructuredPlan`, sent to backends that can constrain their output and quoted in the prompt */
+export const STRUCTURED_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    overview: { type: 'string' },
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          files: { type: 'array', items: { type: 'string' } },
+          estimate: { type: 'string' },
+          dependencies: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['id', 'title', 'description', 'files', 'dependencies']
+      }
+    },
+    testing: { type: 'array', items: { type: 'string' } },
+    deployment: { type: 'array', items: { type: 'string' } },
+    risks: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['overview', 'steps']
+};
+
+/**
+ * Check a parsed value against `STRUCTURED_PLAN_SCHEMA`
+ * @returns one message per problem, e.g. `steps[2].files must be an array of strings`; empty when valid
+ */
+export function validateStructuredPlan(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return ['the plan must be a JSON object'];
+  }
+
+  if (typeof value.overview !== 'string') {
+    errors.push('overview must be a string');
+  }
+  for (const key of ['testing', 'deployment', 'risks']) {
+    if (value[key] !== undefined && !isStringArray(value[key])) {
+      errors.push(`${key} must be an array of strings`);
+    }
+  }
+
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  value.steps.forEach((step: unknown, index: number) => {
+    const where = `steps[${index}]`;
+    if (!isObject(step)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    for (const key of ['id', 'title', 'description']) {
+      if (typeof step[key] !== 'string' || !(step[key] as string).trim()) {
+        errors.push(`${where}.${key} must be a non-empty string`);
+      }
+    }
+    for (const key of ['files', 'dependencies']) {
+      if (!isStringArray(step[key])) {
+        errors.push(`${where}.${key} must be an array of strings`);
+      }
+    }
+    if (step.estimate !== undefined && typeof step.estimate !== 'string') {
+      errors.push(`${where}.estimate must be a string`);
+    }
+    if (typeof step.id === 'string') {
+      if (ids.has(step.id)) {
+        errors.push(`${where}.id "${step.id}" is used by another step`);
+      }
+      ids.add(step.id);
+    }
+  });
+
+  value.steps.forEach((step: unknown, index: number) => {
+    if (isObject(step) && isStringArray(step.dependencies)) {
+      for (const dependency of step.dependencies.filter(id => !ids.has(id))) {
+        errors.push(`steps[${index}].dependencies refers to unknown step "${dependency}"`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Read a structured plan from a model answer, which may wrap the JSON in a code fence or add prose around it
+ * @throws INVALID_RESPONSE listing what does not match the schema
+ */
+export function parseStructuredPlan(text: string): StructuredPlan {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  const candidate = fenced ? fenced[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(candidate);
+  } catch (error) {
+    throw ErrorFactory.invalidResponse('StructuredPlan', `the plan is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  const errors = validateStructuredPlan(value);
+  if (errors.length > 0) {
+    throw ErrorFactory.invalidResponse('StructuredPlan', errors.join('; '));
+  }
+  return value as StructuredPlan;
+}
+
+/**
+ * Markdown for a structured plan, with steps as a task list checked from `completed`
+ */
+export function renderStructuredPlan(plan: StructuredPlan, completed: string[] = []): string {
+  const done = new Set(completed);
+  const numbers = new Map(plan.steps.map((step, index) => [step.id, index + 1]));
+  const sections = ['## 📋 Implementation Plan', '### Overview', plan.overview.trim(), '### Implementation Steps'];
+
+  sections.push(plan.steps.map((step, index) => {
+    const lines = [`- [${done.has(step.id) ? 'x' : ' '}] **${index + 1}. ${step.title}**${step.estimate ? ` _(${step.estimate})_` : ''}`];
+    lines.push(...step.description.trim().split('\n').map(line => `  ${line}`.trimEnd()));
+    if (step.files.length > 0) {
+      lines.push(`  - Files: ${step.files.map(file => `\`${file}\``).join(', ')}`);
+    }
+    if (step.dependencies.length > 0) {
+      lines.push(`  - Depends on: ${step.dependencies.map(id => numbers.has(id) ? `step ${numbers.get(id)}` : id).join(', ')}`);
+    }
+    return lines.join('\n');
+  }).join('\n'));
+
+  const lists: Array<[string, string[] | undefined]> = [
+    ['Testing Strategy', plan.testing],
+    ['Deployment Plan', plan.deployment],
+    ['Risks and Considerations', plan.risks]
+  ];
+  for (const [title, items] of lists) {
+    if (items && items.length > 0) {
+      sections.push(`### ${title}`, items.map(item => `- ${item}`).join('\n'));
+    }
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * A checklist for a new plan of a ticket; steps kept from the previous plan (same id and title) stay checked
+ */
+export function createChecklist(
+  ticket: { key: string; summary: string },
+  plan: StructuredPlan,
+  previous?: PlanChecklist,
+  filePath?: string
+): PlanChecklist {
+  const previousTitles = new Map((previous?.plan.steps || []).map(step => [step.id, step.title]));
+  const completed = (previous?.completed || []).filter(id =>
+    plan.steps.some(step => step.id === id && step.title === previousTitles.get(id))
+  );
+
+  return {
+    ticket: ticket.key,
+    summary: ticket.summary,
+    plan,
+    completed,
+    filePath,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,76 @@
+/**
+ * Compact outlines of source files built from language-server document symbols
+ * Kept free of VS Code imports: callers map `vscode.DocumentSymbol` into `OutlineSymbol`.
+ */
+
+export interface OutlineSymbol {
+  name: string;
+  /** Name of the `vscode.SymbolKind` member, e.g. "Class" or "Method" */
+  kind: string;
+  /** Zero-based line of the symbol's name */
+  line: number;
+  children: OutlineSymbol[];
+}
+
+/** Declarations worth listing at any depth */
+const DECLARATION_KINDS = new Set([
+  'Module', 'Namespace', 'Package', 'Class', 'Interface', 'Enum', 'Struct', 'Function', 'Method', 'Constructor',
+  'TypeParameter'
+]);
+/** Listed on top-level declarations only; deeper ones are locals */
+const TOP_LEVEL_KINDS = new Set(['Constant', 'Variable']);
+/** Listed inside types only */
+const MEMBER_KINDS = new Set(['Property', 'Field', 'EnumMember']);
+const CONTAINER_KINDS = new Set(['Class', 'Interface', 'Enum', 'Struct']);
+const MAX_SIGNATURE_LENGTH = 160;
+
+/**
+ * Render symbols as their declaration lines, indented by nesting, e.g.
+ * `export class Store` followed by `  async load(key: string): Promise<string>`
+ * @param content the file the symbols were read from, to take the signatures from
+ */
+export function formatSymbolOutline(symbols: OutlineSymbol[], content: string): string {
+  const lines = content.split('\n');
+  const output: string[] = [];
+
+  const visit = (symbol: OutlineSymbol, depth: number, parentKind?: string) => {
+    const listed = DECLARATION_KINDS.has(symbol.kind)
+      || (TOP_LEVEL_KINDS.has(symbol.kind) && depth === 0)
+      || (MEMBER_KINDS.has(symbol.kind) && parentKind !== undefined && CONTAINER_KINDS.has(parentKind));
+    if (!listed) {
+      return;
+    }
+
+    output.push('  '.repeat(depth) + toSignature(lines[symbol.line], symbol.name));
+    // Functions' children are locals; only types and modules have members worth listing
+    if (!['Function', 'Method', 'Constructor'].includes(symbol.kind)) {
+      for (const child of sortByLine(symbol.children)) {
+        visit(child, depth + 1, symbol.kind);
+      }
+    }
+  };
+
+  for (const symbol of sortByLine(symbols)) {
+    visit(symbol, 0);
+  }
+  return output.join('\n');
+}
+
+function sortByLine(symbols: OutlineSymbol[]): OutlineSymbol[] {
+  return [...symbols].sort((a, b) => a.line - b.line);
+}
+
+/**
+ * The declaration line without its body, or the bare name when the line does not contain it
+ * (e.g. decorators or symbols reported on a line of their own)
+ */
+function toSignature(line: string | undefined, name: string): string {
+  const signature = (line || '')
+    .trim()
+    .replace(/\s*\{\s*\}?$/, '')
+    .replace(/[;:,]$/, '');
+  if (!signature.includes(name)) {
+    return name;
+  }
+  return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.slice(0, MAX_SIGNATURE_LENGTH)}...` : signature;
+}
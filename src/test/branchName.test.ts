@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { formatBranchName, sanitizeBranchName, slugify, validateBranchName } from '../branchName';
+
+function gitAccepts(branch: string): boolean {
+  try {
+    execFileSync('git', ['check-ref-format', '--branch', branch], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+suite('Branch Name Tests', () => {
+  test('should turn summaries into short slugs', () => {
+    assert.strictEqual(slugify('Add OAuth login (Google & GitHub)!'), 'add-oauth-login-google-github');
+    assert.strictEqual(slugify('Réparer le café'), 'reparer-le-cafe');
+    assert.strictEqual(slugify('Support exporting very large reports to CSV and Excel files', 30), 'support-exporting-very-large');
+  });
+
+  test('should fill in the branch template', () => {
+    const ticket = { key: 'PROJ-42', summary: 'Fix: the "login" page', provider: 'jira' as const };
+
+    assert.strictEqual(formatBranchName('feature/{key}-{slug}', ticket), 'feature/PROJ-42-fix-the-login-page');
+    assert.strictEqual(formatBranchName('{provider}/{key}', { ...ticket, key: '#7', provider: 'github' }), 'github/7');
+    assert.strictEqual(formatBranchName('{user}/{key}', ticket), 'user/PROJ-42');
+  });
+
+  test('should only produce names git accepts', () => {
+    const names = ['feature/a..b', 'feature/.hidden/x.lock', 'fix:this ~now^?', '-leading/trailing.', 'a//b/'];
+
+    for (const name of names) {
+      const sanitized = sanitizeBranchName(name);
+      assert.ok(gitAccepts(sanitized), `${name} -> ${sanitized}`);
+      assert.strictEqual(validateBranchName(sanitized), undefined);
+    }
+    assert.ok(validateBranchName('feature/a..b')?.includes('feature/a.b'));
+    assert.strictEqual(validateBranchName(' '), 'Enter a branch name');
+  });
+});
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { COMMENT_LENGTHS, markdownToADF, markdownToJiraWiki, markdownToSlackMrkdwn, truncateComment } from '../commentFormat';
+
+suite('Comment Format Tests', () => {
+  test('should convert headings, paragraphs and inline marks to ADF', () => {
+    const document = markdownToADF('## Overview\n\nAdd **login** to `auth.ts`,\nsee [docs](https://example.com).');
+
+    assert.deepStrictEqual(document.content, [
+      { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Overview' }] },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Add ' },
+          { type: 'text', text: 'login', marks: [{ type: 'strong' }] },
+          { type: 'text', text: ' to ' },
+          { type: 'text', text: 'auth.ts', marks: [{ type: 'code' }] },
+          { type: 'text', text: ', see ' },
+          { type: 'text', text: 'docs', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+          { type: 'text', text: '.' }
+        ]
+      }
+    ]);
+  });
+
+  test('should nest lists and keep code blocks and task items', () => {
+    const document = markdownToADF([
+      '- [x] **1. Add the endpoint**',
+      '  POST /login',
+      '  - Files: `src/auth.ts`',
+      '- [ ] **2. Build the form**',
+      '',
+      '```ts',
+      'login();',
+      '```'
+    ].join('\n'));
+
+    const [list, code] = document.content;
+    assert.strictEqual(list.type, 'bulletList');
+    assert.strictEqual(list.content!.length, 2);
+
+    const [first, second] = list.content!;
+    assert.deepStrictEqual(first.content!.map(node => node.type), ['paragraph', 'paragraph', 'bulletList']);
+    assert.deepStrictEqual(first.content![0].content![0], { type: 'text', text: '☑ ' });
+    assert.deepStrictEqual(second.content![0].content![0], { type: 'text', text: '☐ ' });
+    assert.deepStrictEqual(code, { type: 'codeBlock', attrs: { language: 'ts' }, content: [{ type: 'text', text: 'login();' }] });
+  });
+
+  test('should keep lists and code blocks inside quotes', () => {
+    const document = markdownToADF([
+      '> ### Note',
+      '> Run the migration first:',
+      '> - `npm run migrate`',
+      '> ```sh',
+      '> npm test',
+      '> ```'
+    ].join('\n'));
+
+    const [quote] = document.content;
+    assert.strictEqual(quote.type, 'blockquote');
+    assert.deepStrictEqual(quote.content!.map(node => node.type), ['paragraph', 'paragraph', 'bulletList', 'codeBlock']);
+    assert.deepStrictEqual(quote.content![3].content, [{ type: 'text', text: 'npm test' }]);
+  });
+
+  test('should rewrite markdown as Slack mrkdwn', () => {
+    const mrkdwn = markdownToSlackMrkdwn('### Steps\n- [ ] **Add** the *form* at [docs](https://example.com)\n```ts\n**kept**\n```');
+
+    assert.strictEqual(mrkdwn, '*Steps*\n☐ *Add* the _form_ at <https://example.com|docs>\n```\n**kept**\n```');
+  });
+
+  test('should rewrite markdown as Jira wiki markup', () => {
+    const wiki = markdownToJiraWiki([
+      '## Steps',
+      '1. **Add** the *form*',
+      '   - [x] see [docs](https://example.com) and `auth.ts`',
+      '',
+      '| File | Change |',
+      '| --- | --- |',
+      '| a.ts | new |',
+      '```ts',
+      '**kept**',
+      '```'
+    ].join('\n'));
+
+    assert.strictEqual(wiki, [
+      'h2. Steps',
+      '# *Add* the _form_',
+      '** ☑ see [docs|https://example.com] and {{auth.ts}}',
+      '',
+      '||File||Change||',
+      '|a.ts|new|',
+      '{code:ts}',
+      '**kept**',
+      '{code}'
+    ].join('\n'));
+  });
+
+  test('should cut long comments on a line and close an open code fence', () => {
+    const markdown = ['Intro', '```', ...Array.from({ length: 50 }, (_, index) => `line ${index}`), '```'].join('\n');
+
+    assert.deepStrictEqual(truncateComment('short', 100, 'cut'), { text: 'short', truncated: false });
+
+    const { text, truncated } = truncateComment(markdown, 120, '_Shortened._');
+    assert.ok(truncated);
+    assert.ok(text.length <= 120);
+    assert.ok(/\nline \d+\n```\n\n_Shortened\._$/.test(text), text);
+  });
+
+  test('should measure the limit on the converted comment', () => {
+    // Every line triples in length once Slack escapes it
+    const markdown = Array.from({ length: 40 }, (_, index) => `${index} <> ${index}`).join('\n');
+    assert.ok(markdown.length <= 400);
+
+    const { text, truncated } = truncateComment(markdown, 400, '_Shortened._', COMMENT_LENGTHS.slack);
+    assert.ok(truncated);
+    assert.ok(markdownToSlackMrkdwn(text).length <= 400);
+    assert.ok(markdownToSlackMrkdwn(text).length > 300, text);
+    assert.ok(text.endsWith('\n\n_Shortened._'), text);
+  });
+});
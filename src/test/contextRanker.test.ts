@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { extractOutline, extractQueryTerms, extractSymbols, rankDocuments, resolveImports, tokenize } from '../contextRanker';
+
+suite('Context Ranker Tests', () => {
+  test('should split identifiers into words and keep compounds whole', () => {
+    assert.deepStrictEqual(tokenize('buildContextFromFiles'), ['build', 'context', 'files', 'buildcontextfromfiles']);
+    assert.deepStrictEqual(tokenize('MAX_CONTEXT_SIZE'), ['max', 'context', 'size', 'maxcontextsize']);
+    assert.deepStrictEqual(tokenize('task-queue.ts'), ['task', 'queue', 'taskqueue']);
+    assert.deepStrictEqual(tokenize('parseJSONResponse'), ['parse', 'json', 'response', 'parsejsonresponse']);
+  });
+
+  test('should extract distinct ticket terms without stopwords', () => {
+    const terms = extractQueryTerms(
+      'Retry failed webhook deliveries',
+      'When the webhook endpoint returns 500 we should retry with backoff in WebhookDispatcher.'
+    );
+
+    assert.ok(terms.includes('webhook'));
+    assert.ok(terms.includes('backoff'));
+    assert.ok(terms.includes('webhookdispatcher'));
+    assert.ok(!terms.includes('the'));
+    assert.ok(!terms.includes('should'));
+    assert.strictEqual(terms.filter(term => term === 'retry').length, 1);
+  });
+
+  test('should extract declared symbols', () => {
+    const symbols = extractSymbols([
+      'export class WebhookDispatcher {}',
+      'export interface DeliveryOptions {}',
+      'function scheduleRetry() {}',
+      'const MAX_ATTEMPTS = 5;',
+      'def send_payload(payload):'
+    ].join('\n'));
+
+    assert.deepStrictEqual(symbols, ['WebhookDispatcher', 'DeliveryOptions', 'scheduleRetry', 'MAX_ATTEMPTS', 'send_payload']);
+  });
+
+  test('should outline a file by its declarations', () => {
+    const outline = extractOutline([
+      'import * as fs from \'fs\';',
+      '',
+      'export class Store {',
+      '  private readonly cache = new Map();',
+      '  async load(key: string) {',
+      '    return fs.promises.readFile(key);',
+      '  }',
+      '}',
+      'export async function open(path: string): Promise<Store> {',
+      '  const store = new Store();',
+      '  return store;',
+      '}'
+    ].join('\n'));
+
+    assert.strictEqual(outline, [
+      'export class Store',
+      '  private readonly cache = new Map();',
+      '  async load(key: string)',
+      'export async function open(path: string): Promise<Store>'
+    ].join('\n'));
+  });
+
+  test('should rank files that match the ticket above unrelated ones', () => {
+    const documents = [
+      { path: 'src/aardvark.ts', content: 'export const aardvark = 1;' },
+      { path: 'src/billing/invoice.ts', content: 'export class Invoice { total() { return 0; } }' },
+      { path: 'src/webhooks/dispatcher.ts', content: 'export class WebhookDispatcher { deliver() { /* retry later */ } }' },
+      { path: 'src/util/log.ts', content: 'export function log(message: string) { console.log(message); } // webhook' }
+    ];
+
+    const ranked = rankDocuments(documents, extractQueryTerms('Retry failed webhook deliveries in the dispatcher'));
+
+    assert.strictEqual(ranked[0].path, 'src/webhooks/dispatcher.ts');
+    assert.ok(ranked[0].matchedTerms.includes('webhook'));
+    assert.ok(ranked.every(document => document.path !== 'src/aardvark.ts' && document.path !== 'src/billing/invoice.ts'));
+    assert.ok(ranked[0].score > ranked[ranked.length - 1].score);
+  });
+
+  test('should weight path and symbol matches above content mentions', () => {
+    const documents = [
+      { path: 'src/notes.ts', content: '// invoice invoice' },
+      { path: 'src/invoice.ts', content: 'export const total = 0;' },
+      { path: 'src/other.ts', content: 'export const other = 0;' }
+    ];
+
+    const ranked = rankDocuments(documents, ['invoice']);
+    assert.deepStrictEqual(ranked.map(document => document.path), ['src/invoice.ts', 'src/notes.ts']);
+  });
+
+  test('should return nothing without query terms', () => {
+    assert.deepStrictEqual(rankDocuments([{ path: 'a.ts', content: 'x' }], []), []);
+  });
+
+  test('should resolve relative JavaScript and TypeScript imports', () => {
+    const known = new Set(['src/a.ts', 'src/b.ts', 'src/lib/index.ts', 'src/util.js', 'shared/types.ts']);
+    const content = [
+      'import { b } from \'./b\';',
+      'import * as lib from "./lib";',
+      'const util = require(\'./util.js\');',
+      'export { Types } from \'../shared/types\';',
+      'import axios from \'axios\';',
+      'import { missing } from \'./missing\';'
+    ].join('\n');
+
+    assert.deepStrictEqual(resolveImports('src/a.ts', content, known).sort(), ['shared/types.ts', 'src/b.ts', 'src/lib/index.ts', 'src/util.js']);
+  });
+
+  test('should resolve relative Python imports', () => {
+    const known = new Set(['app/api/views.py', 'app/api/serializers.py', 'app/models.py', 'app/api/helpers.py']);
+    const content = [
+      'from .serializers import OrderSerializer',
+      'from ..models import Order',
+      'from . import helpers',
+      'import os'
+    ].join('\n');
+
+    assert.deepStrictEqual(resolveImports('app/api/views.py', content, known).sort(), ['app/api/helpers.py', 'app/api/serializers.py', 'app/models.py']);
+  });
+});
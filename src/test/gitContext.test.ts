@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { collectGitContext, formatGitContext, parseLog, parseNameStatus, ticketKeyPattern } from '../gitContext';
+import { GitContext } from '../types';
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+}
+
+suite('Git Context Tests', () => {
+  test('should match ticket keys as whole words only', () => {
+    assert.ok(ticketKeyPattern('PROJ-12').test('PROJ-12: fix login'));
+    assert.ok(ticketKeyPattern('PROJ-12').test('fix login (proj-12)'));
+    assert.ok(!ticketKeyPattern('PROJ-12').test('PROJ-123: other work'));
+    assert.ok(ticketKeyPattern('#4').test('Closes #4.'));
+    assert.ok(!ticketKeyPattern('#4').test('Closes #42'));
+  });
+
+  test('should parse name-status output with renames', () => {
+    const changes = parseNameStatus('M\tsrc/a.ts\nR087\tsrc/old.ts\tsrc/new.ts\nA\tdocs/b.md\n');
+
+    assert.deepStrictEqual(changes, [
+      { status: 'M', path: 'src/a.ts' },
+      { status: 'R', path: 'src/new.ts' },
+      { status: 'A', path: 'docs/b.md' }
+    ]);
+  });
+
+  test('should parse log records with multi-line bodies', () => {
+    const output = 'abc1234\x1fAda\x1f2024-05-01\x1fAdd login\x1fRefs PROJ-1\n\nMore text\n\x1e\n'
+      + 'def5678\x1fBob\x1f2024-05-02\x1fFix typo\x1f\x1e\n';
+
+    const commits = parseLog(output);
+    assert.strictEqual(commits.length, 2);
+    assert.deepStrictEqual(commits[0], { hash: 'abc1234', author: 'Ada', date: '2024-05-01', subject: 'Add login', body: 'Refs PROJ-1\n\nMore text' });
+    assert.strictEqual(commits[1].body, '');
+  });
+
+  test('should keep the summary and cut the diff to the token budget', () => {
+    const context: GitContext = {
+      folder: 'app',
+      branch: 'feature/login',
+      baseRef: 'main',
+      branchChanges: [{ status: 'M', path: 'src/auth.ts' }],
+      ticketCommits: [{ hash: 'abc1234', author: 'Ada', date: '2024-05-01', subject: 'PROJ-1 start login' }],
+      uncommittedChanges: [{ status: 'M', path: 'src/auth.ts' }],
+      uncommittedDiff: Array.from({ length: 500 }, (_, i) => `+const line${i} = ${i};`).join('\n'),
+      fileHistory: []
+    };
+
+    const formatted = formatGitContext(context, 200, 'app/');
+    assert.ok(formatted.includes('branch feature/login (compared with main)'));
+    assert.ok(formatted.includes('- M app/src/auth.ts'));
+    assert.ok(formatted.includes('abc1234 2024-05-01 Ada: PROJ-1 start login'));
+    assert.ok(formatted.includes('```diff\n+const line0 = 0;'));
+    assert.ok(!formatted.includes('line499'));
+  });
+
+  test('should return nothing outside a git repository', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aiplan-nogit-'));
+    try {
+      assert.strictEqual(await collectGitContext(dir), undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should read branch changes, ticket commits and uncommitted work from a local repository', async function () {
+    this.timeout(20000);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aiplan-git-'));
+    try {
+      git(dir, 'init', '--quiet', '--initial-branch=main');
+      fs.writeFileSync(path.join(dir, 'auth.ts'), 'export const user = 1;\n');
+      fs.writeFileSync(path.join(dir, 'readme.md'), '# App\n');
+      git(dir, 'add', '.');
+      git(dir, 'commit', '--quiet', '-m', 'Initial commit');
+      git(dir, 'checkout', '--quiet', '-b', 'feature/proj-7');
+      fs.writeFileSync(path.join(dir, 'auth.ts'), 'export const user = 2;\n');
+      git(dir, 'commit', '--quiet', '-am', 'PROJ-7 change the user');
+      git(dir, 'commit', '--quiet', '--allow-empty', '-m', 'PROJ-70 unrelated');
+      fs.writeFileSync(path.join(dir, 'readme.md'), '# App\n\nLogin flow\n');
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'todo\n');
+
+      const context = await collectGitContext(dir, { folder: 'app', ticketKey: 'PROJ-7', files: ['auth.ts'] });
+
+      assert.ok(context);
+      assert.strictEqual(context.branch, 'feature/proj-7');
+      assert.strictEqual(context.baseRef, 'main');
+      assert.deepStrictEqual(context.branchChanges, [{ status: 'M', path: 'auth.ts' }]);
+      assert.deepStrictEqual(context.ticketCommits.map(commit => commit.subject), ['PROJ-7 change the user']);
+      assert.deepStrictEqual(context.uncommittedChanges, [{ status: 'M', path: 'readme.md' }, { status: '?', path: 'notes.txt' }]);
+      assert.ok(context.uncommittedDiff.includes('+Login flow'));
+      assert.deepStrictEqual(context.fileHistory[0].commits.map(commit => commit.subject), ['PROJ-7 change the user', 'Initial commit']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should leave ignored files out of the file lists and the diff', async function () {
+    this.timeout(20000);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aiplan-git-'));
+    try {
+      git(dir, 'init', '--quiet', '--initial-branch=main');
+      fs.writeFileSync(path.join(dir, 'app.ts'), 'export const a = 1;\n');
+      fs.mkdirSync(path.join(dir, 'secrets'));
+      fs.writeFileSync(path.join(dir, 'secrets', 'keys.json'), '{}\n');
+      git(dir, 'add', '.');
+      git(dir, 'commit', '--quiet', '-m', 'Initial commit');
+      fs.writeFileSync(path.join(dir, 'app.ts'), 'export const a = 2;\n');
+      fs.writeFileSync(path.join(dir, 'secrets', 'keys.json'), '{"token": "hunter2"}\n');
+      fs.writeFileSync(path.join(dir, 'secrets', 'new.json'), '{}\n');
+
+      const context = await collectGitContext(dir, { isIgnored: relativePath => relativePath.startsWith('secrets/') });
+
+      assert.ok(context);
+      assert.deepStrictEqual(context.uncommittedChanges, [{ status: 'M', path: 'app.ts' }]);
+      assert.ok(context.uncommittedDiff.includes('+export const a = 2;'));
+      assert.ok(!context.uncommittedDiff.includes('hunter2'));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
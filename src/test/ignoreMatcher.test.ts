@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import { IgnoreMatcher, parseIgnoreFile, patternToRegExp } from '../ignoreMatcher';
+
+function matcher(content: string): IgnoreMatcher {
+  return IgnoreMatcher.create().withRules(content);
+}
+
+suite('Ignore Matcher Tests', () => {
+  test('should skip blank lines and comments, and honor escapes', () => {
+    const rules = parseIgnoreFile('\n# comment\n\\#notes.txt\n\\!important.md\n   \nbuild\n');
+
+    assert.strictEqual(rules.length, 3);
+    assert.ok(matcher('\\#notes.txt').ignores('#notes.txt'));
+    assert.ok(matcher('\\!important.md').ignores('!important.md'));
+    assert.ok(!matcher('# notes.txt').ignores('notes.txt'));
+  });
+
+  test('should trim unescaped trailing spaces only', () => {
+    assert.ok(matcher('debug.log   ').ignores('debug.log'));
+    assert.ok(matcher('name\\ ').ignores('name '));
+    assert.ok(!matcher('name\\ ').ignores('name'));
+  });
+
+  test('should match whole path segments, not substrings', () => {
+    const m = matcher('out\n');
+
+    assert.ok(m.ignores('out', true));
+    assert.ok(m.ignores('out/extension.js'));
+    assert.ok(m.ignores('packages/app/out', true));
+    assert.ok(!m.ignores('src/layout.ts'));
+    assert.ok(!m.ignores('src/output.ts'));
+    assert.ok(!m.ignores('about/index.ts'));
+  });
+
+  test('should match patterns without a slash at any depth', () => {
+    const m = matcher('*.log\n');
+
+    assert.ok(m.ignores('debug.log'));
+    assert.ok(m.ignores('logs/2024/app.log'));
+    assert.ok(!m.ignores('debug.log.ts'));
+    assert.ok(!m.ignores('catalog.ts'));
+  });
+
+  test('should anchor patterns with a leading or middle slash', () => {
+    const leading = matcher('/build\n');
+    assert.ok(leading.ignores('build', true));
+    assert.ok(!leading.ignores('src/build', true));
+
+    const middle = matcher('docs/generated\n');
+    assert.ok(middle.ignores('docs/generated', true));
+    assert.ok(middle.ignores('docs/generated/api.md'));
+    assert.ok(!middle.ignores('packages/docs/generated', true));
+  });
+
+  test('should apply trailing-slash patterns to directories only', () => {
+    const m = matcher('cache/\n');
+
+    assert.ok(m.ignores('cache', true));
+    assert.ok(m.ignores('cache/data.json'));
+    assert.ok(m.ignores('lib/cache', true));
+    assert.ok(!m.ignores('cache'));
+    assert.ok(!m.ignores('lib/cache'));
+  });
+
+  test('should keep "*" and "?" inside one path segment', () => {
+    const m = matcher('src/*.js\nfile?.txt\n');
+
+    assert.ok(m.ignores('src/index.js'));
+    assert.ok(!m.ignores('src/lib/index.js'));
+    assert.ok(m.ignores('file1.txt'));
+    assert.ok(!m.ignores('file10.txt'));
+    assert.ok(!m.ignores('file/.txt'));
+  });
+
+  test('should support "**" at the start, middle and end', () => {
+    const leading = matcher('**/fixtures\n');
+    assert.ok(leading.ignores('fixtures', true));
+    assert.ok(leading.ignores('src/test/fixtures', true));
+
+    const middle = matcher('a/**/b\n');
+    assert.ok(middle.ignores('a/b', true));
+    assert.ok(middle.ignores('a/x/b', true));
+    assert.ok(middle.ignores('a/x/y/b', true));
+    assert.ok(!middle.ignores('c/a/b', true));
+
+    const trailing = matcher('vendor/**\n');
+    assert.ok(trailing.ignores('vendor/lib/index.js'));
+    assert.ok(!trailing.ignores('vendor', true), '"vendor/**" matches the contents, not the directory');
+  });
+
+  test('should support character classes and their negation', () => {
+    const m = matcher('*.[oa]\nlog[!s].txt\n');
+
+    assert.ok(m.ignores('main.o'));
+    assert.ok(m.ignores('lib.a'));
+    assert.ok(!m.ignores('main.c'));
+    assert.ok(m.ignores('log1.txt'));
+    assert.ok(!m.ignores('logs.txt'));
+  });
+
+  test('should re-include files with negation, last rule winning', () => {
+    const m = matcher('*.js\n!keep.js\n');
+
+    assert.ok(m.ignores('drop.js'));
+    assert.ok(!m.ignores('keep.js'));
+    assert.ok(!m.ignores('src/keep.js'));
+    assert.ok(matcher('!keep.js\n*.js\n').ignores('keep.js'));
+  });
+
+  test('should not re-include a file inside an excluded directory', () => {
+    const m = matcher('dist/\n!dist/keep.js\n');
+
+    assert.ok(m.ignores('dist/keep.js'));
+    assert.ok(!matcher('dist/*\n!dist/keep.js\n').ignores('dist/keep.js'));
+  });
+
+  test('should scope nested ignore files to their directory and let them override parents', () => {
+    const m = IgnoreMatcher.create()
+      .withRules('*.generated.ts\n')
+      .withRules('/tmp\n!api.generated.ts\n', 'packages/client');
+
+    assert.ok(m.ignores('src/types.generated.ts'));
+    assert.ok(m.ignores('packages/client/models.generated.ts'));
+    assert.ok(!m.ignores('packages/client/api.generated.ts'));
+    assert.ok(m.ignores('packages/client/tmp', true));
+    assert.ok(!m.ignores('tmp', true));
+    assert.ok(!m.ignores('packages/server/tmp', true));
+  });
+
+  test('should evaluate overrides after every other rule', () => {
+    const m = IgnoreMatcher.create()
+      .withOverrides('!*.snap\nsecrets/\n')
+      .withRules('*.snap\n')
+      .withRules('*.snap\n', 'src');
+
+    assert.ok(!m.ignores('src/__snapshots__/a.snap'));
+    assert.ok(m.ignores('config/secrets', true));
+  });
+
+  test('should always skip node_modules and .git directories', () => {
+    const m = matcher('!node_modules\n!.git/\n');
+
+    assert.ok(m.ignores('node_modules', true));
+    assert.ok(m.ignores('packages/app/node_modules/react/index.js'));
+    assert.ok(m.ignores('.git', true));
+    assert.ok(!m.ignores('src/node_modules.ts'));
+  });
+
+  test('should escape regular expression characters in patterns', () => {
+    assert.ok(patternToRegExp('a+b.(c)').test('a+b.(c)'));
+    assert.ok(!patternToRegExp('a+b.(c)').test('aab.(c)'));
+    assert.ok(!patternToRegExp('file.ts').test('file_ts'));
+  });
+});
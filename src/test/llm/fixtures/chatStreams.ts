@@ -0,0 +1,55 @@
+/**
+ * Chat completion streams recorded from real servers (ids and timestamps shortened)
+ */
+
+/** OpenRouter: keep-alive comments, role-only first chunk, usage on the last chunk */
+export const OPENROUTER_STREAM = [
+  ': OPENROUTER PROCESSING',
+  '',
+  ': OPENROUTER PROCESSING',
+  '',
+  'data: {"id":"gen-1","provider":"Anthropic","model":"anthropic/claude-3-sonnet","object":"chat.completion.chunk","created":1718000000,"choices":[{"index":0,"delta":{"role":"assistant","content":""},"finish_reason":null}]}',
+  '',
+  'data: {"id":"gen-1","provider":"Anthropic","model":"anthropic/claude-3-sonnet","object":"chat.completion.chunk","created":1718000000,"choices":[{"index":0,"delta":{"role":"assistant","content":"## 📋 Implementation"},"finish_reason":null}]}',
+  '',
+  'data: {"id":"gen-1","provider":"Anthropic","model":"anthropic/claude-3-sonnet","object":"chat.completion.chunk","created":1718000000,"choices":[{"index":0,"delta":{"role":"assistant","content":" Plan\\n\\n### Overview"},"finish_reason":null}]}',
+  '',
+  'data: {"id":"gen-1","provider":"Anthropic","model":"anthropic/claude-3-sonnet","object":"chat.completion.chunk","created":1718000000,"choices":[{"index":0,"delta":{"role":"assistant","content":""},"finish_reason":"stop"}],"usage":{"prompt_tokens":812,"completion_tokens":9,"total_tokens":821}}',
+  '',
+  'data: [DONE]',
+  '',
+  ''
+].join('\n');
+
+export const OPENROUTER_STREAM_CONTENT = '## 📋 Implementation Plan\n\n### Overview';
+
+/** vLLM with stream_options.include_usage: CRLF line endings and a usage-only chunk with empty choices */
+export const VLLM_STREAM = [
+  'data: {"id":"cmpl-7","object":"chat.completion.chunk","created":1718000001,"model":"meta-llama/Llama-3.1-8B-Instruct","choices":[{"index":0,"delta":{"role":"assistant"},"logprobs":null,"finish_reason":null}]}',
+  '',
+  'data: {"id":"cmpl-7","object":"chat.completion.chunk","created":1718000001,"model":"meta-llama/Llama-3.1-8B-Instruct","choices":[{"index":0,"delta":{"content":"Step 1:"},"logprobs":null,"finish_reason":null}]}',
+  '',
+  'data: {"id":"cmpl-7","object":"chat.completion.chunk","created":1718000001,"model":"meta-llama/Llama-3.1-8B-Instruct","choices":[{"index":0,"delta":{"content":" add tests"},"logprobs":null,"finish_reason":"stop"}]}',
+  '',
+  'data: {"id":"cmpl-7","object":"chat.completion.chunk","created":1718000001,"model":"meta-llama/Llama-3.1-8B-Instruct","choices":[],"usage":{"prompt_tokens":40,"total_tokens":45,"completion_tokens":5}}',
+  '',
+  'data: [DONE]',
+  '',
+  ''
+].join('\r\n');
+
+/** OpenRouter: the upstream provider fails after some content was streamed */
+export const OPENROUTER_ERROR_STREAM = [
+  'data: {"id":"gen-2","model":"openai/gpt-4-turbo","object":"chat.completion.chunk","created":1718000002,"choices":[{"index":0,"delta":{"role":"assistant","content":"Partial"},"finish_reason":null}]}',
+  '',
+  'data: {"id":"gen-2","object":"chat.completion.chunk","created":1718000002,"error":{"code":"server_error","message":"Provider disconnected unexpectedly"},"choices":[{"index":0,"delta":{"content":""},"finish_reason":"error"}]}',
+  '',
+  ''
+].join('\n');
+
+/** A server that closes the connection without sending [DONE] */
+export const TRUNCATED_STREAM = [
+  'data: {"choices":[{"index":0,"delta":{"content":"Hello"}}]}',
+  '',
+  'data: {"choices":[{"index":0,"delta":{"content":" world"}}]}'
+].join('\n');
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { Readable } from 'stream';
+import { OllamaProvider } from '../../llm/ollama';
+
+const OLLAMA_STREAM = [
+  { message: { role: 'assistant', content: '☐ Añadir ' }, done: false },
+  { message: { role: 'assistant', content: 'tests 🧪' }, done: false },
+  { message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 12, eval_count: 4 }
+].map(chunk => `${JSON.stringify(chunk)}\n`).join('');
+
+suite('Ollama Provider Tests', () => {
+  test('should decode multi-byte characters split across stream chunks', async () => {
+    const bytes = Buffer.from(OLLAMA_STREAM, 'utf8');
+    // Split inside the three bytes of "☐" and again inside the four bytes of "🧪"
+    const boxAt = bytes.indexOf(Buffer.from('☐')) + 1;
+    const emojiAt = bytes.indexOf(Buffer.from('🧪')) + 2;
+    const chunks = [bytes.subarray(0, boxAt), bytes.subarray(boxAt, emojiAt), bytes.subarray(emojiAt)];
+
+    const tokens: string[] = [];
+    const provider = new OllamaProvider({});
+    const result = await (provider as any).readStream(
+      Readable.from(chunks),
+      { messages: [], onToken: (token: string) => tokens.push(token) },
+      'llama3'
+    );
+
+    assert.strictEqual(result.content, '☐ Añadir tests 🧪');
+    assert.deepStrictEqual(tokens, ['☐ Añadir ', 'tests 🧪']);
+    assert.deepStrictEqual(result.usage, { promptTokens: 12, completionTokens: 4, totalTokens: 16 });
+  });
+});
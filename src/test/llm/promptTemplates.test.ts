@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { buildPlanMessages } from '../../llm/prompts';
+import { parsePromptTemplate, renderPromptTemplate, selectPromptTemplate } from '../../llm/promptTemplates';
+import { PlanGenerationOptions, RecentTicket } from '../../types';
+
+const ticket: RecentTicket = {
+  id: '1',
+  key: 'PROJ-1',
+  summary: 'Add login',
+  description: 'Users need to sign in',
+  provider: 'jira',
+  priority: 'high',
+  labels: ['Backend', 'auth'],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  url: 'https://example.atlassian.net/browse/PROJ-1',
+  status: 'To Do'
+};
+
+const allOptions: PlanGenerationOptions = {
+  includeCodeExamples: true,
+  includeFileStructure: true,
+  includeTestingStrategy: true,
+  includeDeploymentSteps: true,
+  includeGitContext: true,
+  structuredOutput: false
+};
+
+suite('Prompt Template Tests', () => {
+  test('should read front matter and system and user sections', () => {
+    const template = parsePromptTemplate('/ws/.aiplan/prompts/backend.md', [
+      '---',
+      'name: "Backend plans"',
+      'labels: [backend, API]',
+      'llm: ollama',
+      '---',
+      '<!-- system -->',
+      'You plan backend work.',
+      '<!-- user -->',
+      'Plan {{ticket.key}}'
+    ].join('\n'));
+
+    assert.strictEqual(template.name, 'Backend plans');
+    assert.deepStrictEqual(template.labels, ['backend', 'api']);
+    assert.deepStrictEqual(template.llm, ['ollama']);
+    assert.deepStrictEqual(template.providers, []);
+    assert.strictEqual(template.system, 'You plan backend work.');
+    assert.strictEqual(template.user, 'Plan {{ticket.key}}');
+
+    const plain = parsePromptTemplate('/ws/.aiplan/prompts/short.md', 'Plan {{ticket.key}}\n');
+    assert.strictEqual(plain.name, 'short');
+    assert.strictEqual(plain.system, undefined);
+    assert.strictEqual(plain.user, 'Plan {{ticket.key}}');
+  });
+
+  test('should select the most specific matching template', () => {
+    const generic = parsePromptTemplate('generic.md', 'generic');
+    const backend = parsePromptTemplate('backend.md', '---\nlabels: [backend]\n---\nbackend');
+    const backendOllama = parsePromptTemplate('backend-ollama.md', '---\nlabels: [backend]\nllm: [ollama]\n---\nlocal');
+    const linear = parsePromptTemplate('linear.md', '---\nproviders: [linear]\nlabels: [backend]\n---\nlinear');
+    const templates = [generic, backend, backendOllama, linear];
+
+    assert.strictEqual(selectPromptTemplate(templates, ticket, 'ollama'), backendOllama);
+    assert.strictEqual(selectPromptTemplate(templates, ticket, 'openrouter'), backend);
+    assert.strictEqual(selectPromptTemplate(templates, { ...ticket, labels: [] }, 'ollama'), generic);
+    assert.strictEqual(selectPromptTemplate([backend], { ...ticket, labels: [] }, 'ollama'), undefined);
+  });
+
+  test('should fill in placeholders and report unknown ones', () => {
+    const template = parsePromptTemplate('t.md', '{{ticket.key}} [{{ labels }}] {{ticket.description}}\n{{context}}\n{{ticket.sprint}}');
+    const rendered = renderPromptTemplate(template, { ticket, context: 'src/auth.ts', sections: '' });
+
+    assert.strictEqual(rendered.user, 'PROJ-1 [Backend, auth] Users need to sign in\nsrc/auth.ts\n{{ticket.sprint}}');
+    assert.deepStrictEqual(rendered.unknownVariables, ['ticket.sprint']);
+  });
+
+  test('should keep the built-in system prompt when a template only has a user message', () => {
+    const template = parsePromptTemplate('t.md', 'Plan {{ticket.key}} using:\n{{context}}');
+    const [system, user] = buildPlanMessages(ticket, 'src/auth.ts', allOptions, template);
+
+    assert.deepStrictEqual(system, buildPlanMessages(ticket, '', allOptions)[0]);
+    assert.strictEqual(user.content, 'Plan PROJ-1 using:\nsrc/auth.ts');
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { buildPlanMessages } from '../../llm/prompts';
+import { PlanGenerationOptions, RecentTicket } from '../../types';
+
+const ticket: RecentTicket = {
+  id: '1',
+  key: 'PROJ-1',
+  summary: 'Add login',
+  description: 'Users need to sign in',
+  provider: 'jira',
+  priority: 'high',
+  labels: ['auth'],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  url: 'https://example.atlassian.net/browse/PROJ-1',
+  status: 'To Do'
+};
+
+const allOptions: PlanGenerationOptions = {
+  includeCodeExamples: true,
+  includeFileStructure: true,
+  includeTestingStrategy: true,
+  includeDeploymentSteps: true,
+  includeGitContext: true,
+  structuredOutput: false
+};
+
+suite('Plan Prompt Tests', () => {
+  test('should ask for every section when every option is enabled', () => {
+    const [system, user] = buildPlanMessages(ticket, 'src/auth.ts', allOptions);
+
+    assert.strictEqual(system.role, 'system');
+    for (const section of ['### Files to Change', '### Testing Strategy', '### Deployment Plan', 'Code snippets']) {
+      assert.ok(system.content.includes(section), section);
+    }
+    assert.ok(!system.content.includes('Do not'));
+    assert.ok(user.content.includes('PROJ-1') && user.content.includes('src/auth.ts'));
+  });
+
+  test('should leave out disabled sections and code', () => {
+    const [system] = buildPlanMessages(ticket, '', {
+      ...allOptions,
+      includeCodeExamples: false,
+      includeFileStructure: false,
+      includeTestingStrategy: false,
+      includeDeploymentSteps: false
+    });
+
+    for (const section of ['### Files to Change', '### Testing Strategy', '### Deployment Plan', 'Code snippets']) {
+      assert.ok(!system.content.includes(section), section);
+    }
+    assert.ok(system.content.includes('### Implementation Steps'));
+    assert.ok(system.content.includes('Do not include code'));
+    assert.ok(system.content.includes('Do not add sections about testing or deployment.'));
+  });
+
+  test('should ask for JSON matching the plan schema when structured output is enabled', () => {
+    const [system] = buildPlanMessages(ticket, '', { ...allOptions, structuredOutput: true, includeDeploymentSteps: false });
+
+    assert.ok(system.content.includes('single JSON object'));
+    assert.ok(system.content.includes('"dependencies"'));
+    assert.ok(system.content.includes('`testing`'));
+    assert.ok(system.content.includes('Leave out `deployment`.'));
+    assert.ok(!system.content.includes('### Implementation Steps'));
+  });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { Readable } from 'stream';
+import { ChatCompletionStreamParser, SSEEventBuffer, readChatCompletionStream } from '../../llm/sse';
+import { ExtensionError, ErrorCode } from '../../utils/errorTypes';
+import {
+  OPENROUTER_STREAM,
+  OPENROUTER_STREAM_CONTENT,
+  VLLM_STREAM,
+  OPENROUTER_ERROR_STREAM,
+  TRUNCATED_STREAM
+} from './fixtures/chatStreams';
+
+/**
+ * Split a fixture into byte chunks of the given size, so boundaries fall inside lines and characters
+ */
+function toChunks(fixture: string, size: number): Buffer[] {
+  const bytes = Buffer.from(fixture, 'utf8');
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(bytes.subarray(i, i + size));
+  }
+  return chunks;
+}
+
+function parse(fixture: string, chunkSize: number) {
+  const tokens: string[] = [];
+  const parser = new ChatCompletionStreamParser('TestProvider', token => tokens.push(token));
+  toChunks(fixture, chunkSize).forEach(chunk => parser.push(chunk));
+  return { result: parser.end(), tokens };
+}
+
+suite('SSE Parser Tests', () => {
+  test('should read delta content, usage and [DONE] from an OpenRouter stream', () => {
+    const { result, tokens } = parse(OPENROUTER_STREAM, 4096);
+
+    assert.strictEqual(result.content, OPENROUTER_STREAM_CONTENT);
+    assert.deepStrictEqual(tokens, ['## 📋 Implementation', ' Plan\n\n### Overview']);
+    assert.strictEqual(result.model, 'anthropic/claude-3-sonnet');
+    assert.deepStrictEqual(result.usage, { promptTokens: 812, completionTokens: 9, totalTokens: 821 });
+    assert.strictEqual(result.done, true);
+  });
+
+  test('should produce the same result for any chunk boundary', () => {
+    for (const size of [1, 2, 3, 7, 64]) {
+      const { result } = parse(OPENROUTER_STREAM, size);
+      assert.strictEqual(result.content, OPENROUTER_STREAM_CONTENT, `chunk size ${size}`);
+      assert.strictEqual(result.usage?.totalTokens, 821, `chunk size ${size}`);
+    }
+  });
+
+  test('should handle CRLF line endings and usage-only chunks', () => {
+    for (const size of [1, 5, 4096]) {
+      const { result } = parse(VLLM_STREAM, size);
+      assert.strictEqual(result.content, 'Step 1: add tests');
+      assert.deepStrictEqual(result.usage, { promptTokens: 40, completionTokens: 5, totalTokens: 45 });
+      assert.strictEqual(result.done, true);
+    }
+  });
+
+  test('should throw AI_REQUEST_FAILED on a mid-stream error event', () => {
+    const tokens: string[] = [];
+    const parser = new ChatCompletionStreamParser('TestProvider', token => tokens.push(token));
+
+    assert.throws(
+      () => parser.push(OPENROUTER_ERROR_STREAM),
+      (error: unknown) => error instanceof ExtensionError
+        && error.code === ErrorCode.AI_REQUEST_FAILED
+        && error.message.includes('Provider disconnected unexpectedly')
+    );
+    assert.deepStrictEqual(tokens, ['Partial']);
+  });
+
+  test('should throw on an "event: error" frame', () => {
+    const parser = new ChatCompletionStreamParser('TestProvider');
+    assert.throws(() => parser.push('event: error\ndata: upstream timeout\n\n'), /upstream timeout/);
+  });
+
+  test('should flush the last event when the stream ends without [DONE]', () => {
+    const { result } = parse(TRUNCATED_STREAM, 3);
+    assert.strictEqual(result.content, 'Hello world');
+    assert.strictEqual(result.done, false);
+  });
+
+  test('should ignore events after [DONE]', () => {
+    const { result } = parse(`${OPENROUTER_STREAM}data: {"choices":[{"delta":{"content":"late"}}]}\n\n`, 4096);
+    assert.strictEqual(result.content, OPENROUTER_STREAM_CONTENT);
+  });
+
+  test('should join multi-line data fields with newlines', () => {
+    const buffer = new SSEEventBuffer();
+    const events = buffer.push('event: message\ndata: first\ndata: second\n\n');
+    assert.deepStrictEqual(events, [{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  test('readChatCompletionStream should resolve from a readable stream', async () => {
+    const tokens: string[] = [];
+    const result = await readChatCompletionStream(
+      Readable.from(toChunks(OPENROUTER_STREAM, 5)),
+      'TestProvider',
+      token => tokens.push(token)
+    );
+
+    assert.strictEqual(result.content, OPENROUTER_STREAM_CONTENT);
+    assert.strictEqual(tokens.join(''), OPENROUTER_STREAM_CONTENT);
+    assert.strictEqual(result.usage?.promptTokens, 812);
+  });
+
+  test('readChatCompletionStream should reject on a mid-stream error', async () => {
+    await assert.rejects(
+      readChatCompletionStream(Readable.from(toChunks(OPENROUTER_ERROR_STREAM, 16)), 'TestProvider'),
+      (error: unknown) => error instanceof ExtensionError && error.code === ErrorCode.AI_REQUEST_FAILED
+    );
+  });
+});
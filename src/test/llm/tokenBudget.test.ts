@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { calculateContextBudget, estimateMessageTokens, estimateTokens, truncateToTokens } from '../../llm/tokenBudget';
+
+suite('Token Budget Tests', () => {
+  test('should estimate tokens close to BPE tokenizers', () => {
+    assert.strictEqual(estimateTokens(''), 0);
+    assert.strictEqual(estimateTokens('hello world'), 4);
+    assert.strictEqual(estimateTokens('const x = 1;'), 6);
+    assert.strictEqual(estimateTokens('12345'), 2);
+
+    // About 4 characters per token for typical source code
+    const source = 'export function add(a: number, b: number): number {\n  return a + b;\n}\n';
+    const tokens = estimateTokens(source);
+    assert.ok(tokens >= source.length / 5 && tokens <= source.length / 2, `${tokens} tokens for ${source.length} chars`);
+  });
+
+  test('should count indentation and line breaks', () => {
+    assert.ok(estimateTokens('a\n\n\nb') > estimateTokens('a b'));
+    assert.ok(estimateTokens('        indented') > estimateTokens('indented'));
+  });
+
+  test('should add per-message overhead', () => {
+    const messages = [
+      { role: 'system' as const, content: 'You plan.' },
+      { role: 'user' as const, content: 'Plan it.' }
+    ];
+    assert.strictEqual(estimateMessageTokens(messages), estimateTokens('You plan.') + estimateTokens('Plan it.') + 8);
+  });
+
+  test('should reserve the configured answer length on large models', () => {
+    const budget = calculateContextBudget(200000, 1000, 4000);
+
+    assert.strictEqual(budget.outputTokens, 4000);
+    assert.strictEqual(budget.contextTokens, 200000 - 1000 - 4000 - 10000);
+  });
+
+  test('should cap the answer reservation on small models', () => {
+    const budget = calculateContextBudget(4096, 900, 4000);
+
+    assert.strictEqual(budget.outputTokens, 1024);
+    assert.ok(budget.contextTokens > 1500);
+  });
+
+  test('should reserve a quarter of the window when the answer length is unlimited', () => {
+    assert.strictEqual(calculateContextBudget(8192, 500).outputTokens, 2048);
+  });
+
+  test('should report a negative context budget when the prompt does not fit', () => {
+    assert.ok(calculateContextBudget(2048, 3000, 512).contextTokens < 0);
+  });
+
+  test('should truncate on line boundaries', () => {
+    const text = ['first line', 'second line', 'third line', 'fourth line'].join('\n');
+
+    assert.strictEqual(truncateToTokens(text, 1000), text);
+    assert.strictEqual(truncateToTokens(text, 8), 'first line\nsecond line');
+    assert.ok(estimateTokens(truncateToTokens(text, 8)) <= 8);
+  });
+});
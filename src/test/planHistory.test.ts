@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlanHistory, PlanMetadata, formatPlanFile, hashPrompt, parsePlanFile, toTicketDirectory } from '../planHistory';
+
+function metadata(ticket: string, generatedAt: string): PlanMetadata {
+  return {
+    ticket,
+    summary: 'Add login: "remember me"',
+    ticketProvider: 'jira',
+    provider: 'ollama',
+    model: 'llama3:8b',
+    generatedAt: new Date(generatedAt),
+    promptHash: hashPrompt([{ role: 'user', content: ticket }]),
+    contextFiles: ['src/auth.ts', 'src/a, b.ts']
+  };
+}
+
+suite('Plan History Tests', () => {
+  let root: string;
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'aiplan-plans-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should read back the metadata it writes', () => {
+    const original = { ...metadata('PROJ-1', '2026-10-19T08:30:00.000Z'), promptTemplate: 'Backend plans' };
+    const text = formatPlanFile(original, '# Implementation Plan\n');
+
+    assert.ok(text.startsWith('---\n') && text.endsWith('# Implementation Plan\n'));
+    assert.deepStrictEqual(parsePlanFile('/plans/PROJ-1/x.md', text, new Date(0)), { ...original, filePath: '/plans/PROJ-1/x.md' });
+  });
+
+  test('should fall back to the location and modification time without front matter', () => {
+    const plan = parsePlanFile(path.join('plans', 'PROJ-2', 'notes.md'), '# Notes\n', new Date(5));
+
+    assert.strictEqual(plan.ticket, 'PROJ-2');
+    assert.strictEqual(plan.generatedAt.getTime(), 5);
+    assert.deepStrictEqual(plan.contextFiles, []);
+  });
+
+  test('should save plans per ticket and list them newest first', async () => {
+    const history = new PlanHistory(root, '.aiplan/plans');
+    const first = await history.save(metadata('PROJ-1', '2026-10-18T10:00:00.000Z'), 'first');
+    await history.save(metadata('#42', '2026-10-19T09:00:00.000Z'), 'other');
+    const second = await history.save(metadata('PROJ-1', '2026-10-19T10:00:00.000Z'), 'second');
+
+    assert.strictEqual(path.relative(root, first), path.join('.aiplan', 'plans', 'PROJ-1', '2026-10-18T10-00-00.000Z.md'));
+    assert.deepStrictEqual((await history.listPlans('PROJ-1')).map(plan => plan.filePath), [second, first]);
+    assert.deepStrictEqual((await history.listPlans()).map(plan => plan.ticket), ['PROJ-1', '#42', 'PROJ-1']);
+    assert.deepStrictEqual(await new PlanHistory(root, 'elsewhere').listPlans(), []);
+  });
+
+  test('should keep ticket directories file-system safe', () => {
+    assert.strictEqual(toTicketDirectory('#42'), '42');
+    assert.strictEqual(toTicketDirectory('owner/repo#7'), 'owner-repo-7');
+    assert.strictEqual(toTicketDirectory('../PROJ-1'), 'PROJ-1');
+  });
+});
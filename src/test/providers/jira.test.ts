@@ -113,4 +113,101 @@ suite('JiraProvider Tests', () => {
     const clearedStats = provider.getCacheStats();
     assert.strictEqual(clearedStats.size, 0);
   });
+
+  test('should follow next page tokens of the enhanced search', async () => {
+    const issue = (key: string) => ({ id: key, key, fields: { summary: key, created: '2023-01-01', updated: '2023-01-02', status: { name: 'Open' } } });
+    const requests: Array<{ url: string; params: any }> = [];
+    (provider as any).makeRequest = async (url: string, options: any) => {
+      if (url.endsWith('/serverInfo')) {
+        return { deploymentType: 'Cloud' };
+      }
+      requests.push({ url, params: options.params });
+      return options.params.nextPageToken
+        ? { issues: [issue('TEST-3')], isLast: true }
+        : { issues: [issue('TEST-1'), issue('TEST-2')], nextPageToken: 'page-2', isLast: false };
+    };
+
+    const keys: string[] = [];
+    for await (const ticket of provider.searchIssues('project = TEST', 3)) {
+      keys.push(ticket.key);
+    }
+
+    assert.deepStrictEqual(keys, ['TEST-1', 'TEST-2', 'TEST-3']);
+    assert.deepStrictEqual(requests.map(request => request.params.nextPageToken), [undefined, 'page-2']);
+    assert.ok(requests.every(request => request.url.endsWith('/rest/api/3/search/jql')));
+  });
+
+  test('should send bounded JQL to the enhanced search', async () => {
+    const queries: string[] = [];
+    (provider as any).makeRequest = async (url: string, options: any) => {
+      if (url.endsWith('/serverInfo')) {
+        return { deploymentType: 'Cloud' };
+      }
+      assert.ok(url.endsWith('/rest/api/3/search/jql'));
+      queries.push(options.params.jql);
+      return { issues: [], isLast: true };
+    };
+
+    await provider.getRecentTickets(10);
+    await provider.recentTicketPages(10).next();
+
+    assert.strictEqual(queries.length, 2);
+    // The enhanced search answers a query that is only an ORDER BY with HTTP 400
+    assert.ok(queries.every(jql => jql.split(/\bORDER BY\b/i)[0].trim() !== ''), queries.join('; '));
+  });
+
+  test('should page by offset where the enhanced search is missing', async () => {
+    const issue = (key: string) => ({ id: key, key, fields: { summary: key, created: '2023-01-01', updated: '2023-01-02', status: { name: 'Open' } } });
+    const startAts: number[] = [];
+    (provider as any).makeRequest = async (url: string, options: any) => {
+      if (url.endsWith('/serverInfo')) {
+        return { deploymentType: 'Cloud' };
+      }
+      if (url.endsWith('/search/jql')) {
+        throw new Error(`HTTP 404 Not Found: Request to ${url} failed`);
+      }
+      startAts.push(options.params.startAt);
+      return { issues: [issue(`TEST-${options.params.startAt + 1}`)], startAt: options.params.startAt, total: 3 };
+    };
+
+    const tickets = await provider.getRecentTickets(10);
+
+    assert.deepStrictEqual(tickets.map(ticket => ticket.key), ['TEST-1', 'TEST-2', 'TEST-3']);
+    assert.deepStrictEqual(startAts, [0, 1, 2]);
+  });
+
+  test('should use API v2, Bearer tokens and wiki markup on Data Center', async () => {
+    const dataCenter = new JiraProvider({ baseUrl: 'https://jira.example.com', token: 'pat-token' });
+    const urls: string[] = [];
+    (dataCenter as any).makeRequest = async (url: string) => {
+      urls.push(url);
+      if (url.endsWith('/serverInfo')) {
+        return { deploymentType: 'DataCenter' };
+      }
+      return {
+        id: '1',
+        key: 'OPS-1',
+        fields: { summary: 'Deploy', description: 'h2. Steps\n* run {{make}}', created: '2023-01-01', updated: '2023-01-02', status: { name: 'Open' } }
+      };
+    };
+
+    const ticket = await dataCenter.getTicket('OPS-1');
+
+    assert.strictEqual(await dataCenter.getDeployment(), 'server');
+    assert.deepStrictEqual(urls, ['https://jira.example.com/rest/api/2/serverInfo', 'https://jira.example.com/rest/api/2/issue/OPS-1']);
+    assert.strictEqual((dataCenter as any).getAuthHeaders().Authorization, 'Bearer pat-token');
+    assert.strictEqual(ticket.description, '## Steps\n- run `make`');
+  });
+
+  test('should keep the configured deployment and guess from the host when detection fails', async () => {
+    const cloud = new JiraProvider({ baseUrl: 'https://jira.example.com', token: 'user@example.com:token', deployment: 'cloud' });
+    const unreachable = new JiraProvider({ baseUrl: 'https://acme.atlassian.net', token: 'user@example.com:token' });
+    (unreachable as any).makeRequest = async () => {
+      throw new Error('Network error: Unable to reach https://acme.atlassian.net/rest/api/2/serverInfo');
+    };
+
+    assert.strictEqual(await cloud.getDeployment(), 'cloud');
+    assert.ok((cloud as any).getAuthHeaders().Authorization.startsWith('Basic '));
+    assert.strictEqual(await unreachable.getDeployment(), 'cloud');
+  });
 });
\ No newline at end of file
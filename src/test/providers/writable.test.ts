@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { JiraProvider } from '../../providers/jira';
+import { TicketTransition, classifyWorkflowState, selectTransition } from '../../providers/writable';
+import { RecentTicket } from '../../types';
+
+const ticket: RecentTicket = {
+  id: '10001',
+  key: 'PROJ-1',
+  summary: 'Add login',
+  description: '',
+  provider: 'jira',
+  priority: 'high',
+  labels: [],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  url: 'https://test.atlassian.net/browse/PROJ-1',
+  status: 'To Do'
+};
+
+suite('Writable Provider Tests', () => {
+  test('should place workflow states in stages by category, then by name', () => {
+    assert.strictEqual(classifyWorkflowState('Selected for Development', 'new'), 'todo');
+    assert.strictEqual(classifyWorkflowState('In Progress', 'indeterminate'), 'inProgress');
+    assert.strictEqual(classifyWorkflowState('Code Review', 'indeterminate'), 'inReview');
+    assert.strictEqual(classifyWorkflowState('In QA', 'started'), 'inReview');
+    assert.strictEqual(classifyWorkflowState('Shipped', 'completed'), 'done');
+    assert.strictEqual(classifyWorkflowState('Won\'t Do', 'done'), undefined);
+    assert.strictEqual(classifyWorkflowState('Canceled', 'canceled'), undefined);
+    assert.strictEqual(classifyWorkflowState('Resolved'), 'done');
+    assert.strictEqual(classifyWorkflowState('Backlog'), 'todo');
+  });
+
+  test('should prefer the plainly named transition of a stage', () => {
+    const transitions: TicketTransition[] = [
+      { id: '11', name: 'Start Development', stage: 'inProgress' },
+      { id: '21', name: 'In Progress', stage: 'inProgress' },
+      { id: '31', name: 'Ready for QA', stage: 'inReview' }
+    ];
+
+    assert.strictEqual(selectTransition(transitions, 'inProgress')?.id, '21');
+    assert.strictEqual(selectTransition(transitions, 'inReview')?.id, '31');
+    assert.strictEqual(selectTransition(transitions, 'done'), undefined);
+  });
+
+  test('should read Jira transitions by their target status', async () => {
+    const provider = new JiraProvider({ baseUrl: 'https://test.atlassian.net', token: 'user@test.com:token', deployment: 'cloud' });
+    const requests: string[] = [];
+    (provider as any).makeRequest = async (url: string) => {
+      requests.push(url);
+      return {
+        transitions: [
+          { id: '11', name: 'Start', to: { name: 'In Progress', statusCategory: { key: 'indeterminate' } } },
+          { id: '41', name: 'Close', to: { name: 'Won\'t Do', statusCategory: { key: 'done' } } },
+          { id: '31', name: 'Finish', to: { name: 'Done', statusCategory: { key: 'done' } } }
+        ]
+      };
+    };
+
+    assert.deepStrictEqual(await provider.getTransitions(ticket), [
+      { id: '11', name: 'In Progress', stage: 'inProgress' },
+      { id: '31', name: 'Done', stage: 'done' }
+    ]);
+    assert.deepStrictEqual(requests, ['https://test.atlassian.net/rest/api/3/issue/PROJ-1/transitions']);
+  });
+});
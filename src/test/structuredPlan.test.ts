@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { StructuredPlan, createChecklist, parseStructuredPlan, renderStructuredPlan, validateStructuredPlan } from '../structuredPlan';
+
+const plan: StructuredPlan = {
+  overview: 'Add a login form backed by the auth service.',
+  steps: [
+    { id: '1', title: 'Add the auth endpoint', description: 'POST /login', files: ['src/auth.ts'], estimate: '2h', dependencies: [] },
+    { id: '2', title: 'Build the form', description: 'Email and password fields', files: [], dependencies: ['1'] }
+  ],
+  testing: ['Unit test the endpoint']
+};
+
+suite('Structured Plan Tests', () => {
+  test('should read a plan wrapped in a code fence or prose', () => {
+    assert.deepStrictEqual(parseStructuredPlan(`\`\`\`json\n${JSON.stringify(plan)}\n\`\`\``), plan);
+    assert.deepStrictEqual(parseStructuredPlan(`Here is the plan:\n${JSON.stringify(plan, null, 2)}\nGood luck!`), plan);
+  });
+
+  test('should report every schema violation with its location', () => {
+    const errors = validateStructuredPlan({
+      overview: 3,
+      steps: [
+        { id: '1', title: 'A', description: 'a', files: 'src/a.ts', dependencies: ['9'] },
+        { id: '1', title: '', description: 'b', files: [], dependencies: [] }
+      ]
+    });
+
+    assert.deepStrictEqual(errors, [
+      'overview must be a string',
+      'steps[0].files must be an array of strings',
+      'steps[1].title must be a non-empty string',
+      'steps[1].id "1" is used by another step',
+      'steps[0].dependencies refers to unknown step "9"'
+    ]);
+    assert.throws(() => parseStructuredPlan('no plan here'), (error: Error) => error.message.includes('not valid JSON'));
+    assert.throws(() => parseStructuredPlan('{"overview": "x", "steps": []}'), /steps must be a non-empty array/);
+  });
+
+  test('should render steps as a task list with files and dependencies', () => {
+    const markdown = renderStructuredPlan(plan, ['1']);
+
+    assert.ok(markdown.includes('- [x] **1. Add the auth endpoint** _(2h)_\n  POST /login\n  - Files: `src/auth.ts`'));
+    assert.ok(markdown.includes('- [ ] **2. Build the form**\n  Email and password fields\n  - Depends on: step 1'));
+    assert.ok(markdown.includes('### Testing Strategy\n\n- Unit test the endpoint'));
+    assert.ok(!markdown.includes('### Deployment Plan'));
+  });
+
+  test('should keep progress on steps that survive a new plan', () => {
+    const previous = { ...createChecklist({ key: 'PROJ-1', summary: 'Login' }, plan), completed: ['1', '2'] };
+    const replanned: StructuredPlan = {
+      ...plan,
+      steps: [plan.steps[0], { ...plan.steps[1], title: 'Build the form with validation' }]
+    };
+
+    const checklist = createChecklist({ key: 'PROJ-1', summary: 'Login' }, replanned, previous, '/plans/PROJ-1/x.md');
+    assert.deepStrictEqual(checklist.completed, ['1']);
+    assert.strictEqual(checklist.filePath, '/plans/PROJ-1/x.md');
+  });
+});
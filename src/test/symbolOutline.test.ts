@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { OutlineSymbol, formatSymbolOutline } from '../symbolOutline';
+
+function symbol(name: string, kind: string, line: number, children: OutlineSymbol[] = []): OutlineSymbol {
+  return { name, kind, line, children };
+}
+
+suite('Symbol Outline Tests', () => {
+  const content = [
+    'import { Cache } from \'./cache\';',
+    '',
+    'export const DEFAULT_TTL = 60;',
+    '',
+    'export class Store {',
+    '  private readonly cache = new Cache();',
+    '',
+    '  async load(key: string): Promise<string> {',
+    '    const value = this.cache.get(key);',
+    '    return value;',
+    '  }',
+    '}',
+    '',
+    'export interface StoreOptions {',
+    '  ttl: number;',
+    '}'
+  ].join('\n');
+
+  test('should list declarations with their signatures, nested by container', () => {
+    const symbols = [
+      symbol('StoreOptions', 'Interface', 13, [symbol('ttl', 'Property', 14)]),
+      symbol('DEFAULT_TTL', 'Constant', 2),
+      symbol('Store', 'Class', 4, [
+        symbol('cache', 'Property', 5),
+        symbol('load', 'Method', 7, [symbol('value', 'Variable', 8)])
+      ])
+    ];
+
+    assert.strictEqual(formatSymbolOutline(symbols, content), [
+      'export const DEFAULT_TTL = 60',
+      'export class Store',
+      '  private readonly cache = new Cache()',
+      '  async load(key: string): Promise<string>',
+      'export interface StoreOptions',
+      '  ttl: number'
+    ].join('\n'));
+  });
+
+  test('should leave out locals and fall back to the name when the line does not declare it', () => {
+    const symbols = [
+      symbol('Store', 'Class', 3, [symbol('value', 'Variable', 8)]),
+      symbol('callback', 'Function', 9)
+    ];
+
+    assert.strictEqual(formatSymbolOutline(symbols, content), 'Store\ncallback');
+  });
+});
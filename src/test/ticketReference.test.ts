@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { findTicketReferences, parseBranchReferences, parseCommitReferences, parseGitHubRemote } from '../ticketReference';
+
+suite('Ticket Reference Tests', () => {
+  test('should find keys and issue numbers in branch names', () => {
+    assert.deepStrictEqual(parseBranchReferences('feature/PROJ-42-fix-login'), [{ key: 'PROJ-42', source: 'branch' }]);
+    assert.deepStrictEqual(parseBranchReferences('jane/eng-7-oauth'), [{ key: 'ENG-7', source: 'branch' }]);
+    assert.deepStrictEqual(parseBranchReferences('feature/123-add-search'), [{ key: '#123', provider: 'github', source: 'branch' }]);
+    assert.deepStrictEqual(parseBranchReferences('issue-9'), [{ key: '#9', provider: 'github', source: 'branch' }]);
+    assert.deepStrictEqual(parseBranchReferences('release/1.2'), []);
+    assert.deepStrictEqual(parseBranchReferences('feature/upgrade-node-18'), []);
+  });
+
+  test('should find references in commit messages in order', () => {
+    assert.deepStrictEqual(parseCommitReferences('Fix UTF-8 decoding (PROJ-12), see acme/api#34 and #5'), [
+      { key: 'PROJ-12', source: 'commit' },
+      { key: '#34', provider: 'github', repository: 'acme/api', source: 'commit' },
+      { key: '#5', provider: 'github', repository: undefined, source: 'commit' }
+    ]);
+    assert.deepStrictEqual(parseCommitReferences('Escape &#123; in templates'), []);
+  });
+
+  test('should put the branch before its commits without repeats', () => {
+    const references = findTicketReferences('feature/PROJ-42-login', ['PROJ-42: add form', 'Closes #3']);
+
+    assert.deepStrictEqual(references.map(reference => `${reference.key}:${reference.source}`), ['PROJ-42:branch', '#3:commit']);
+    assert.deepStrictEqual(findTicketReferences(undefined, ['ENG-1 wip']).map(reference => reference.key), ['ENG-1']);
+  });
+
+  test('should read the repository of GitHub remotes', () => {
+    assert.strictEqual(parseGitHubRemote('https://github.com/acme/api.git'), 'acme/api');
+    assert.strictEqual(parseGitHubRemote('git@github.com:acme/web.app.git'), 'acme/web.app');
+    assert.strictEqual(parseGitHubRemote('https://gitlab.com/acme/api.git'), undefined);
+  });
+});
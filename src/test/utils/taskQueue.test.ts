@@ -0,0 +1,311 @@
+import * as assert from 'assert';
+import { TaskQueue, TaskTimers } from '../../utils/taskQueue';
+import { ErrorCode, ErrorFactory, ExtensionError, parseRetryAfter } from '../../utils/errorTypes';
+
+/**
+ * Manually advanced clock; pending promise callbacks are flushed between timers
+ */
+class FakeTimers implements TaskTimers {
+  private time = 0;
+  private nextId = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  async tick(ms: number): Promise<void> {
+    const target = this.time + ms;
+    await flush();
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) {
+        break;
+      }
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+      await flush();
+    }
+    this.time = target;
+  }
+}
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * An operation that stays running until the test settles it
+ */
+function controllable<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  let calls = 0;
+  return {
+    operation: () => {
+      calls++;
+      return promise;
+    },
+    resolve,
+    reject,
+    get calls() {
+      return calls;
+    }
+  };
+}
+
+suite('TaskQueue Tests', () => {
+  let timers: FakeTimers;
+  let reported: ExtensionError[];
+  let queue: TaskQueue;
+
+  setup(() => {
+    timers = new FakeTimers();
+    reported = [];
+    queue = new TaskQueue({
+      timers,
+      maxConcurrentTasks: 1,
+      reportError: error => {
+        reported.push(error);
+      }
+    });
+  });
+
+  test('should run pending tasks by priority, then in order', async () => {
+    const order: string[] = [];
+    const blocker = controllable<void>();
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const first = queue.enqueue({ id: 'blocker', name: 'blocker', priority: 'low', operation: blocker.operation });
+    const tasks = [
+      queue.enqueue({ id: 'low', name: 'low', priority: 'low', operation: record('low') }),
+      queue.enqueue({ id: 'medium', name: 'medium', priority: 'medium', operation: record('medium') }),
+      queue.enqueue({ id: 'high-1', name: 'high-1', priority: 'high', operation: record('high-1') }),
+      queue.enqueue({ id: 'high-2', name: 'high-2', priority: 'high', operation: record('high-2') })
+    ];
+
+    blocker.resolve();
+    await first;
+    await Promise.all(tasks);
+
+    assert.deepStrictEqual(order, ['high-1', 'high-2', 'medium', 'low']);
+  });
+
+  test('should settle without polling', async () => {
+    const result = await queue.enqueue({ id: 'quick', name: 'quick', priority: 'medium', operation: async () => 42 });
+
+    assert.strictEqual(result.status, 'completed');
+    assert.strictEqual(result.result, 42);
+    assert.strictEqual(timers.pendingTimers, 0);
+  });
+
+  test('should return the same promise for a duplicate task id', () => {
+    const pending = controllable<number>();
+    const a = queue.enqueue({ id: 'same', name: 'same', priority: 'medium', operation: pending.operation });
+    const b = queue.enqueue({ id: 'same', name: 'same', priority: 'medium', operation: pending.operation });
+
+    assert.strictEqual(a, b);
+    assert.strictEqual(pending.calls, 1);
+  });
+
+  test('should limit concurrency per resource key', async () => {
+    queue = new TaskQueue({ timers, maxConcurrentTasks: 3, resourceLimits: { 'llm:ollama': 1 } });
+    const ollamaA = controllable<void>();
+    const ollamaB = controllable<void>();
+    const other = controllable<void>();
+
+    queue.enqueue({ id: 'a', name: 'a', priority: 'high', resourceKey: 'llm:ollama', operation: ollamaA.operation });
+    const b = queue.enqueue({ id: 'b', name: 'b', priority: 'high', resourceKey: 'llm:ollama', operation: ollamaB.operation });
+    queue.enqueue({ id: 'c', name: 'c', priority: 'low', resourceKey: 'llm:openrouter', operation: other.operation });
+
+    assert.strictEqual(ollamaA.calls, 1);
+    assert.strictEqual(ollamaB.calls, 0);
+    assert.strictEqual(other.calls, 1, 'other resources are not blocked');
+    assert.deepStrictEqual(queue.getActiveTasks().map(task => task.status), ['running', 'pending', 'running']);
+
+    ollamaA.resolve();
+    await flush();
+    assert.strictEqual(ollamaB.calls, 1);
+
+    ollamaB.resolve();
+    assert.strictEqual((await b).status, 'completed');
+  });
+
+  test('should cancel a pending task without running it', async () => {
+    const blocker = controllable<void>();
+    const queued = controllable<void>();
+    queue.enqueue({ id: 'blocker', name: 'blocker', priority: 'high', operation: blocker.operation });
+    const result = queue.enqueue({ id: 'queued', name: 'queued', priority: 'high', operation: queued.operation });
+
+    assert.strictEqual(queue.cancel('queued'), true);
+    assert.strictEqual((await result).status, 'cancelled');
+
+    blocker.resolve();
+    await flush();
+    assert.strictEqual(queued.calls, 0);
+  });
+
+  test('should abort the signal of a running task and settle even if the operation ignores it', async () => {
+    let signal: AbortSignal | undefined;
+    const result = queue.enqueue({
+      id: 'running',
+      name: 'running',
+      priority: 'high',
+      operation: (s) => {
+        signal = s;
+        return new Promise<void>(() => undefined);
+      }
+    });
+
+    assert.strictEqual(queue.cancel('running'), true);
+    const settled = await result;
+
+    assert.strictEqual(settled.status, 'cancelled');
+    assert.strictEqual(settled.error?.code, ErrorCode.CANCELLED);
+    assert.strictEqual(signal?.aborted, true);
+    assert.strictEqual(queue.cancel('running'), false);
+    assert.strictEqual(reported.length, 0, 'cancellation is not reported as an error');
+  });
+
+  test('should time out and abort a slow task without retrying it', async () => {
+    const signals: AbortSignal[] = [];
+    const result = queue.enqueue({
+      id: 'slow',
+      name: 'slow',
+      priority: 'high',
+      timeout: 5000,
+      maxRetries: 1,
+      operation: (signal) => {
+        signals.push(signal);
+        return new Promise<void>(() => undefined);
+      }
+    });
+
+    await timers.tick(5000);
+    const settled = await result;
+
+    assert.strictEqual(signals.length, 1);
+    assert.strictEqual(signals[0].aborted, true);
+    assert.strictEqual(settled.status, 'failed');
+    assert.strictEqual(settled.error?.code, ErrorCode.TIMEOUT);
+    assert.strictEqual(settled.duration, 5000);
+    assert.strictEqual(reported.length, 1);
+  });
+
+  test('should back off exponentially between retries', async () => {
+    const attempts: number[] = [];
+    const result = queue.enqueue({
+      id: 'flaky',
+      name: 'flaky',
+      priority: 'high',
+      maxRetries: 3,
+      operation: async () => {
+        attempts.push(timers.now());
+        if (attempts.length < 4) {
+          throw ErrorFactory.connectionFailed('Test', 'test');
+        }
+        return 'ok';
+      }
+    });
+
+    await timers.tick(60000);
+    const settled = await result;
+
+    assert.strictEqual(settled.status, 'completed');
+    assert.deepStrictEqual(attempts, [0, 1000, 3000, 7000]);
+  });
+
+  test('should wait as long as a rate limit asks before retrying', async () => {
+    const attempts: number[] = [];
+    const result = queue.enqueue({
+      id: 'limited',
+      name: 'limited',
+      priority: 'high',
+      operation: async () => {
+        attempts.push(timers.now());
+        if (attempts.length === 1) {
+          throw ErrorFactory.rateLimited('Test', 'test', 20000);
+        }
+      }
+    });
+
+    await timers.tick(19999);
+    assert.strictEqual(attempts.length, 1);
+    assert.deepStrictEqual(queue.getActiveTasks().map(task => task.status), ['pending']);
+
+    await timers.tick(1);
+    assert.strictEqual((await result).status, 'completed');
+    assert.deepStrictEqual(attempts, [0, 20000]);
+  });
+
+  test('should cancel a task waiting for its retry', async () => {
+    let calls = 0;
+    const result = queue.enqueue({
+      id: 'retrying',
+      name: 'retrying',
+      priority: 'high',
+      operation: async () => {
+        calls++;
+        throw ErrorFactory.connectionFailed('Test', 'test');
+      }
+    });
+
+    await flush();
+    assert.strictEqual(timers.pendingTimers, 1);
+    queue.cancel('retrying');
+
+    assert.strictEqual((await result).status, 'cancelled');
+    assert.strictEqual(timers.pendingTimers, 0);
+    assert.strictEqual(calls, 1);
+  });
+
+  test('should not retry errors that are not retryable', async () => {
+    let calls = 0;
+    const result = await queue.enqueue({
+      id: 'auth',
+      name: 'auth',
+      priority: 'high',
+      operation: async () => {
+        calls++;
+        throw ErrorFactory.authenticationFailed('Test', 'test');
+      }
+    });
+
+    assert.strictEqual(result.status, 'failed');
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(reported[0].code, ErrorCode.AUTHENTICATION_FAILED);
+  });
+
+  test('parseRetryAfter should accept seconds and HTTP dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+
+    assert.strictEqual(parseRetryAfter('120', now), 120000);
+    assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now), 30000);
+    assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now), 0);
+    assert.strictEqual(parseRetryAfter('soon', now), undefined);
+    assert.strictEqual(parseRetryAfter(undefined, now), undefined);
+  });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { wikiMarkupToMarkdown } from '../wikiMarkup';
+
+suite('Wiki Markup Tests', () => {
+  test('should convert headings, lists and text effects', () => {
+    const markdown = wikiMarkupToMarkdown([
+      'h1. Login fails',
+      'The *submit* button is -enabled- _disabled_, see [the docs|https://example.com] or [~jane].',
+      '* First',
+      '** Nested with {{code_here}}',
+      '# Numbered',
+      '----',
+      'bq. Quoted'
+    ].join('\n'));
+
+    assert.strictEqual(markdown, [
+      '# Login fails',
+      'The **submit** button is ~~enabled~~ _disabled_, see [the docs](https://example.com) or @jane.',
+      '- First',
+      '  - Nested with `code_here`',
+      '1. Numbered',
+      '---',
+      '> Quoted'
+    ].join('\n'));
+  });
+
+  test('should convert code blocks, quotes and tables', () => {
+    const markdown = wikiMarkupToMarkdown([
+      '{code:java|title=Main.java}',
+      'int *a* = 1;',
+      '{code}',
+      '{quote}Looks *right*{quote}',
+      '||Key||Status||',
+      '|OPS-1|Open|'
+    ].join('\n'));
+
+    assert.strictEqual(markdown, [
+      '```java',
+      'int *a* = 1;',
+      '```',
+      '> Looks **right**',
+      '| Key | Status |',
+      '| --- | --- |',
+      '| OPS-1 | Open |'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceIndex } from '../workspaceIndex';
+
+suite('Workspace Index Tests', () => {
+  let root: string;
+
+  function write(relativePath: string, content: string): void {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'aiplan-index-'));
+    write('.gitignore', 'dist/\n');
+    write('src/auth.ts', 'export class AuthService {\n  login() {}\n}\n');
+    write('src/util.ts', 'export const retries = 3;\n');
+    write('dist/auth.js', 'exports.login = 1;\n');
+    write('logo.png', 'binary');
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should index relevant files with their symbols and terms, skipping ignored ones', async () => {
+    const index = new WorkspaceIndex(root);
+    await index.ensureFresh();
+
+    assert.deepStrictEqual(index.getFiles().map(file => file.path), ['src/auth.ts', 'src/util.ts']);
+    assert.deepStrictEqual(index.getIgnoredFiles(), ['dist']);
+    const auth = index.getFile('src/auth.ts')!;
+    assert.deepStrictEqual(auth.symbols, ['AuthService']);
+    assert.ok(auth.terms.login > 0);
+    assert.ok(auth.outline.includes('export class AuthService'));
+    assert.ok(!index.isStale());
+  });
+
+  test('should restore a snapshot and only reindex files that changed', async () => {
+    const original = new WorkspaceIndex(root);
+    await original.refresh();
+    const snapshot = original.toSnapshot();
+
+    write('src/util.ts', 'export const retries = 5;\nexport function backoff() {}\n');
+    fs.rmSync(path.join(root, 'src/auth.ts'));
+    write('src/new.ts', 'export type Token = string;\n');
+
+    const restored = WorkspaceIndex.fromSnapshot(root, snapshot);
+    assert.ok(restored.isStale());
+    assert.strictEqual(restored.getFiles().length, 2);
+
+    await restored.ensureFresh();
+    assert.deepStrictEqual(restored.getFiles().map(file => file.path), ['src/new.ts', 'src/util.ts']);
+    assert.deepStrictEqual(restored.getFile('src/util.ts')!.symbols, ['retries', 'backoff']);
+  });
+
+  test('should ignore snapshots of another folder or format', () => {
+    const snapshot = JSON.stringify({ version: 1, rootPath: '/elsewhere', files: [{ path: 'a.ts' }] });
+
+    assert.strictEqual(WorkspaceIndex.fromSnapshot(root, snapshot).getFiles().length, 0);
+    assert.strictEqual(WorkspaceIndex.fromSnapshot(root, 'not json').getFiles().length, 0);
+  });
+
+  test('should apply file events incrementally', async () => {
+    const index = new WorkspaceIndex(root);
+    await index.refresh();
+    let changes = 0;
+    index.onDidChange(() => changes++);
+
+    write('src/session.ts', 'export class Session {}\n');
+    await index.update('src/session.ts');
+    assert.deepStrictEqual(index.getFile('src/session.ts')?.symbols, ['Session']);
+
+    write('dist/session.js', 'exports.session = 1;\n');
+    await index.update('dist/session.js');
+    assert.strictEqual(index.getFile('dist/session.js'), undefined);
+
+    fs.rmSync(path.join(root, 'src'), { recursive: true });
+    await index.update('src');
+    assert.deepStrictEqual(index.getFiles(), []);
+    assert.strictEqual(changes, 2);
+    assert.ok(!index.isStale());
+  });
+
+  test('should walk again after an ignore file changes', async () => {
+    const index = new WorkspaceIndex(root);
+    await index.refresh();
+
+    write('.gitignore', 'dist/\nsrc/util.ts\n');
+    await index.update('.gitignore');
+    assert.ok(index.isStale());
+
+    await index.ensureFresh();
+    assert.deepStrictEqual(index.getFiles().map(file => file.path), ['src/auth.ts']);
+  });
+
+  test('should stop waiting when the signal is aborted', async () => {
+    const index = new WorkspaceIndex(root);
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(index.ensureFresh(controller.signal), (error: Error) => error.name === 'ExtensionError');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Ticket references in branch names and commit messages: Jira keys and Linear identifiers (`PROJ-123`),
+ * and GitHub issues (`#123`, `owner/repo#123`)
+ */
+
+export interface TicketReference {
+  /** `PROJ-123` for Jira keys and Linear identifiers, which look alike; `#123` for GitHub issues */
+  key: string;
+  /** Set for GitHub references; `PROJ-123` keys may belong to Jira or Linear */
+  provider?: 'github';
+  /** `owner/repo` of a GitHub reference that names its repository */
+  repository?: string;
+  source: 'branch' | 'commit';
+}
+
+/** Upper-case words that are followed by a number without being ticket keys */
+const NOT_TICKET_PREFIXES = new Set(['UTF', 'SHA', 'ISO', 'RFC', 'CVE', 'HTTP', 'TLS', 'SSL', 'MD', 'ES', 'PEP', 'GPT', 'COVID']);
+
+const UPPER_CASE_KEY = /(?<![A-Za-z0-9])([A-Z][A-Z0-9]{1,9})-(\d+)(?!\d)/g;
+/** A key starting a branch name segment, in either case, e.g. `eng-42` in `jane/eng-42-fix-login` */
+const SEGMENT_KEY = /^([A-Za-z][A-Za-z0-9]{1,9})-(\d+)(?=$|[-_.])/;
+/** A GitHub issue number starting a segment: `42-fix-login`, `issue-42`, `gh-42` */
+const SEGMENT_ISSUE = /^(?:(?:issues?|gh)[-_]?)?(\d+)(?=$|[-_])/i;
+const GITHUB_REFERENCE = /(?<![\w/#&])(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/g;
+
+/**
+ * References in a branch name, most likely first
+ */
+export function parseBranchReferences(branch: string): TicketReference[] {
+  const references: TicketReference[] = [];
+
+  for (const match of branch.matchAll(UPPER_CASE_KEY)) {
+    addKey(references, match[1], match[2], 'branch');
+  }
+  for (const segment of branch.split('/')) {
+    const issue = segment.match(SEGMENT_ISSUE);
+    if (issue) {
+      add(references, { key: `#${Number(issue[1])}`, provider: 'github', source: 'branch' });
+      continue;
+    }
+    const key = segment.match(SEGMENT_KEY);
+    if (key) {
+      addKey(references, key[1], key[2], 'branch');
+    }
+  }
+  return references;
+}
+
+/**
+ * References in a commit message, in the order they appear
+ */
+export function parseCommitReferences(message: string): TicketReference[] {
+  const found: Array<{ index: number; reference: TicketReference }> = [];
+
+  for (const match of message.matchAll(UPPER_CASE_KEY)) {
+    if (!NOT_TICKET_PREFIXES.has(match[1])) {
+      found.push({ index: match.index!, reference: { key: `${match[1]}-${Number(match[2])}`, source: 'commit' } });
+    }
+  }
+  for (const match of message.matchAll(GITHUB_REFERENCE)) {
+    found.push({
+      index: match.index!,
+      reference: { key: `#${Number(match[2])}`, provider: 'github', repository: match[1], source: 'commit' }
+    });
+  }
+
+  const references: TicketReference[] = [];
+  for (const { reference } of found.sort((a, b) => a.index - b.index)) {
+    add(references, reference);
+  }
+  return references;
+}
+
+/**
+ * Every reference of the checked-out branch, then of its recent commits (newest first), without repeats
+ */
+export function findTicketReferences(branch: string | undefined, commitMessages: string[]): TicketReference[] {
+  const references: TicketReference[] = [];
+  for (const reference of [
+    ...(branch ? parseBranchReferences(branch) : []),
+    ...commitMessages.flatMap(message => parseCommitReferences(message))
+  ]) {
+    add(references, reference);
+  }
+  return references;
+}
+
+/**
+ * `owner/repo` of a GitHub remote URL, e.g. `https://github.com/owner/repo.git` or `git@github.com:owner/repo.git`
+ */
+export function parseGitHubRemote(url: string): string | undefined {
+  const match = url.match(/github\.com[:/]([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
+  return match ? `${match[1]}/${match[2]}` : undefined;
+}
+
+function addKey(references: TicketReference[], prefix: string, number: string, source: TicketReference['source']): void {
+  if (!NOT_TICKET_PREFIXES.has(prefix.toUpperCase())) {
+    add(references, { key: `${prefix.toUpperCase()}-${Number(number)}`, source });
+  }
+}
+
+function add(references: TicketReference[], reference: TicketReference): void {
+  const duplicate = references.some(existing =>
+    existing.key === reference.key && existing.provider === reference.provider && existing.repository === reference.repository
+  );
+  if (!duplicate) {
+    references.push(reference);
+  }
+}
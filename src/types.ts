@@ -13,9 +13,49 @@ export interface RecentTicket {
   status: string;
 }
 
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMSamplingOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A single completion request understood by every LLM backend.
+ * When `onToken` is provided the backend streams and reports each chunk as it arrives.
+ */
+export interface LLMRequest {
+  messages: LLMMessage[];
+  options?: LLMSamplingOptions;
+  signal?: AbortSignal;
+  onToken?: (token: string) => void;
+  /** Ask for JSON matching this schema; backends pass it on, and the prompt should describe it too for servers that ignore it */
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
 export interface LLMResponse {
   content: string;
   isStreaming: boolean;
+  model?: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMModelInfo {
+  id: string;
+  name: string;
+  contextLength?: number;
 }
 
 export interface ProviderConfig {
@@ -29,13 +69,81 @@ export interface PlanGenerationOptions {
   includeFileStructure: boolean;
   includeTestingStrategy: boolean;
   includeDeploymentSteps: boolean;
+  /** Add the branch's changes, commits mentioning the ticket and uncommitted work from the local git repository */
+  includeGitContext: boolean;
+  /** Ask for the plan as JSON steps, rendered to markdown and tracked as a checklist */
+  structuredOutput: boolean;
+}
+
+export interface ContextFileSelection {
+  /** Workspace-relative path */
+  path: string;
+  /** BM25 relevance to the ticket; imported files carry their importer's score */
+  score: number;
+  reason: 'match' | 'import' | 'fallback';
+  matchedTerms: string[];
+  importedBy?: string;
+  /** Set when only part of the file fit in the token budget */
+  excerpt?: 'outline' | 'truncated';
+}
+
+export interface GitCommit {
+  /** Abbreviated hash */
+  hash: string;
+  author: string;
+  /** Commit date, YYYY-MM-DD */
+  date: string;
+  subject: string;
+}
+
+export interface GitFileChange {
+  /** Status letter as printed by `git diff --name-status` (M, A, D, R...), or `?` for untracked files */
+  status: string;
+  /** Path relative to the workspace folder */
+  path: string;
+}
+
+/**
+ * What the local repository says about work already done for a ticket
+ */
+export interface GitContext {
+  /** Workspace folder the repository was read from */
+  folder: string;
+  /** Current branch, or the abbreviated commit when HEAD is detached */
+  branch: string;
+  /** Branch the current one is compared with (e.g. "main"); unset on that branch itself */
+  baseRef?: string;
+  /** Files changed on the current branch since it left `baseRef` */
+  branchChanges: GitFileChange[];
+  /** Recent commits on any local branch whose message mentions the ticket key */
+  ticketCommits: GitCommit[];
+  /** Staged, unstaged and untracked files */
+  uncommittedChanges: GitFileChange[];
+  /** `git diff HEAD` for tracked files */
+  uncommittedDiff: string;
+  /** The last commits that touched the best-matching files */
+  fileHistory: Array<{ path: string; commits: GitCommit[] }>;
 }
 
 export interface WorkspaceContext {
+  /** Markdown sent to the model */
+  content: string;
+  /** Workspace folders read; empty when no folder is open and the plan is based on the ticket alone */
+  folders: string[];
   files: string[];
   structure: string;
+  /** Length of `content` in characters */
   totalSize: number;
+  /** Estimated length of `content` in tokens */
+  totalTokens: number;
+  tokenBudget: number;
   ignoredFiles: string[];
+  /** Files included in `content`, in the order they appear */
+  selection: ContextFileSelection[];
+  /** Further files whose declarations are listed in the project outline */
+  outlinedFiles: string[];
+  /** One entry per workspace folder inside a git repository, when git context was requested */
+  git: GitContext[];
 }
 
 export interface TaskGroup {
@@ -68,6 +176,15 @@ export interface TaskFilter {
   };
 }
 
+/**
+ * One page of a search
+ */
+export interface TicketPage {
+  tickets: RecentTicket[];
+  /** Opaque; pass it back to fetch the next page. Undefined on the last page. */
+  nextPageToken?: string;
+}
+
 export interface JiraBoard {
   id: number;
   name: string;
@@ -4,17 +4,47 @@
  */
 
 import * as vscode from 'vscode';
-import { loadEnvironmentConfig, getProviderConfig, isProviderConfigured } from '../config/environment';
-import { ConfigValidator } from '../utils/validation';
+import { loadEnvironmentConfig, isProviderConfigured } from '../config/environment';
+import { ConfigValidator, ConfigSchemas, Validator } from '../utils/validation';
+import { createOllamaLLM, createOpenAICompatibleLLM, createOpenRouterLLM } from '../config/llm-factory';
+import { BaseLLM } from '../llm/base';
 import { ErrorFactory, ExtensionError } from '../utils/errorTypes';
 import { errorHandler } from './errorHandler';
 import { feedbackSystem } from './feedbackSystem';
 
+/**
+ * Workspace settings saved by the panel, per section: `aiPlan.<name>` for the environment variable `<NAME>`
+ */
+const CONFIG_SETTING_KEYS: Record<string, string[]> = {
+  jira: ['jira_base_url', 'jira_token', 'jira_deployment'],
+  linear: ['linear_api_token'],
+  slack: ['slack_bot_token'],
+  github: ['github_token'],
+  ollama: ['ollama_base_url', 'ollama_model', 'ollama_num_ctx', 'ollama_num_predict', 'ollama_temperature'],
+  openrouter: ['openrouter_api_key', 'openrouter_model'],
+  openaiCompatible: ['openai_compat_base_url', 'openai_compat_api_key', 'openai_compat_model', 'openai_compat_headers'],
+  llm: ['llm_provider']
+};
+
+/**
+ * Apply the values saved from the configuration panel to the environment variables the configuration is
+ * read from. Saved values take precedence over the .env file.
+ */
+export function applySavedConfiguration(): void {
+  const config = vscode.workspace.getConfiguration('aiPlan');
+  for (const key of Object.values(CONFIG_SETTING_KEYS).flat()) {
+    const value = config.get<string>(key);
+    if (value) {
+      process.env[key.toUpperCase()] = value;
+    }
+  }
+}
+
 interface ConfigurationItem {
   id: string;
   label: string;
   description: string;
-  type: 'text' | 'password' | 'boolean' | 'select';
+  type: 'text' | 'password' | 'boolean' | 'select' | 'model';
   value?: string;
   placeholder?: string;
   options?: Array<{ label: string; value: string }>;
@@ -101,6 +131,28 @@ export class ConfigurationPanel {
    */
   private buildConfigurationSections(config: Record<string, any>): ProviderSection[] {
     return [
+      {
+        id: 'llm',
+        name: 'AI Provider',
+        description: 'Choose which AI backend generates plans',
+        enabled: true,
+        items: [
+          {
+            id: 'LLM_PROVIDER',
+            label: 'Provider',
+            description: 'Automatic uses OpenRouter when an API key is set, otherwise Ollama',
+            type: 'select',
+            value: config.llm.provider,
+            options: [
+              { label: 'Automatic', value: '' },
+              { label: 'Ollama (Local AI)', value: 'ollama' },
+              { label: 'OpenRouter (Cloud AI)', value: 'openrouter' },
+              { label: 'OpenAI-compatible server', value: 'openai-compatible' }
+            ],
+            required: false
+          }
+        ]
+      },
       {
         id: 'jira',
         name: 'Jira',
@@ -125,6 +177,19 @@ export class ConfigurationPanel {
             value: config.jira.token ? '***CONFIGURED***' : '',
             placeholder: 'your_jira_personal_access_token',
             required: true
+          },
+          {
+            id: 'JIRA_DEPLOYMENT',
+            label: 'Deployment',
+            description: 'Cloud uses API v3 and email:token; Server/Data Center uses API v2 and personal access tokens',
+            type: 'select',
+            value: config.jira.deployment,
+            options: [
+              { label: 'Detect automatically', value: 'auto' },
+              { label: 'Jira Cloud', value: 'cloud' },
+              { label: 'Jira Server / Data Center', value: 'server' }
+            ],
+            required: false
           }
         ]
       },
@@ -201,11 +266,38 @@ export class ConfigurationPanel {
           {
             id: 'OLLAMA_MODEL',
             label: 'Model',
-            description: 'Model name to use for plan generation',
-            type: 'text',
+            description: 'Model to use for plan generation; load the installed models from the server',
+            type: 'model',
             value: config.ollama.model,
             placeholder: 'llama2:13b',
             required: false
+          },
+          {
+            id: 'OLLAMA_NUM_CTX',
+            label: 'Context Window',
+            description: 'Context size in tokens (num_ctx); leave empty for the model default',
+            type: 'text',
+            value: config.ollama.numCtx?.toString(),
+            placeholder: '8192',
+            required: false
+          },
+          {
+            id: 'OLLAMA_NUM_PREDICT',
+            label: 'Max Output Tokens',
+            description: 'Maximum tokens to generate (num_predict); leave empty for the default',
+            type: 'text',
+            value: config.ollama.numPredict?.toString(),
+            placeholder: '4000',
+            required: false
+          },
+          {
+            id: 'OLLAMA_TEMPERATURE',
+            label: 'Temperature',
+            description: 'Sampling temperature between 0 and 2',
+            type: 'text',
+            value: config.ollama.temperature?.toString(),
+            placeholder: '0.7',
+            required: false
           }
         ]
       },
@@ -240,6 +332,53 @@ export class ConfigurationPanel {
             required: false
           }
         ]
+      },
+      {
+        id: 'openaiCompatible',
+        name: 'OpenAI-compatible Server',
+        description: 'Any /v1/chat/completions server: vLLM, LM Studio, llama.cpp, LocalAI or a corporate gateway',
+        enabled: !!config.openAICompatible.baseUrl,
+        items: [
+          {
+            id: 'OPENAI_COMPAT_BASE_URL',
+            label: 'Base URL',
+            description: 'Server URL, with or without the trailing /v1',
+            type: 'text',
+            value: config.openAICompatible.baseUrl,
+            placeholder: 'http://localhost:8000/v1',
+            required: true,
+            validation: 'url'
+          },
+          {
+            id: 'OPENAI_COMPAT_API_KEY',
+            label: 'API Key',
+            description: 'Sent as a Bearer token; leave empty if the server needs none',
+            type: 'password',
+            value: config.openAICompatible.apiKey ? '***CONFIGURED***' : '',
+            placeholder: 'sk-...',
+            required: false
+          },
+          {
+            id: 'OPENAI_COMPAT_MODEL',
+            label: 'Model',
+            description: 'Model to use; load the list from the server\'s /v1/models',
+            type: 'model',
+            value: config.openAICompatible.model,
+            placeholder: 'meta-llama/Llama-3.1-8B-Instruct',
+            required: false
+          },
+          {
+            id: 'OPENAI_COMPAT_HEADERS',
+            label: 'Extra Headers',
+            description: 'JSON object of headers added to every request',
+            type: 'text',
+            value: Object.keys(config.openAICompatible.headers).length > 0
+              ? JSON.stringify(config.openAICompatible.headers)
+              : '',
+            placeholder: '{"X-Team": "platform"}',
+            required: false
+          }
+        ]
       }
     ];
   }
@@ -268,6 +407,9 @@ export class ConfigurationPanel {
       case 'openEnvFile':
         await this.openEnvFile();
         break;
+      case 'listModels':
+        await this.listModels(message.provider, message.data || {});
+        break;
       default:
         console.warn('Unknown webview message command:', message.command);
       }
@@ -294,10 +436,11 @@ export class ConfigurationPanel {
         }
       }
 
-      // Save to workspace configuration
+      // Save to workspace configuration, and apply it now so providers created from here on use it
       for (const [key, value] of Object.entries(data)) {
         if (value && value !== '***CONFIGURED***') {
           await config.update(key.toLowerCase(), value, vscode.ConfigurationTarget.Workspace);
+          process.env[key] = value;
         }
       }
 
@@ -332,27 +475,90 @@ export class ConfigurationPanel {
    */
   private async validateConfigurationItem(key: string, value: string): Promise<void> {
     switch (key) {
-      case 'JIRA_BASE_URL':
-        ConfigValidator.validateJiraConfig({ baseUrl: value }, 'ConfigurationPanel');
-        break;
-      case 'JIRA_TOKEN':
-        ConfigValidator.validateJiraConfig({ token: value }, 'ConfigurationPanel');
-        break;
-      case 'LINEAR_API_TOKEN':
-        ConfigValidator.validateLinearConfig({ token: value }, 'ConfigurationPanel');
-        break;
-      case 'SLACK_BOT_TOKEN':
-        ConfigValidator.validateSlackConfig({ token: value }, 'ConfigurationPanel');
-        break;
-      case 'GITHUB_TOKEN':
-        ConfigValidator.validateGitHubConfig({ token: value }, 'ConfigurationPanel');
+    case 'JIRA_BASE_URL':
+      ConfigValidator.validateJiraConfig({ baseUrl: value }, 'ConfigurationPanel');
+      break;
+    case 'JIRA_TOKEN':
+      ConfigValidator.validateJiraConfig({ token: value }, 'ConfigurationPanel');
+      break;
+    case 'LINEAR_API_TOKEN':
+      ConfigValidator.validateLinearConfig({ token: value }, 'ConfigurationPanel');
+      break;
+    case 'SLACK_BOT_TOKEN':
+      ConfigValidator.validateSlackConfig({ token: value }, 'ConfigurationPanel');
+      break;
+    case 'GITHUB_TOKEN':
+      ConfigValidator.validateGitHubConfig({ token: value }, 'ConfigurationPanel');
+      break;
+    case 'OLLAMA_BASE_URL':
+      Validator.validateField(value, 'baseUrl', ConfigSchemas.ollama.baseUrl, 'ConfigurationPanel');
+      break;
+    case 'OLLAMA_NUM_CTX':
+      Validator.validateField(value, 'numCtx', ConfigSchemas.ollama.numCtx, 'ConfigurationPanel');
+      break;
+    case 'OLLAMA_NUM_PREDICT':
+      Validator.validateField(value, 'numPredict', ConfigSchemas.ollama.numPredict, 'ConfigurationPanel');
+      break;
+    case 'OLLAMA_TEMPERATURE':
+      Validator.validateField(value, 'temperature', ConfigSchemas.ollama.temperature, 'ConfigurationPanel');
+      break;
+    case 'OPENROUTER_API_KEY':
+      ConfigValidator.validateOpenRouterConfig({ apiKey: value }, 'ConfigurationPanel');
+      break;
+    case 'OPENAI_COMPAT_BASE_URL':
+      Validator.validateField(value, 'baseUrl', ConfigSchemas.openAICompatible.baseUrl, 'ConfigurationPanel');
+      break;
+    case 'OPENAI_COMPAT_HEADERS':
+      Validator.validateField(value, 'headers', ConfigSchemas.openAICompatible.headers, 'ConfigurationPanel');
+      break;
+    }
+  }
+
+  /**
+   * Fetch the model list of an AI provider and send it to the webview.
+   * Unsaved form values take precedence so models can be listed before saving.
+   */
+  private async listModels(providerId: string, data: Record<string, string>): Promise<void> {
+    const formValue = (key: string) => data[key] && data[key] !== '***CONFIGURED***' ? data[key] : undefined;
+
+    try {
+      let llm: BaseLLM;
+      switch (providerId) {
+      case 'ollama':
+        llm = createOllamaLLM({ baseUrl: formValue('OLLAMA_BASE_URL') });
         break;
-      case 'OLLAMA_BASE_URL':
-        ConfigValidator.validateOllamaConfig({ baseUrl: value }, 'ConfigurationPanel');
+      case 'openrouter':
+        llm = createOpenRouterLLM({ apiKey: formValue('OPENROUTER_API_KEY') });
         break;
-      case 'OPENROUTER_API_KEY':
-        ConfigValidator.validateOpenRouterConfig({ apiKey: value }, 'ConfigurationPanel');
+      case 'openaiCompatible': {
+        const headers = formValue('OPENAI_COMPAT_HEADERS');
+        llm = createOpenAICompatibleLLM({
+          baseUrl: formValue('OPENAI_COMPAT_BASE_URL'),
+          apiKey: formValue('OPENAI_COMPAT_API_KEY'),
+          headers: headers ? JSON.parse(headers) : undefined
+        });
         break;
+      }
+      default:
+        throw ErrorFactory.invalidConfig('ConfigurationPanel', `${providerId} does not support model listing`);
+      }
+
+      const models = await llm.listModels();
+      this.panel?.webview.postMessage({
+        command: 'modelList',
+        provider: providerId,
+        success: true,
+        models: models.map(m => ({ id: m.id, name: m.name })),
+        message: `Found ${models.length} models`
+      });
+    } catch (error) {
+      this.panel?.webview.postMessage({
+        command: 'modelList',
+        provider: providerId,
+        success: false,
+        models: [],
+        message: error instanceof Error ? error.message : String(error)
+      });
     }
   }
 
@@ -422,16 +628,7 @@ export class ConfigurationPanel {
    * Get configuration keys for a provider
    */
   private getProviderConfigKeys(providerId: string): string[] {
-    const keyMap: Record<string, string[]> = {
-      jira: ['jira_base_url', 'jira_token'],
-      linear: ['linear_api_token'],
-      slack: ['slack_bot_token'],
-      github: ['github_token'],
-      ollama: ['ollama_base_url', 'ollama_model'],
-      openrouter: ['openrouter_api_key', 'openrouter_model']
-    };
-    
-    return keyMap[providerId] || [];
+    return CONFIG_SETTING_KEYS[providerId] || [];
   }
 
   /**
@@ -533,6 +730,7 @@ export class ConfigurationPanel {
       '# Jira Configuration',
       `JIRA_BASE_URL=${config.jira.baseUrl || ''}`,
       `JIRA_TOKEN=${config.jira.token || ''}`,
+      `JIRA_DEPLOYMENT=${config.jira.deployment || 'auto'}`,
       '',
       '# Linear Configuration',
       `LINEAR_API_TOKEN=${config.linear.apiToken || ''}`,
@@ -546,11 +744,23 @@ export class ConfigurationPanel {
       '# Ollama Configuration',
       `OLLAMA_BASE_URL=${config.ollama.baseUrl}`,
       `OLLAMA_MODEL=${config.ollama.model}`,
+      `OLLAMA_NUM_CTX=${config.ollama.numCtx ?? ''}`,
+      `OLLAMA_NUM_PREDICT=${config.ollama.numPredict ?? ''}`,
+      `OLLAMA_TEMPERATURE=${config.ollama.temperature ?? ''}`,
       '',
       '# OpenRouter Configuration',
       `OPENROUTER_API_KEY=${config.openRouter.apiKey || ''}`,
       `OPENROUTER_MODEL=${config.openRouter.model || ''}`,
       '',
+      '# OpenAI-compatible Server Configuration',
+      `OPENAI_COMPAT_BASE_URL=${config.openAICompatible.baseUrl || ''}`,
+      `OPENAI_COMPAT_API_KEY=${config.openAICompatible.apiKey || ''}`,
+      `OPENAI_COMPAT_MODEL=${config.openAICompatible.model || ''}`,
+      `OPENAI_COMPAT_HEADERS=${Object.keys(config.openAICompatible.headers).length > 0 ? JSON.stringify(config.openAICompatible.headers) : ''}`,
+      '',
+      '# AI Provider Selection (ollama, openrouter, openai-compatible)',
+      `LLM_PROVIDER=${config.llm.provider || ''}`,
+      '',
       '# Development Settings',
       `NODE_ENV=${config.nodeEnv}`,
       `LOG_LEVEL=${config.logLevel}`
@@ -727,6 +937,15 @@ export class ConfigurationPanel {
             border-color: var(--vscode-focusBorder);
         }
 
+        .model-picker {
+            display: flex;
+            gap: 8px;
+        }
+
+        .model-picker button {
+            white-space: nowrap;
+        }
+
         .form-group .required::after {
             content: " *";
             color: var(--vscode-errorForeground);
@@ -803,6 +1022,19 @@ export class ConfigurationPanel {
                                     <option value="${opt.value}" ${item.value === opt.value ? 'selected' : ''}>${opt.label}</option>
                                 `).join('') || ''}
                             </select>
+                        ` : item.type === 'model' ? `
+                            <div class="model-picker">
+                                <input 
+                                    type="text" 
+                                    id="${item.id}" 
+                                    data-key="${item.id}"
+                                    list="models-${section.id}"
+                                    value="${item.value || ''}" 
+                                    placeholder="${item.placeholder || ''}"
+                                />
+                                <datalist id="models-${section.id}"></datalist>
+                                <button class="btn btn-secondary" onclick="loadModels('${section.id}')">Load Models</button>
+                            </div>
                         ` : `
                             <input 
                                 type="${item.type}" 
@@ -864,6 +1096,26 @@ export class ConfigurationPanel {
             });
         }
 
+        function loadModels(provider) {
+            const data = {};
+            document.querySelectorAll('.section[data-provider="' + provider + '"] [data-key]').forEach(element => {
+                data[element.dataset.key] = element.value;
+            });
+
+            const resultDiv = document.getElementById('test-' + provider);
+            if (resultDiv) {
+                resultDiv.style.display = 'block';
+                resultDiv.className = 'test-result';
+                resultDiv.textContent = 'Loading models...';
+            }
+
+            vscode.postMessage({
+                command: 'listModels',
+                provider: provider,
+                data: data
+            });
+        }
+
         function exportConfiguration() {
             vscode.postMessage({
                 command: 'exportConfiguration'
@@ -894,6 +1146,25 @@ export class ConfigurationPanel {
                         resultDiv.textContent = message.message;
                     }
                     break;
+                case 'modelList': {
+                    const list = document.getElementById('models-' + message.provider);
+                    if (list) {
+                        list.innerHTML = '';
+                        message.models.forEach(model => {
+                            const option = document.createElement('option');
+                            option.value = model.id;
+                            option.label = model.name;
+                            list.appendChild(option);
+                        });
+                    }
+                    const modelResult = document.getElementById('test-' + message.provider);
+                    if (modelResult) {
+                        modelResult.style.display = 'block';
+                        modelResult.className = 'test-result ' + (message.success ? 'success' : 'error');
+                        modelResult.textContent = message.message;
+                    }
+                    break;
+                }
             }
         });
     </script>
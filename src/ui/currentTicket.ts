@@ -0,0 +1,281 @@
+/**
+ * Works out which ticket is being worked on from the checked-out branch: the ticket a branch was created
+ * for, otherwise a ticket reference in the branch name or its recent commits, looked up with the providers
+ */
+
+import * as vscode from 'vscode';
+import { RecentTicket } from '../types';
+import { GitAPI, GitRepository, getGitAPI } from '../gitApi';
+import { TicketReference, findTicketReferences, parseGitHubRemote } from '../ticketReference';
+import { BASE_BRANCH_CANDIDATES } from '../gitContext';
+import { createProvider, getAvailableProviders } from '../config/provider-factory';
+import { getBranchTicket, onDidChangeBranchLinks } from './ticketBranch';
+import { listSavedPlans } from './planHistoryView';
+import { PlanGenerator } from './planGenerator';
+import { feedbackSystem } from './feedbackSystem';
+
+/** Commits scanned for a ticket reference, newest first */
+const COMMIT_DEPTH = 5;
+/** References looked up with the providers before giving up */
+const MAX_LOOKUPS = 5;
+/** Checkouts and rebases change HEAD several times; wait for them to settle */
+const REFRESH_DELAY = 500;
+
+/**
+ * Whether a provider answered that it has no such ticket: Jira and GitHub with HTTP 404, Linear with a
+ * GraphQL "Entity not found" error
+ */
+function isNotFound(message: string): boolean {
+  return /^HTTP 404\b/.test(message) || /Entity not found/i.test(message);
+}
+
+export class CurrentTicketService implements vscode.Disposable {
+  private readonly onDidChangeCurrentTicketEmitter = new vscode.EventEmitter<RecentTicket | undefined>();
+  readonly onDidChangeCurrentTicket = this.onDidChangeCurrentTicketEmitter.event;
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly repositorySubscriptions = new Map<GitRepository, vscode.Disposable>();
+  /** Ticket found for each repository, branch and HEAD commit, so switching back and forth does not query again */
+  private readonly resolved = new Map<string, RecentTicket | undefined>();
+  private git: GitAPI | undefined;
+  private repository: GitRepository | undefined;
+  private ticket: RecentTicket | undefined;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Incremented by every refresh, so an older lookup that finishes late is ignored */
+  private generation = 0;
+
+  /**
+   * Start following the checked-out branch of the workspace repositories
+   */
+  initialize(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(this);
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.scheduleRefresh()),
+      onDidChangeBranchLinks(() => {
+        this.resolved.clear();
+        this.scheduleRefresh();
+      })
+    );
+    this.watchRepositories().catch(error => console.error('Error watching git repositories:', error));
+  }
+
+  /**
+   * The ticket of the checked-out branch, if one was found
+   */
+  getCurrentTicket(): RecentTicket | undefined {
+    return this.ticket;
+  }
+
+  /**
+   * Look the current ticket up again
+   * @param force also repeat lookups already made for the branch, e.g. after configuring a provider
+   */
+  async refresh(force: boolean = false): Promise<RecentTicket | undefined> {
+    if (force) {
+      this.resolved.clear();
+    }
+    const generation = ++this.generation;
+    const repository = this.getActiveRepository();
+    const ticket = repository ? await this.resolve(repository) : undefined;
+    if (generation === this.generation) {
+      this.setTicket(ticket);
+    }
+    return ticket;
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.repositorySubscriptions.forEach(subscription => subscription.dispose());
+    this.repositorySubscriptions.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+    this.onDidChangeCurrentTicketEmitter.dispose();
+  }
+
+  private async watchRepositories(): Promise<void> {
+    this.git = await getGitAPI();
+    if (!this.git) {
+      return;
+    }
+
+    this.git.repositories.forEach(repository => this.track(repository));
+    this.disposables.push(
+      this.git.onDidOpenRepository(repository => {
+        this.track(repository);
+        this.scheduleRefresh();
+      }),
+      this.git.onDidCloseRepository(repository => {
+        this.repositorySubscriptions.get(repository)?.dispose();
+        this.repositorySubscriptions.delete(repository);
+        this.scheduleRefresh();
+      })
+    );
+    this.scheduleRefresh();
+  }
+
+  private track(repository: GitRepository): void {
+    if (!this.repositorySubscriptions.has(repository)) {
+      this.repositorySubscriptions.set(repository, repository.state.onDidChange(() => this.scheduleRefresh()));
+    }
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh().catch(error => console.error('Error detecting the current ticket:', error));
+    }, REFRESH_DELAY);
+  }
+
+  /**
+   * The repository of the active editor; the last one used, or the first, while the editor is outside any
+   */
+  private getActiveRepository(): GitRepository | undefined {
+    const repositories = this.git?.repositories || [];
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const active = activeUri?.scheme === 'file' ? this.git?.getRepository(activeUri) : undefined;
+    if (active) {
+      this.repository = active;
+    } else if (!this.repository || !repositories.includes(this.repository)) {
+      this.repository = repositories[0];
+    }
+    return this.repository;
+  }
+
+  private async resolve(repository: GitRepository): Promise<RecentTicket | undefined> {
+    const root = repository.rootUri.fsPath;
+    const branch = repository.state.HEAD?.name;
+    const key = [root, branch, repository.state.HEAD?.commit].join('\n');
+    if (this.resolved.has(key)) {
+      return this.resolved.get(key);
+    }
+
+    const branchTicket = branch ? getBranchTicket(root, branch) : undefined;
+    if (branchTicket) {
+      this.resolved.set(key, branchTicket);
+      return branchTicket;
+    }
+
+    // Commits on the main branch belong to every ticket merged so far, so only feature branches are scanned
+    const scanCommits = !branch || !BASE_BRANCH_CANDIDATES.includes(branch);
+    const commits = scanCommits ? await repository.log({ maxEntries: COMMIT_DEPTH }).catch(() => []) : [];
+    const references = findTicketReferences(branch, commits.map(commit => commit.message));
+    const { ticket, settled } = await this.lookUp(references.slice(0, MAX_LOOKUPS), repository);
+
+    // A lookup that could not reach a provider is tried again on the next refresh
+    if (settled) {
+      this.resolved.set(key, ticket);
+    }
+    return ticket;
+  }
+
+  /**
+   * The first reference that a configured provider knows; `PROJ-123` keys are tried with Jira, then Linear
+   * @returns settled is false when no ticket was found and a provider failed for a reason other than not having it
+   */
+  private async lookUp(
+    references: TicketReference[],
+    repository: GitRepository
+  ): Promise<{ ticket?: RecentTicket; settled: boolean }> {
+    const available = getAvailableProviders();
+    let settled = true;
+
+    for (const reference of references) {
+      const attempts: Array<{ provider: string; id: string }> = [];
+      if (reference.provider === 'github') {
+        const repo = reference.repository || this.getGitHubRepository(repository);
+        if (repo && available.includes('github')) {
+          attempts.push({ provider: 'github', id: `${repo}${reference.key}` });
+        }
+      } else {
+        attempts.push(...['jira', 'linear'].filter(name => available.includes(name)).map(provider => ({ provider, id: reference.key })));
+      }
+
+      for (const { provider, id } of attempts) {
+        try {
+          return { ticket: await createProvider(provider).getTicket(id), settled: true };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (isNotFound(message)) {
+            console.log(`${id} from the ${reference.source} is not a ${provider} ticket: ${message}`);
+          } else {
+            settled = false;
+            console.error(`Could not look up ${id} from the ${reference.source} with ${provider}:`, error);
+          }
+        }
+      }
+    }
+    return { settled };
+  }
+
+  /**
+   * `owner/repo` of the repository's GitHub remote, `origin` first
+   */
+  private getGitHubRepository(repository: GitRepository): string | undefined {
+    const remotes = [...repository.state.remotes].sort((a, b) => Number(b.name === 'origin') - Number(a.name === 'origin'));
+    for (const remote of remotes) {
+      const repo = parseGitHubRemote(remote.fetchUrl || remote.pushUrl || '');
+      if (repo) {
+        return repo;
+      }
+    }
+    return undefined;
+  }
+
+  private setTicket(ticket: RecentTicket | undefined): void {
+    if (ticket?.provider === this.ticket?.provider && ticket?.id === this.ticket?.id) {
+      return;
+    }
+    this.ticket = ticket;
+    feedbackSystem.setCurrentTicket(ticket);
+    this.onDidChangeCurrentTicketEmitter.fire(ticket);
+  }
+}
+
+export const currentTicketService = new CurrentTicketService();
+
+/**
+ * Actions for the current ticket, offered when its status bar item is clicked
+ */
+export async function showCurrentTicketActions(): Promise<void> {
+  const ticket = currentTicketService.getCurrentTicket() || await currentTicketService.refresh(true);
+  if (!ticket) {
+    await vscode.window.showInformationMessage('No ticket was found in the checked-out branch name or its recent commits.');
+    return;
+  }
+
+  const [latestPlan] = await listSavedPlans(ticket.key);
+  const actions: Array<vscode.QuickPickItem & { run: () => Promise<unknown> }> = [
+    {
+      label: latestPlan ? '$(sparkle) Regenerate Plan' : '$(sparkle) Generate Plan',
+      run: () => new PlanGenerator().generatePlan(ticket)
+    },
+    ...(latestPlan ? [{
+      label: '$(go-to-file) Open Latest Plan',
+      description: latestPlan.generatedAt.toLocaleString(),
+      run: () => Promise.resolve(vscode.window.showTextDocument(vscode.Uri.file(latestPlan.filePath), { preview: false }))
+    }] : []),
+    {
+      label: '$(link-external) View in Browser',
+      run: () => Promise.resolve(vscode.env.openExternal(vscode.Uri.parse(ticket.url)))
+    },
+    {
+      label: '$(refresh) Detect Current Ticket Again',
+      run: () => currentTicketService.refresh(true)
+    },
+    {
+      label: '$(info) Show Extension Status',
+      run: () => Promise.resolve(vscode.commands.executeCommand('ai-plan.showStatus'))
+    }
+  ];
+
+  const picked = await vscode.window.showQuickPick(actions, {
+    title: `${ticket.key}: ${ticket.summary}`,
+    placeHolder: `${ticket.status} · ${ticket.provider}`
+  });
+  await picked?.run();
+}
@@ -196,6 +196,16 @@ export class EnhancedErrorHandler {
       });
     }
 
+    // A larger model (or a larger OLLAMA_NUM_CTX) is the only way past a too-small context window
+    if (error.code === ErrorCode.CONTEXT_TOO_LARGE) {
+      actions.push({
+        label: 'Choose Another Model',
+        action: async () => {
+          await vscode.commands.executeCommand('ai-plan.openConfiguration');
+        }
+      });
+    }
+
     // Add validation-specific actions
     if (error instanceof ValidationError) {
       actions.push({
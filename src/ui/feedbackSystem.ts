@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { RecentTicket } from '../types';
 
 export interface FeedbackOptions {
   title?: string;
@@ -12,15 +13,14 @@ export class FeedbackSystem {
   private static instance: FeedbackSystem;
   private statusBarItem: vscode.StatusBarItem;
   private notifications: Set<string> = new Set();
+  private currentTicket: RecentTicket | undefined;
 
   private constructor() {
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right, 
       100
     );
-    this.statusBarItem.command = 'ai-plan.showStatus';
-    this.statusBarItem.text = '$(robot) AI Plan';
-    this.statusBarItem.tooltip = 'AI Plan Extension';
+    this.showIdleStatus();
     this.statusBarItem.show();
   }
 
@@ -128,6 +128,31 @@ export class FeedbackSystem {
     this.updateStatusBar(message, type, timeout);
   }
 
+  /**
+   * Show the ticket being worked on in the status bar whenever it is not reporting progress; clicking it
+   * offers the ticket's actions
+   */
+  setCurrentTicket(ticket: RecentTicket | undefined): void {
+    const changed = ticket?.key !== this.currentTicket?.key || ticket?.summary !== this.currentTicket?.summary;
+    this.currentTicket = ticket;
+    if (changed && this.statusBarItem.backgroundColor === undefined) {
+      this.showIdleStatus();
+    }
+  }
+
+  private showIdleStatus(): void {
+    this.statusBarItem.backgroundColor = undefined;
+    if (this.currentTicket) {
+      this.statusBarItem.text = `$(robot) ${this.currentTicket.key}`;
+      this.statusBarItem.tooltip = `AI Plan: working on ${this.currentTicket.key} - ${this.currentTicket.summary}`;
+      this.statusBarItem.command = 'ai-plan.currentTicket.actions';
+    } else {
+      this.statusBarItem.text = '$(robot) AI Plan';
+      this.statusBarItem.tooltip = 'AI Plan Extension';
+      this.statusBarItem.command = 'ai-plan.showStatus';
+    }
+  }
+
   async requestUserInput(
     title: string,
     placeholder?: string,
@@ -216,10 +241,7 @@ export class FeedbackSystem {
     this.statusBarItem.backgroundColor = colorMap[type];
     
     if (timeout) {
-      setTimeout(() => {
-        this.statusBarItem.text = '$(robot) AI Plan';
-        this.statusBarItem.backgroundColor = undefined;
-      }, timeout);
+      setTimeout(() => this.showIdleStatus(), timeout);
     }
   }
 
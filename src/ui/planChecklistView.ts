@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { PlanChecklist, PlanStep, renderStructuredPlan } from '../structuredPlan';
+import { getExtensionContext } from '../context';
+
+const CHECKLISTS_KEY = 'aiPlan.checklists';
+
+/** Fired whenever a checklist is saved or removed, so the view refreshes after plan generation too */
+const checklistsChanged = new vscode.EventEmitter<void>();
+
+/**
+ * A ticket's checklist, or one of its steps, in the Plan Checklist view
+ */
+export class PlanChecklistItem extends vscode.TreeItem {
+  constructor(readonly checklist: PlanChecklist, readonly step?: PlanStep) {
+    super(
+      step ? `${checklist.plan.steps.indexOf(step) + 1}. ${step.title}` : `${checklist.ticket}: ${checklist.summary}`,
+      step ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Expanded
+    );
+
+    const completed = new Set(checklist.completed);
+    if (step) {
+      this.id = `${checklist.ticket}:${step.id}`;
+      this.checkboxState = completed.has(step.id)
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
+      const waitingOn = step.dependencies
+        .filter(id => !completed.has(id))
+        .map(id => checklist.plan.steps.findIndex(candidate => candidate.id === id) + 1)
+        .filter(number => number > 0);
+      this.description = [
+        step.estimate,
+        !completed.has(step.id) && waitingOn.length > 0 ? `after ${waitingOn.map(number => `step ${number}`).join(', ')}` : ''
+      ].filter(Boolean).join(' · ');
+      this.tooltip = createStepTooltip(step);
+      this.contextValue = 'aiPlanChecklist.step';
+    } else {
+      const total = checklist.plan.steps.length;
+      const done = checklist.plan.steps.filter(candidate => completed.has(candidate.id)).length;
+      this.id = `ticket:${checklist.ticket}`;
+      this.description = `${done}/${total} done`;
+      this.iconPath = new vscode.ThemeIcon(done === total ? 'pass-filled' : 'checklist');
+      this.tooltip = new vscode.MarkdownString(checklist.plan.overview);
+      this.contextValue = 'aiPlanChecklist.ticket';
+    }
+  }
+}
+
+/**
+ * Lists the steps of the latest structured plan of each ticket as checkboxes; progress is kept in workspace state
+ */
+export class PlanChecklistProvider implements vscode.TreeDataProvider<PlanChecklistItem>, vscode.Disposable {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  private readonly subscription = checklistsChanged.event(() => this.onDidChangeTreeDataEmitter.fire());
+
+  /**
+   * Checklists of this workspace, most recently planned first
+   */
+  static getChecklists(): PlanChecklist[] {
+    const saved = getExtensionContext()?.workspaceState.get<Record<string, PlanChecklist>>(CHECKLISTS_KEY) || {};
+    return Object.values(saved).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  static getChecklist(ticketKey: string): PlanChecklist | undefined {
+    return getExtensionContext()?.workspaceState.get<Record<string, PlanChecklist>>(CHECKLISTS_KEY)?.[ticketKey];
+  }
+
+  /**
+   * Save a ticket's checklist, replacing the one of its previous plan
+   */
+  static async saveChecklist(checklist: PlanChecklist): Promise<void> {
+    await PlanChecklistProvider.update(saved => ({ ...saved, [checklist.ticket]: checklist }));
+  }
+
+  static async removeChecklist(ticketKey: string): Promise<void> {
+    await PlanChecklistProvider.update(saved => {
+      const rest = { ...saved };
+      delete rest[ticketKey];
+      return rest;
+    });
+  }
+
+  private static async update(change: (saved: Record<string, PlanChecklist>) => Record<string, PlanChecklist>): Promise<void> {
+    const state = getExtensionContext()?.workspaceState;
+    if (!state) {
+      return;
+    }
+    await state.update(CHECKLISTS_KEY, change(state.get<Record<string, PlanChecklist>>(CHECKLISTS_KEY) || {}));
+    checklistsChanged.fire();
+  }
+
+  /**
+   * Record steps checked or unchecked in the view
+   */
+  async setCompleted(changes: ReadonlyArray<[PlanChecklistItem, vscode.TreeItemCheckboxState]>): Promise<void> {
+    for (const [item, state] of changes) {
+      const checklist = item.step && PlanChecklistProvider.getChecklist(item.checklist.ticket);
+      if (!checklist || !item.step) {
+        continue;
+      }
+      const completed = checklist.completed.filter(id => id !== item.step!.id);
+      if (state === vscode.TreeItemCheckboxState.Checked) {
+        completed.push(item.step.id);
+      }
+      await PlanChecklistProvider.saveChecklist({ ...checklist, completed });
+    }
+  }
+
+  getTreeItem(element: PlanChecklistItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: PlanChecklistItem): PlanChecklistItem[] {
+    if (element) {
+      return element.step ? [] : element.checklist.plan.steps.map(step => new PlanChecklistItem(element.checklist, step));
+    }
+    return PlanChecklistProvider.getChecklists().map(checklist => new PlanChecklistItem(checklist));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
+
+/**
+ * Open the saved plan behind a checklist, or the plan rendered with its current progress when it was not saved
+ */
+export async function openChecklistPlan(checklist: PlanChecklist): Promise<void> {
+  if (checklist.filePath) {
+    try {
+      await vscode.window.showTextDocument(vscode.Uri.file(checklist.filePath), { preview: false });
+      return;
+    } catch (error) {
+      console.warn(`Saved plan ${checklist.filePath} could not be opened:`, error);
+    }
+  }
+  const document = await vscode.workspace.openTextDocument({
+    content: `# Implementation Plan: ${checklist.summary}\n\n**Ticket:** ${checklist.ticket}\n\n${renderStructuredPlan(checklist.plan, checklist.completed)}\n`,
+    language: 'markdown'
+  });
+  await vscode.window.showTextDocument(document, { preview: false });
+}
+
+function createStepTooltip(step: PlanStep): vscode.MarkdownString {
+  const lines = [`**${step.title}**`, step.description];
+  if (step.files.length > 0) {
+    lines.push(`**Files:** ${step.files.map(file => `\`${file}\``).join(', ')}`);
+  }
+  return new vscode.MarkdownString(lines.join('\n\n'));
+}
@@ -1,14 +1,75 @@
 import * as vscode from 'vscode';
-import { RecentTicket, LLMResponse } from '../types';
-import { OllamaProvider } from '../llm/ollama';
-import { OpenRouterProvider } from '../llm/openrouter';
+import { LLMMessage, LLMRequest, PlanGenerationOptions, RecentTicket, WorkspaceContext } from '../types';
+import { buildPlanMessages } from '../llm/prompts';
+import { PromptTemplate, loadPromptTemplates, renderPromptTemplate, selectPromptTemplate } from '../llm/promptTemplates';
+import { BaseLLM } from '../llm/base';
+import { ContextBudget, calculateContextBudget, estimateMessageTokens } from '../llm/tokenBudget';
 import { ContextBuilder } from '../contextBuilder';
 import { StreamingPanel } from './streamingPanel';
 import { taskQueue } from '../utils/taskQueue';
 import { feedbackSystem } from './feedbackSystem';
 import { ErrorFactory, ExtensionError } from '../utils/errorTypes';
 import { errorHandler } from './errorHandler';
+import { createLLMProvider, createOllamaLLM } from '../config/llm-factory';
+import { getExtensionContext } from '../context';
 import { getProviderConfig } from '../config/environment';
+import { PlanHistory, hashPrompt } from '../planHistory';
+import { STRUCTURED_PLAN_SCHEMA, StructuredPlan, createChecklist, parseStructuredPlan, renderStructuredPlan } from '../structuredPlan';
+import { PlanChecklistProvider } from './planChecklistView';
+import { createProvider } from '../config/provider-factory';
+import { COMMENT_LENGTHS, COMMENT_LIMITS, truncateComment } from '../commentFormat';
+import { startWork } from './ticketWorkflow';
+
+const PLAN_TASK_PREFIX = 'plan-generation-';
+const PLAN_OPTIONS_KEY = 'aiPlan.planOptions';
+
+export const DEFAULT_PLAN_OPTIONS: PlanGenerationOptions = {
+  includeCodeExamples: true,
+  includeFileStructure: true,
+  includeTestingStrategy: true,
+  includeDeploymentSteps: true,
+  includeGitContext: true,
+  structuredOutput: false
+};
+
+/** Picker labels of the plan options, in display order */
+export const PLAN_OPTION_LABELS: Record<keyof PlanGenerationOptions, string> = {
+  includeCodeExamples: 'Code examples',
+  includeFileStructure: 'File structure',
+  includeTestingStrategy: 'Testing strategy',
+  includeDeploymentSteps: 'Deployment steps',
+  includeGitContext: 'Git context',
+  structuredOutput: 'Structured checklist'
+};
+
+export interface PlanResult {
+  /** Markdown; rendered from `structured` when the plan was asked for as JSON */
+  plan: string;
+  structured?: StructuredPlan;
+  context: WorkspaceContext;
+  options: PlanGenerationOptions;
+  /** LLM backend and model that wrote the plan */
+  provider: string;
+  model: string;
+  generatedAt: Date;
+  /** See `hashPrompt` */
+  promptHash: string;
+  /** Workspace prompt template used instead of the built-in prompt */
+  promptTemplate?: string;
+  /** Where the plan was saved in the plan history, once it has been */
+  filePath?: string;
+}
+
+/**
+ * Stored on plan generation tasks so they can be described, retried and opened later
+ */
+export interface PlanTaskMetadata {
+  ticket: RecentTicket;
+  provider: string;
+  model: string;
+  streaming: boolean;
+  options: PlanGenerationOptions;
+}
 
 export class PlanGenerator {
   private contextBuilder: ContextBuilder;
@@ -19,24 +80,55 @@ export class PlanGenerator {
     this.outputChannel = vscode.window.createOutputChannel('AI Plan');
   }
 
-  async generatePlan(ticket: RecentTicket): Promise<void> {
-    const taskId = `plan-generation-${ticket.key}-${Date.now()}`;
+  /**
+   * Plan options last chosen in the options picker, shared by every workspace
+   */
+  static getDefaultOptions(): PlanGenerationOptions {
+    const saved = getExtensionContext()?.globalState.get<Partial<PlanGenerationOptions>>(PLAN_OPTIONS_KEY);
+    // Options added since the defaults were saved start out at their default
+    return { ...DEFAULT_PLAN_OPTIONS, ...saved };
+  }
+
+  static async setDefaultOptions(options: PlanGenerationOptions): Promise<void> {
+    await getExtensionContext()?.globalState.update(PLAN_OPTIONS_KEY, options);
+  }
+
+  /**
+   * Cancel every queued or running plan generation
+   * @returns the number of generations cancelled
+   */
+  static cancelActiveGenerations(): number {
+    return taskQueue.getActiveTasks()
+      .filter(task => task.id.startsWith(PLAN_TASK_PREFIX))
+      .filter(task => taskQueue.cancel(task.id))
+      .length;
+  }
+
+  async generatePlan(ticket: RecentTicket, options: PlanGenerationOptions = PlanGenerator.getDefaultOptions()): Promise<void> {
+    const taskId = `${PLAN_TASK_PREFIX}${ticket.key}-${Date.now()}`;
     
     try {
+      // Get LLM provider based on configuration; its name decides the concurrency limit
+      const llmProvider = createLLMProvider();
+
       // Queue the plan generation as a background task
       const taskResult = await taskQueue.enqueue({
         id: taskId,
         name: `Generate Plan for ${ticket.key}`,
         priority: 'high',
         timeout: 120000, // 2 minutes
-        operation: async () => {
-          return this.generatePlanInternal(ticket);
+        resourceKey: `llm:${llmProvider.getProviderName()}`,
+        metadata: this.getTaskMetadata(ticket, llmProvider, false, options),
+        operation: async (signal) => {
+          return this.generatePlanInternal(ticket, taskId, llmProvider, options, signal);
         }
       });
 
       if (taskResult.status === 'completed' && taskResult.result) {
         // Show the generated plan
         await this.showPlan(ticket, taskResult.result);
+      } else if (taskResult.status === 'cancelled') {
+        feedbackSystem.showStatusBarMessage(`$(debug-stop) Plan generation cancelled for ${ticket.key}`, 'warning', 3000);
       } else if (taskResult.status === 'failed' && taskResult.error) {
         await errorHandler.handleExtensionError(taskResult.error);
       }
@@ -44,70 +136,311 @@ export class PlanGenerator {
     } catch (error) {
       const extensionError = error instanceof ExtensionError 
         ? error 
-        : ErrorFactory.workspaceError('PlanGenerator', 'generate_plan', error.message);
+        : ErrorFactory.workspaceError('PlanGenerator', 'generate_plan', error instanceof Error ? error.message : String(error));
       
       await errorHandler.handleExtensionError(extensionError);
     }
   }
 
-  private async generatePlanInternal(ticket: RecentTicket): Promise<{ plan: string; context: string }> {
+  private async generatePlanInternal(
+    ticket: RecentTicket,
+    taskId: string,
+    llmProvider: BaseLLM,
+    options: PlanGenerationOptions,
+    signal: AbortSignal
+  ): Promise<PlanResult | undefined> {
     return await feedbackSystem.showProgress(
       `Generating plan for ${ticket.key}`,
-      async (progress) => {
+      async (progress, token) => {
+        // Cancel in the notification cancels the queued task, which aborts `signal`
+        token.onCancellationRequested(() => taskQueue.cancel(taskId));
+
         progress.report({ message: 'Building workspace context...', increment: 20 });
         
-        // Build context
-        const context = await this.contextBuilder.buildContext();
-        
-        progress.report({ message: 'Initializing AI provider...', increment: 40 });
-        
-        // Get LLM provider based on configuration
-        const llmProvider = this.createLLMProvider();
+        // Build context sized to the model's window
+        const template = await this.getPromptTemplate(ticket, llmProvider);
+        const budget = await this.getContextBudget(ticket, llmProvider, options, template);
+        const context = await this.contextBuilder.buildContext(ticket, {
+          signal,
+          tokenBudget: budget.contextTokens,
+          includeFileStructure: options.includeFileStructure,
+          includeGitContext: options.includeGitContext
+        });
         
-        progress.report({ message: 'Generating implementation plan...', increment: 60 });
+        progress.report({
+          message: context.folders.length > 0
+            ? 'Generating implementation plan...'
+            : 'No folder open, generating a plan from the ticket only...',
+          increment: 60
+        });
         
         // Generate plan
-        const response = await llmProvider.generatePlan(ticket, context, undefined, {});
+        const messages = buildPlanMessages(ticket, context.content, options, template);
+        const response = await llmProvider.generate({
+          messages,
+          options: { maxTokens: budget.outputTokens },
+          signal,
+          responseSchema: this.getResponseSchema(options)
+        });
+        const plan = await this.readPlan(ticket, response.content, llmProvider, messages, budget, options, signal);
         
         progress.report({ message: 'Plan generated successfully!', increment: 100 });
         
-        return { plan: response.content, context };
+        return this.createPlanResult(plan, context, options, llmProvider, messages, template);
       },
       { cancellable: true }
     );
   }
 
-  private createLLMProvider() {
-    // Try OpenRouter first if configured
-    const openRouterConfig = getProviderConfig('openRouter');
-    if (openRouterConfig.apiKey) {
-      return new OpenRouterProvider({
-        apiKey: openRouterConfig.apiKey,
-        model: openRouterConfig.model
+  /**
+   * Open a generated plan: its plan history file once saved, otherwise a new untitled markdown editor
+   */
+  async openPlanDocument(ticket: RecentTicket, result: PlanResult): Promise<void> {
+    const planDocument = result.filePath
+      ? await vscode.workspace.openTextDocument(vscode.Uri.file(result.filePath))
+      : await vscode.workspace.openTextDocument({
+        content: this.formatPlanDocument(ticket, result.plan, result.options, result.context, result.generatedAt),
+        language: 'markdown'
       });
-    }
 
-    // Fall back to Ollama
-    const ollamaConfig = getProviderConfig('ollama');
-    return new OllamaProvider({
-      baseUrl: ollamaConfig.baseUrl,
-      model: ollamaConfig.model
+    await vscode.window.showTextDocument(planDocument, {
+      preview: false,
+      viewColumn: vscode.ViewColumn.Beside
     });
   }
 
-  private async showPlan(ticket: RecentTicket, result: { plan: string; context: string }): Promise<void> {
+  /**
+   * Split the model's context window between the prompt, the answer and the workspace context
+   * @throws CONTEXT_TOO_LARGE when the ticket alone leaves no room for an answer
+   */
+  private async getContextBudget(
+    ticket: RecentTicket,
+    llmProvider: BaseLLM,
+    options: PlanGenerationOptions,
+    template?: PromptTemplate
+  ): Promise<ContextBudget> {
+    const contextWindow = await llmProvider.getContextWindow();
+    const promptTokens = estimateMessageTokens(buildPlanMessages(ticket, '', options, template));
+    const budget = calculateContextBudget(contextWindow, promptTokens, llmProvider.getMaxOutputTokens());
+
+    if (budget.contextTokens < 0) {
+      throw ErrorFactory.contextTooLarge(
+        'PlanGenerator',
+        llmProvider.getModel() || llmProvider.getProviderName(),
+        promptTokens + budget.outputTokens,
+        contextWindow
+      );
+    }
+    return budget;
+  }
+
+  /**
+   * The workspace prompt template for this ticket and backend, if the workspace defines one
+   */
+  private async getPromptTemplate(ticket: RecentTicket, llmProvider: BaseLLM): Promise<PromptTemplate | undefined> {
+    const folders = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+    return selectPromptTemplate(await loadPromptTemplates(folders), ticket, llmProvider.getProviderName());
+  }
+
+  /**
+   * Show the exact messages a plan generation would send, with the template and token estimate, without calling the model
+   */
+  async previewPrompt(ticket: RecentTicket, options: PlanGenerationOptions = PlanGenerator.getDefaultOptions()): Promise<void> {
     try {
-      // Create a new markdown document with the plan
-      const planDocument = await vscode.workspace.openTextDocument({
-        content: this.formatPlanDocument(ticket, result.plan, result.context),
-        language: 'markdown'
-      });
+      const llmProvider = createLLMProvider();
+      const preview = await feedbackSystem.showProgress(`Rendering prompt for ${ticket.key}`, async (progress, token) => {
+        const controller = new AbortController();
+        token.onCancellationRequested(() => controller.abort());
+
+        progress.report({ message: 'Building workspace context...' });
+        const template = await this.getPromptTemplate(ticket, llmProvider);
+        const budget = await this.getContextBudget(ticket, llmProvider, options, template);
+        const context = await this.contextBuilder.buildContext(ticket, {
+          signal: controller.signal,
+          tokenBudget: budget.contextTokens,
+          includeFileStructure: options.includeFileStructure,
+          includeGitContext: options.includeGitContext
+        });
+        const messages = buildPlanMessages(ticket, context.content, options, template);
+        const unknownVariables = template
+          ? renderPromptTemplate(template, { ticket, context: '', sections: '' }).unknownVariables
+          : [];
+        return this.formatPromptPreview(ticket, llmProvider, budget, messages, template, unknownVariables);
+      }, { cancellable: true });
+
+      if (preview) {
+        const document = await vscode.workspace.openTextDocument({ content: preview, language: 'markdown' });
+        await vscode.window.showTextDocument(document, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+      }
+    } catch (error) {
+      const extensionError = error instanceof ExtensionError
+        ? error
+        : ErrorFactory.workspaceError('PlanGenerator', 'preview_prompt', error instanceof Error ? error.message : String(error));
 
-      // Show the document
-      await vscode.window.showTextDocument(planDocument, {
-        preview: false,
-        viewColumn: vscode.ViewColumn.Beside
-      });
+      await errorHandler.handleExtensionError(extensionError);
+    }
+  }
+
+  private formatPromptPreview(
+    ticket: RecentTicket,
+    llmProvider: BaseLLM,
+    budget: ContextBudget,
+    messages: LLMMessage[],
+    template: PromptTemplate | undefined,
+    unknownVariables: string[]
+  ): string {
+    const source = template
+      ? `${template.name} (\`${vscode.workspace.asRelativePath(template.filePath)}\`)${template.system === undefined ? ', with the built-in system prompt' : ''}`
+      : 'built-in';
+    const lines = [
+      `# Prompt Preview: ${ticket.key}`,
+      '',
+      `**Template:** ${source}`,
+      `**Model:** ${llmProvider.getProviderName()} (${llmProvider.getModel() || 'default model'})`,
+      `**Tokens:** ~${estimateMessageTokens(messages)} of a ${budget.contextWindow}-token window, ${budget.outputTokens} kept for the answer`
+    ];
+    if (unknownVariables.length > 0) {
+      lines.push('', `> **Unknown placeholders**, sent as written: ${unknownVariables.map(name => `\`{{${name}}}\``).join(', ')}`);
+    }
+    for (const message of messages) {
+      // Four backticks, since the prompt itself contains fenced code
+      lines.push('', `## ${message.role === 'system' ? 'System' : 'User'} Message`, '', '````markdown', message.content, '````');
+    }
+    return lines.join('\n');
+  }
+
+  private getTaskMetadata(
+    ticket: RecentTicket,
+    llmProvider: BaseLLM,
+    streaming: boolean,
+    options: PlanGenerationOptions
+  ): PlanTaskMetadata {
+    return {
+      ticket,
+      provider: llmProvider.getProviderName(),
+      model: llmProvider.getModel() || 'default model',
+      streaming,
+      options
+    };
+  }
+
+  private getResponseSchema(options: PlanGenerationOptions): LLMRequest['responseSchema'] {
+    return options.structuredOutput ? { name: 'implementation_plan', schema: STRUCTURED_PLAN_SCHEMA } : undefined;
+  }
+
+  /**
+   * Turn the model's answer into the plan. A structured plan that does not match the schema gets one
+   * request to correct it; if that fails too the answer is kept as written, without a checklist.
+   */
+  private async readPlan(
+    ticket: RecentTicket,
+    content: string,
+    llmProvider: BaseLLM,
+    messages: LLMMessage[],
+    budget: ContextBudget,
+    options: PlanGenerationOptions,
+    signal: AbortSignal
+  ): Promise<{ plan: string; structured?: StructuredPlan }> {
+    if (!options.structuredOutput) {
+      return { plan: content };
+    }
+
+    let structured: StructuredPlan;
+    try {
+      structured = parseStructuredPlan(content);
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : String(error);
+      try {
+        const correction = await llmProvider.generate({
+          messages: [
+            ...messages,
+            { role: 'assistant', content },
+            { role: 'user', content: `${problem}. Reply with the corrected JSON object only.` }
+          ],
+          options: { maxTokens: budget.outputTokens },
+          signal,
+          responseSchema: this.getResponseSchema(options)
+        });
+        structured = parseStructuredPlan(correction.content);
+      } catch (retryError) {
+        if (signal.aborted) {
+          throw retryError;
+        }
+        console.warn(`Structured plan for ${ticket.key} did not match the schema:`, retryError);
+        void feedbackSystem.showWarning(`The plan for ${ticket.key} is not in the requested format, so it is kept as written and no checklist was created. ${problem}`);
+        return { plan: content };
+      }
+    }
+    return { plan: renderStructuredPlan(structured), structured };
+  }
+
+  private createPlanResult(
+    { plan, structured }: { plan: string; structured?: StructuredPlan },
+    context: WorkspaceContext,
+    options: PlanGenerationOptions,
+    llmProvider: BaseLLM,
+    messages: LLMMessage[],
+    template?: PromptTemplate
+  ): PlanResult {
+    return {
+      plan,
+      structured,
+      context,
+      options,
+      provider: llmProvider.getProviderName(),
+      model: llmProvider.getModel() || 'default model',
+      generatedAt: new Date(),
+      promptHash: hashPrompt(messages),
+      promptTemplate: template?.name
+    };
+  }
+
+  /**
+   * Save a generated plan in the plan history of the first workspace folder
+   * @returns the saved file, or undefined when no folder is open or saving failed (the plan is still shown)
+   */
+  private async savePlanToHistory(ticket: RecentTicket, result: PlanResult): Promise<string | undefined> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      return undefined;
+    }
+
+    try {
+      const history = new PlanHistory(folder.uri.fsPath, getProviderConfig('plans').folder);
+      result.filePath = await history.save({
+        ticket: ticket.key,
+        summary: ticket.summary,
+        ticketProvider: ticket.provider,
+        provider: result.provider,
+        model: result.model,
+        generatedAt: result.generatedAt,
+        promptHash: result.promptHash,
+        promptTemplate: result.promptTemplate,
+        contextFiles: [...result.context.selection.map(file => file.path), ...result.context.outlinedFiles]
+      }, this.formatPlanDocument(ticket, result.plan, result.options, result.context, result.generatedAt));
+      return result.filePath;
+    } catch (error) {
+      console.error(`Error saving plan for ${ticket.key}:`, error);
+      await feedbackSystem.showWarning(`The plan for ${ticket.key} could not be saved to the plan history: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Track a structured plan's steps in the Plan Checklist view, keeping steps already checked off for the ticket
+   */
+  private async saveChecklist(ticket: RecentTicket, result: PlanResult): Promise<void> {
+    if (result.structured) {
+      const previous = PlanChecklistProvider.getChecklist(ticket.key);
+      await PlanChecklistProvider.saveChecklist(createChecklist(ticket, result.structured, previous, result.filePath));
+    }
+  }
+
+  private async showPlan(ticket: RecentTicket, result: PlanResult): Promise<void> {
+    try {
+      await this.savePlanToHistory(ticket, result);
+      await this.saveChecklist(ticket, result);
+      await this.openPlanDocument(ticket, result);
 
       // Show success notification
       await feedbackSystem.showSuccess(
@@ -115,6 +448,18 @@ export class PlanGenerator {
         {
           title: 'Plan Generated',
           actions: [
+            {
+              label: 'Start Work',
+              action: async () => {
+                await startWork(ticket);
+              }
+            },
+            {
+              label: 'Post to Ticket',
+              action: async () => {
+                await this.postPlanToTicket(ticket, result);
+              }
+            },
             {
               label: 'View in Browser',
               action: async () => {
@@ -130,14 +475,83 @@ export class PlanGenerator {
     } catch (error) {
       const extensionError = error instanceof ExtensionError 
         ? error 
-        : ErrorFactory.workspaceError('PlanGenerator', 'show_plan', error.message);
+        : ErrorFactory.workspaceError('PlanGenerator', 'show_plan', error instanceof Error ? error.message : String(error));
       
       await errorHandler.handleExtensionError(extensionError);
     }
   }
 
-  private formatPlanDocument(ticket: RecentTicket, plan: string, context: string): string {
-    const timestamp = new Date().toISOString();
+  /**
+   * Post a generated plan as a comment on its ticket, or as a thread reply for Slack tickets.
+   * The comment opens in an editor first, cut to the service's size limit; what is in the editor
+   * when the user confirms is what gets posted.
+   */
+  async postPlanToTicket(ticket: RecentTicket, result: PlanResult): Promise<void> {
+    try {
+      const limit = COMMENT_LIMITS[ticket.provider];
+      const measure = COMMENT_LENGTHS[ticket.provider];
+      const notice = result.filePath
+        ? `_The plan was shortened to fit in a comment; the full plan is in \`${vscode.workspace.asRelativePath(result.filePath)}\`._`
+        : '_The plan was shortened to fit in a comment._';
+      const comment = truncateComment(this.formatPlanComment(result), limit, notice, measure);
+
+      const preview = await vscode.workspace.openTextDocument({ content: comment.text, language: 'markdown' });
+      const previewEditor = await vscode.window.showTextDocument(preview, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+
+      const target = ticket.provider === 'slack' ? 'as a reply in its Slack thread' : `as a comment on ${ticket.key}`;
+      const choice = await vscode.window.showInformationMessage(
+        `Post this plan ${target}?`,
+        { detail: comment.truncated ? `It was shortened to fit the ${limit}-character limit of ${ticket.provider}. Edit it before posting if needed.` : 'Edit it before posting if needed.' },
+        'Post',
+        'Cancel'
+      );
+      if (choice !== 'Post') {
+        return;
+      }
+
+      // The preview may have been edited past the limit
+      const text = truncateComment(preview.getText(), limit, notice, measure).text;
+      const commentUrl = await feedbackSystem.showProgress(`Posting plan to ${ticket.key}`, async () =>
+        createProvider(ticket.provider).addComment(ticket, text)
+      );
+
+      // The preview is an untitled document, so closing it normally would ask to save it
+      if (!preview.isClosed) {
+        await vscode.window.showTextDocument(preview, { preview: false, viewColumn: previewEditor.viewColumn });
+        await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+      }
+
+      await feedbackSystem.showSuccess(`Plan posted to ${ticket.key}`, {
+        title: 'Plan Posted',
+        actions: commentUrl ? [{
+          label: 'Open Comment',
+          action: async () => {
+            await vscode.env.openExternal(vscode.Uri.parse(commentUrl));
+          }
+        }] : []
+      });
+    } catch (error) {
+      const extensionError = error instanceof ExtensionError
+        ? error
+        : ErrorFactory.invalidResponse('PlanGenerator', `the plan could not be posted to ${ticket.key}: ${error instanceof Error ? error.message : String(error)}`);
+
+      await errorHandler.handleExtensionError(extensionError);
+    }
+  }
+
+  private formatPlanComment(result: PlanResult): string {
+    const date = result.generatedAt.toISOString().slice(0, 10);
+    return `**AI implementation plan** (${result.model} via ${result.provider}, ${date})\n\n${result.plan.trim()}\n`;
+  }
+
+  private formatPlanDocument(
+    ticket: RecentTicket,
+    plan: string,
+    options: PlanGenerationOptions,
+    context?: WorkspaceContext,
+    generatedAt: Date = new Date()
+  ): string {
+    const timestamp = generatedAt.toISOString();
     
     return `# Implementation Plan: ${ticket.summary}
 
@@ -145,6 +559,7 @@ export class PlanGenerator {
 **Ticket:** ${ticket.key} (${ticket.provider})
 **Priority:** ${ticket.priority}
 **Status:** ${ticket.status}
+**Included:** ${describePlanOptions(options)}
 
 ## Ticket Description
 ${ticket.description || 'No description provided'}
@@ -159,82 +574,41 @@ ${plan}
 ---
 
 ## Workspace Context Summary
-\`\`\`
-${context.substring(0, 1000)}${context.length > 1000 ? '...\n(Context truncated for display)' : ''}
-\`\`\`
+${context ? this.formatContextSummary(context) : 'No workspace context was collected.'}
 
 ---
 *Generated by AI Plan Extension*
 `;
   }
 
-  private formatEnhancedPrompt(ticket: RecentTicket, context: string): string {
-    return `# Implementation Plan Request
-
-## Ticket Information
-**Key:** ${ticket.key}
-**Title:** ${ticket.summary}
-**Priority:** ${ticket.priority}
-**Status:** ${ticket.status}
-**Provider:** ${ticket.provider}
-
-**Description:**
-${ticket.description || 'No description provided'}
-
-**Labels:** ${ticket.labels.length > 0 ? ticket.labels.join(', ') : 'None'}
-
----
-
-## Workspace Context
-${context}
-
----
-
-## Instructions
-Generate a comprehensive, well-structured implementation plan for this ticket. Include:
-
-1. **Overview** - Brief summary of what needs to be implemented
-2. **Technical Analysis** - Key technical considerations and dependencies
-3. **Implementation Steps** - Detailed, numbered checklist with:
-   - Specific files to create or modify
-   - Code changes required
-   - Configuration updates
-   - Database changes (if applicable)
-4. **Testing Strategy** - How to test the implementation
-5. **Deployment Notes** - Any deployment considerations
-6. **Potential Risks** - What could go wrong and how to mitigate
-
-Format the response in clear, actionable Markdown with proper headings, code blocks, and bullet points. Be specific about file paths, function names, and implementation details based on the workspace context provided.`;
-  }
-
-  private async displayPlan(ticket: RecentTicket, planContent: string): Promise<void> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const fileName = `plan-${ticket.key}-${timestamp}.md`;
-    
-    const fullContent = `# Implementation Plan for ${ticket.key}
-
-**Ticket:** ${ticket.key} - ${ticket.summary}
-**Generated:** ${new Date().toLocaleString()}
-**Provider:** ${ticket.provider}
-
-## Plan
-
-${planContent}
-
----
-*Generated by AI Plan VS Code Extension*
-`;
+  private formatContextSummary(context: WorkspaceContext): string {
+    if (context.folders.length === 0) {
+      return 'No workspace folder was open; the plan is based on the ticket alone.';
+    }
 
-    // Create and open the document
-    const document = await vscode.workspace.openTextDocument({
-      content: fullContent,
-      language: 'markdown'
+    const rows = context.selection.map(file => {
+      const why = file.reason === 'import'
+        ? `imported by \`${file.importedBy}\``
+        : file.matchedTerms.slice(0, 5).join(', ') || 'source file';
+      const excerpt = file.excerpt ? ` (${file.excerpt === 'outline' ? 'declarations only' : 'truncated'})` : '';
+      return `| \`${file.path}\` | ${file.reason === 'fallback' ? '-' : file.score.toFixed(2)} | ${why}${excerpt} |`;
     });
 
-    const editor = await vscode.window.showTextDocument(document);
-    
-    // Show success message
-    await vscode.window.showInformationMessage(`Plan generated for ${ticket.key}!`);
+    return [
+      `${context.selection.length} of ${context.files.length} files from ${context.folders.join(', ')} sent to the model`
+        + `${context.outlinedFiles.length > 0 ? `, plus the declarations of ${context.outlinedFiles.length} more` : ''}`
+        + ` (~${context.totalTokens} of ${context.tokenBudget} tokens).`,
+      '',
+      '| File | Score | Why |',
+      '| --- | --- | --- |',
+      ...rows,
+      ...context.git.map(git => [
+        '',
+        `Git (${git.folder}): branch \`${git.branch}\`${git.baseRef ? ` vs \`${git.baseRef}\`` : ''}, `
+          + `${git.branchChanges.length} files changed on the branch, ${git.ticketCommits.length} commits mentioning the ticket, `
+          + `${git.uncommittedChanges.length} uncommitted changes.`
+      ].join('\n'))
+    ].join('\n');
   }
 
   async selectLLMProvider(): Promise<string> {
@@ -253,17 +627,17 @@ ${planContent}
   async configureLLMProvider(provider: string): Promise<any> {
     if (provider === 'ollama') {
       // Check if Ollama is running
-      const ollamaProvider = new OllamaProvider({});
+      const ollamaProvider = createOllamaLLM();
       const isValid = await ollamaProvider.validateConfig();
       
       if (!isValid) {
         await vscode.window.showErrorMessage(
-          'Ollama is not running or not accessible. Please start Ollama and ensure it\'s running on localhost:11434'
+          `Ollama is not running or not accessible. Please start Ollama and ensure it's reachable at ${ollamaProvider.getBaseUrl()}`
         );
         return null;
       }
       
-      return { type: 'ollama', model: 'llama2:13b' };
+      return { type: 'ollama', model: ollamaProvider.getModel() };
     }
     
     // For OpenRouter, we would prompt for API key
@@ -283,14 +657,138 @@ ${planContent}
     return null;
   }
 
-  private async displayStreaming(
+  /**
+   * Generate a plan while streaming tokens into a webview panel.
+   * The panel's Stop button (or closing it) cancels the task and aborts the HTTP request; the partial plan is kept.
+   */
+  async generatePlanStreaming(ticket: RecentTicket, options: PlanGenerationOptions = PlanGenerator.getDefaultOptions()): Promise<void> {
+    const taskId = `${PLAN_TASK_PREFIX}${ticket.key}-${Date.now()}`;
+    const panel = new StreamingPanel(`AI Plan: ${ticket.key}`);
+    let context: WorkspaceContext | undefined;
+    let finished: PlanResult | undefined;
+
+    panel.onDidRequestStop(() => taskQueue.cancel(taskId));
+    panel.onDidDispose(() => taskQueue.cancel(taskId));
+    // A structured plan streams as JSON; once it is done, save the markdown rendering instead
+    panel.onDidRequestSave(plan => this.savePlanDocument(ticket, finished?.plan ?? plan, options, context));
+    panel.setHeader(`${ticket.key} - ${ticket.summary}`);
+
+    let llmProvider: BaseLLM;
+    try {
+      llmProvider = createLLMProvider();
+    } catch (error) {
+      panel.finish('failed', error instanceof Error ? error.message : String(error));
+      const extensionError = error instanceof ExtensionError
+        ? error
+        : ErrorFactory.invalidConfig('PlanGenerator', error instanceof Error ? error.message : String(error));
+      await errorHandler.handleExtensionError(extensionError);
+      return;
+    }
+
+    const taskResult = await taskQueue.enqueue({
+      id: taskId,
+      name: `Stream Plan for ${ticket.key}`,
+      priority: 'high',
+      timeout: 600000, // 10 minutes: slow local models stream for a long time
+      maxRetries: 0, // A retry would replay tokens into the panel
+      resourceKey: `llm:${llmProvider.getProviderName()}`,
+      metadata: this.getTaskMetadata(ticket, llmProvider, true, options),
+      operation: async (signal) => {
+        panel.setStatus('Building workspace context...');
+        const template = await this.getPromptTemplate(ticket, llmProvider);
+        const budget = await this.getContextBudget(ticket, llmProvider, options, template);
+        context = await this.contextBuilder.buildContext(ticket, {
+          signal,
+          tokenBudget: budget.contextTokens,
+          includeFileStructure: options.includeFileStructure,
+          includeGitContext: options.includeGitContext
+        });
+
+        const ticketOnly = context.folders.length === 0 ? ' without workspace context (no folder open)' : '';
+        panel.setStatus(`Streaming from ${llmProvider.getProviderName()} (${llmProvider.getModel() || 'default model'})${ticketOnly}...`);
+        feedbackSystem.showStatusBarMessage(`$(sync~spin) Streaming plan for ${ticket.key}...`, 'progress');
+
+        const messages = buildPlanMessages(ticket, context.content, options, template);
+        const response = await llmProvider.generate({
+          messages,
+          options: { maxTokens: budget.outputTokens },
+          signal,
+          responseSchema: this.getResponseSchema(options),
+          onToken: (token) => {
+            if (!signal.aborted) {
+              panel.appendToken(token);
+            }
+          }
+        });
+        if (options.structuredOutput) {
+          panel.setStatus('Checking the plan against the schema...');
+        }
+        const plan = await this.readPlan(ticket, response.content, llmProvider, messages, budget, options, signal);
+        return this.createPlanResult(plan, context, options, llmProvider, messages, template);
+      }
+    });
+
+    if (taskResult.status === 'completed' && taskResult.result) {
+      finished = taskResult.result;
+      panel.finish('completed');
+      const filePath = await this.savePlanToHistory(ticket, taskResult.result);
+      await this.saveChecklist(ticket, taskResult.result);
+      feedbackSystem.showStatusBarMessage(
+        filePath ? `$(check) Plan saved to ${vscode.workspace.asRelativePath(filePath)}` : `$(check) Plan ready for ${ticket.key}`,
+        'success',
+        3000
+      );
+    } else if (taskResult.status === 'cancelled') {
+      panel.finish('stopped');
+      feedbackSystem.showStatusBarMessage('$(debug-stop) Plan generation stopped', 'warning', 3000);
+    } else {
+      // TaskQueue has already reported the error
+      panel.finish('failed', taskResult.error?.message);
+    }
+  }
+
+  /**
+   * Save a streamed plan as a markdown file and open it in the editor
+   */
+  private async savePlanDocument(
     ticket: RecentTicket,
-    runStream: (append: (chunk: string) => void) => Promise<void>
+    plan: string,
+    options: PlanGenerationOptions,
+    context?: WorkspaceContext
   ): Promise<void> {
-    const panel = new StreamingPanel('AI Plan (Streaming)');
-    panel.setHeader(`Generating plan for ${ticket.key} - ${ticket.summary}`);
+    try {
+      const fileName = `plan-${ticket.key}.md`;
+      const folder = vscode.workspace.workspaceFolders?.[0];
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined,
+        filters: { Markdown: ['md'] },
+        saveLabel: 'Save Plan'
+      });
 
-    await runStream((chunk) => panel.appendToken(chunk));
-    panel.finish();
+      if (!target) {
+        return;
+      }
+
+      const content = this.formatPlanDocument(ticket, plan, options, context);
+      await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+      await vscode.window.showTextDocument(target, { preview: false, viewColumn: vscode.ViewColumn.One });
+      await feedbackSystem.showSuccess(`Plan saved to ${vscode.workspace.asRelativePath(target)}`, { title: 'Plan Saved' });
+    } catch (error) {
+      const extensionError = error instanceof ExtensionError
+        ? error
+        : ErrorFactory.workspaceError('PlanGenerator', 'save_plan', error instanceof Error ? error.message : String(error));
+
+      await errorHandler.handleExtensionError(extensionError);
+    }
   }
 }
+
+/**
+ * Human-readable list of the enabled plan options, e.g. "code examples, testing strategy"
+ */
+export function describePlanOptions(options: PlanGenerationOptions): string {
+  const enabled = (Object.keys(PLAN_OPTION_LABELS) as Array<keyof PlanGenerationOptions>)
+    .filter(key => options[key])
+    .map(key => PLAN_OPTION_LABELS[key].toLowerCase());
+  return enabled.length > 0 ? enabled.join(', ') : 'core sections only';
+}
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PlanHistory, SavedPlan } from '../planHistory';
+import { getProviderConfig } from '../config/environment';
+
+/**
+ * A ticket with saved plans, or one saved plan, in the Plan History view
+ */
+export class PlanHistoryItem extends vscode.TreeItem {
+  /** Newest first; for a plan item, the plan itself followed by the older plans of its ticket */
+  readonly plans: SavedPlan[];
+
+  constructor(plans: SavedPlan[], readonly isTicket: boolean) {
+    const [plan] = plans;
+    super(
+      isTicket ? `${plan.ticket}${plan.summary ? `: ${plan.summary}` : ''}` : formatTimestamp(plan.generatedAt),
+      isTicket ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+    this.plans = plans;
+
+    if (isTicket) {
+      this.id = `ticket:${plan.ticket}`;
+      this.description = `${plans.length} plan${plans.length === 1 ? '' : 's'}`;
+      this.iconPath = new vscode.ThemeIcon('history');
+      this.contextValue = 'aiPlanHistory.ticket';
+    } else {
+      this.id = plan.filePath;
+      this.resourceUri = vscode.Uri.file(plan.filePath);
+      this.description = [plan.provider, plan.model].filter(Boolean).join(' · ');
+      this.iconPath = new vscode.ThemeIcon('file-text');
+      this.tooltip = createTooltip(plan);
+      this.command = { command: 'ai-plan.planHistory.open', title: 'Open Plan', arguments: [this] };
+      // Drives the inline compare action in package.json
+      this.contextValue = plans.length > 1 ? 'aiPlanHistory.plan.hasPrevious' : 'aiPlanHistory.plan';
+    }
+  }
+
+  get plan(): SavedPlan {
+    return this.plans[0];
+  }
+}
+
+/**
+ * Lists the plans saved in every workspace folder, grouped by ticket, and refreshes when plan files change
+ */
+export class PlanHistoryProvider implements vscode.TreeDataProvider<PlanHistoryItem>, vscode.Disposable {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.md');
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.refreshIfPlan(uri)),
+      watcher.onDidChange(uri => this.refreshIfPlan(uri)),
+      watcher.onDidDelete(uri => this.refreshIfPlan(uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh())
+    );
+  }
+
+  refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
+  getTreeItem(element: PlanHistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: PlanHistoryItem): Promise<PlanHistoryItem[]> {
+    if (element) {
+      return element.isTicket
+        ? element.plans.map((_, index) => new PlanHistoryItem(element.plans.slice(index), false))
+        : [];
+    }
+
+    const byTicket = new Map<string, SavedPlan[]>();
+    for (const plan of await listSavedPlans()) {
+      byTicket.set(plan.ticket, [...(byTicket.get(plan.ticket) || []), plan]);
+    }
+    // Tickets with the most recent plan first; plans are already newest first
+    return Array.from(byTicket.values()).map(plans => new PlanHistoryItem(plans, true));
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+
+  private refreshIfPlan(uri: vscode.Uri): void {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (folder && isInside(getPlansPath(folder), uri.fsPath)) {
+      this.refresh();
+    }
+  }
+}
+
+/**
+ * Every plan saved in the workspace, newest first
+ */
+export async function listSavedPlans(ticketKey?: string): Promise<SavedPlan[]> {
+  const plans: SavedPlan[] = [];
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    plans.push(...await new PlanHistory(folder.uri.fsPath, getProviderConfig('plans').folder).listPlans(ticketKey));
+  }
+  return plans.sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
+}
+
+/**
+ * Open a side-by-side diff of two saved plans, the older one on the left
+ */
+export async function comparePlans(older: SavedPlan, newer: SavedPlan): Promise<void> {
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    vscode.Uri.file(older.filePath),
+    vscode.Uri.file(newer.filePath),
+    `${newer.ticket}: ${formatTimestamp(older.generatedAt)} ↔ ${formatTimestamp(newer.generatedAt)}`
+  );
+}
+
+export function formatTimestamp(date: Date): string {
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function getPlansPath(folder: vscode.WorkspaceFolder): string {
+  return new PlanHistory(folder.uri.fsPath, getProviderConfig('plans').folder).plansPath;
+}
+
+function isInside(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function createTooltip(plan: SavedPlan): vscode.MarkdownString {
+  const lines = [
+    `**${plan.ticket}** — ${plan.generatedAt.toLocaleString()}`,
+    `**Model:** ${plan.provider || 'unknown'} (${plan.model || 'unknown model'})`,
+    `**Prompt:** ${plan.promptTemplate || 'built-in'}${plan.promptHash ? ` · \`${plan.promptHash}\`` : ''}`,
+    `**Context:** ${plan.contextFiles.length} file${plan.contextFiles.length === 1 ? '' : 's'}`
+  ];
+  return new vscode.MarkdownString(lines.join('\n\n'));
+}
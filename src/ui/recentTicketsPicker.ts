@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { getExtensionContext } from '../context';
-import { RecentTicket, TaskGroup } from '../types';
+import { RecentTicket, TaskGroup, TicketPage } from '../types';
 import { BaseProvider } from '../providers/base';
 import { feedbackSystem } from './feedbackSystem';
 import { errorHandler } from './errorHandler';
@@ -364,27 +364,59 @@ export class RecentTicketsPicker {
   }
 
   private async showLegacyTaskSelection(): Promise<RecentTicket | null> {
-    try {
-      let limit = 15;
-      
-      while (true) {
-          
-        const allTickets: RecentTicket[] = [];
-        for (const provider of this.providers) {
-          try {
-            // Prefer tickets related to the current user first, then fall back to recent
-            const assigned = (provider as any).getMyWork ? await (provider as any).getMyWork(limit) : [];
-            const recent = await provider.getRecentTickets(limit);
-            const merged = [...assigned, ...recent];
-            const dedup = new Map<string, RecentTicket>();
-            for (const t of merged) {dedup.set(t.id, t);}
-            allTickets.push(...dedup.values());
-          } catch (error) {
-            console.error(`Error fetching tickets from ${provider.getProviderName()}:`, error);
+    const pageSize = 15;
+    // Providers with paged searches get their recent tickets a page at a time; "Load More" fetches the next page
+    let pagedSources: { provider: BaseProvider; pages: AsyncGenerator<TicketPage>; hasMore: boolean }[] = [];
+    let loaded = new Map<string, RecentTicket>();
+
+    const loadNextPages = async () => {
+      for (const source of pagedSources.filter(candidate => candidate.hasMore)) {
+        try {
+          const next = await source.pages.next();
+          if (!next.done) {
+            for (const t of next.value.tickets) {loaded.set(t.id, t);}
           }
+          source.hasMore = !next.done && !!next.value.nextPageToken;
+        } catch (error) {
+          source.hasMore = false;
+          console.error(`Error fetching more tickets from ${source.provider.getProviderName()}:`, error);
         }
+      }
+    };
+
+    const closePages = async () => {
+      await Promise.all(pagedSources.map(source => source.pages.return(undefined)));
+      pagedSources = [];
+    };
+
+    const reload = async () => {
+      await closePages();
+      loaded = new Map<string, RecentTicket>();
+      for (const provider of this.providers) {
+        try {
+          // Prefer tickets related to the current user first, then fall back to recent
+          const assigned: RecentTicket[] = (provider as any).getMyWork ? await (provider as any).getMyWork(pageSize) : [];
+          for (const t of assigned) {loaded.set(t.id, t);}
+          const recentTicketPages = (provider as any).recentTicketPages;
+          if (typeof recentTicketPages === 'function') {
+            pagedSources.push({ provider, pages: recentTicketPages.call(provider, pageSize), hasMore: true });
+          } else {
+            for (const t of await provider.getRecentTickets(pageSize)) {loaded.set(t.id, t);}
+          }
+        } catch (error) {
+          console.error(`Error fetching tickets from ${provider.getProviderName()}:`, error);
+        }
+      }
+      await loadNextPages();
+    };
+
+    try {
+      await reload();
 
+      while (true) {
+        const allTickets = [...loaded.values()];
         allTickets.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+        const hasMore = pagedSources.some(source => source.hasMore);
 
 
           type Item = vscode.QuickPickItem & { 
@@ -419,12 +451,12 @@ export class RecentTicketsPicker {
               command: 'refresh',
               detail: 'Get the latest updates'
             },
-            { 
+            ...(hasMore ? [{ 
               label: '$(add) Load More', 
-              description: `Show more tickets (currently showing ${Math.min(limit, allTickets.length)} of many)`, 
-              command: 'loadMore',
-              detail: `Increase to ${limit + 10} tickets`
-            },
+              description: `Show more tickets (currently showing ${allTickets.length})`, 
+              command: 'loadMore' as const,
+              detail: 'Fetch the next page of recent tickets'
+            }] : []),
             { 
               label: '$(gear) Settings', 
               description: 'Configure Jira connection and preferences', 
@@ -439,8 +471,6 @@ export class RecentTicketsPicker {
             // Group tickets by status and priority
             const myTickets = allTickets.filter(t => t.assignee && t.assignee.toLowerCase().includes('me'));
             const highPriorityTickets = allTickets.filter(t => ['high', 'urgent'].includes(t.priority));
-            const recentTickets = allTickets.slice(0, Math.min(limit, allTickets.length));
-
             if (myTickets.length > 0) {
               ticketSections.push({ label: '👤 My Assigned Tickets', kind: vscode.QuickPickItemKind.Separator });
               ticketSections.push(...myTickets.slice(0, 5).map(ticket => this.createTicketItem(ticket)));
@@ -452,7 +482,7 @@ export class RecentTicketsPicker {
             }
 
             ticketSections.push({ label: '📋 Recent Activity', kind: vscode.QuickPickItemKind.Separator });
-            ticketSections.push(...recentTickets.map(ticket => this.createTicketItem(ticket)));
+            ticketSections.push(...allTickets.map(ticket => this.createTicketItem(ticket)));
           }
 
           const quickPick = vscode.window.createQuickPick<Item>();
@@ -483,11 +513,12 @@ export class RecentTicketsPicker {
           }
 
           if (selected.command === 'refresh') {
+            await reload();
             continue;
           }
 
           if (selected.command === 'loadMore') {
-            limit = Math.min(limit + 10, 50);
+            await feedbackSystem.showProgress('Loading more tickets', loadNextPages);
             continue;
           }
 
@@ -603,6 +634,8 @@ export class RecentTicketsPicker {
       console.error('Error showing recent tickets:', error);
       await vscode.window.showErrorMessage('Failed to fetch recent tickets. Please check your configuration.');
       return null;
+    } finally {
+      await closePages();
     }
   }
 
@@ -795,34 +828,78 @@ ${ticket.description}
     if (!this.jiraProvider) {return null;}
 
     try {
-      const tasks = await this.jiraProvider.getRecentTickets(100);
-      
-      if (tasks.length === 0) {
-        await vscode.window.showInformationMessage('No tasks found.');
-        return null;
-      }
-
-      const taskItems = tasks.map(task => ({
-        label: `${this.getPriorityEmoji(task.priority)} ${task.key} • ${task.summary}`,
-        description: `${this.getProviderEmoji(task.provider)} ${task.provider} • ${this.getStatusEmoji(task.status)} ${task.status} • ${this.formatTimeAgo(task.updatedAt)}`,
-        detail: this.truncateDescription(task.description),
-        task
-      }));
-
-      const selectedTask = await vscode.window.showQuickPick(taskItems, {
-        title: '📋 All My Tasks',
-        placeHolder: `Select from ${tasks.length} assigned tasks...`,
-        matchOnDescription: true,
-        matchOnDetail: true
-      });
-
-      return selectedTask?.task || null;
+      return await this.pickFromPages('📋 All My Tasks', 'No tasks found.', this.jiraProvider.recentTicketPages(50));
     } catch (error) {
       await vscode.window.showErrorMessage('Failed to load all tasks. Please check your configuration.');
       return null;
     }
   }
 
+  /**
+   * Pick a ticket from a paged search, showing the first page and fetching the next one each time
+   * "Load More" is picked
+   */
+  private async pickFromPages(title: string, emptyMessage: string, pages: AsyncGenerator<TicketPage>): Promise<RecentTicket | null> {
+    type Item = vscode.QuickPickItem & { ticket?: RecentTicket; loadMore?: boolean };
+
+    const first = await pages.next();
+    const tickets = first.done ? [] : [...first.value.tickets];
+    let hasMore = !first.done && !!first.value.nextPageToken;
+    if (tickets.length === 0) {
+      await vscode.window.showInformationMessage(emptyMessage);
+      return null;
+    }
+
+    const loadMoreItem: Item = { label: '$(add) Load More', description: 'Fetch the next page of tasks', alwaysShow: true, loadMore: true };
+    const quickPick = vscode.window.createQuickPick<Item>();
+    const render = () => {
+      const ticketItems: Item[] = tickets.map(ticket => this.createTicketItem(ticket));
+      quickPick.items = hasMore ? [...ticketItems, loadMoreItem] : ticketItems;
+      quickPick.placeholder = `Select from ${tickets.length}${hasMore ? '+' : ''} tasks...`;
+    };
+
+    quickPick.title = title;
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    render();
+
+    try {
+      return await new Promise<RecentTicket | null>(resolve => {
+        quickPick.onDidAccept(async () => {
+          const [selected] = quickPick.selectedItems;
+          if (!selected?.loadMore) {
+            resolve(selected?.ticket || null);
+            quickPick.hide();
+            return;
+          }
+          if (quickPick.busy) {
+            return;
+          }
+
+          quickPick.busy = true;
+          try {
+            const next = await pages.next();
+            if (!next.done) {
+              tickets.push(...next.value.tickets);
+            }
+            hasMore = !next.done && !!next.value.nextPageToken;
+          } catch (error) {
+            console.error('Error loading more tasks:', error);
+            await vscode.window.showErrorMessage('Failed to load more tasks.');
+          } finally {
+            quickPick.busy = false;
+          }
+          render();
+        });
+        quickPick.onDidHide(() => resolve(null));
+        quickPick.show();
+      });
+    } finally {
+      quickPick.dispose();
+      await pages.return(undefined);
+    }
+  }
+
   private async showRecentlyUpdated(): Promise<RecentTicket | null> {
     if (!this.jiraProvider) {return null;}
 
@@ -933,28 +1010,11 @@ ${ticket.description}
     if (!searchText || !this.jiraProvider) {return null;}
 
     try {
-      const results = await (this.jiraProvider as any).searchByText(searchText, 20);
-      
-      if (results.length === 0) {
-        await vscode.window.showInformationMessage(`No tasks found containing "${searchText}".`);
-        return null;
-      }
-
-      const taskItems = results.map((task: RecentTicket) => ({
-        label: `${this.getPriorityEmoji(task.priority)} ${task.key} • ${task.summary}`,
-        description: `${this.getStatusEmoji(task.status)} ${task.status} • ${this.formatTimeAgo(task.updatedAt)}`,
-        detail: this.truncateDescription(task.description),
-        task
-      }));
-
-      const selectedTask = await vscode.window.showQuickPick(taskItems, {
-        title: `🔍 Search Results for "${searchText}"`,
-        placeHolder: `Select from ${results.length} matching tasks...`,
-        matchOnDescription: true,
-        matchOnDetail: true
-      });
-
-      return (selectedTask as any)?.task || null;
+      return await this.pickFromPages(
+        `🔍 Search Results for "${searchText}"`,
+        `No tasks found containing "${searchText}".`,
+        this.jiraProvider.textSearchPages(searchText, 20)
+      );
     } catch (error) {
       await vscode.window.showErrorMessage('Text search failed. Please try a different search term.');
       return null;
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { getExtensionContext } from '../context';
 import { JiraProvider } from '../providers/jira';
-import { OllamaProvider } from '../llm/ollama';
+import { createOllamaLLM } from '../config/llm-factory';
 
 type Settings = {
   jiraBaseUrl?: string;
@@ -66,9 +66,9 @@ export class SettingsPanel {
           const ok = await provider.validateConfig();
           this.panel.webview.postMessage({ type: 'testResult', provider: 'jira', ok, message: ok ? 'Successfully connected to Jira' : 'Failed to connect - check your URL and token' });
         } else if (msg.type === 'testOllama') {
-          const provider = new OllamaProvider({});
+          const provider = createOllamaLLM();
           const ok = await provider.validateConfig();
-          this.panel.webview.postMessage({ type: 'testResult', provider: 'ollama', ok, message: ok ? 'Ollama is running and accessible' : 'Ollama is not running or not accessible on localhost:11434' });
+          this.panel.webview.postMessage({ type: 'testResult', provider: 'ollama', ok, message: ok ? 'Ollama is running and accessible' : `Ollama is not running or not accessible at ${provider.getBaseUrl()}` });
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
@@ -1,8 +1,21 @@
 import * as vscode from 'vscode';
 
+export type StreamingOutcome = 'completed' | 'stopped' | 'failed';
+
 export class StreamingPanel {
   private panel: vscode.WebviewPanel;
   private isDisposed = false;
+  private content = '';
+
+  private readonly stopEmitter = new vscode.EventEmitter<void>();
+  private readonly saveEmitter = new vscode.EventEmitter<string>();
+  private readonly disposeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fired when the user presses Stop */
+  public readonly onDidRequestStop = this.stopEmitter.event;
+  /** Fired with the plan markdown when the user asks to save it as a document */
+  public readonly onDidRequestSave = this.saveEmitter.event;
+  public readonly onDidDispose = this.disposeEmitter.event;
 
   constructor(title: string) {
     this.panel = vscode.window.createWebviewPanel(
@@ -11,28 +24,71 @@ export class StreamingPanel {
       { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
       { enableScripts: true, retainContextWhenHidden: true }
     );
-    this.panel.onDidDispose(() => { this.isDisposed = true; });
+    this.panel.onDidDispose(() => {
+      this.isDisposed = true;
+      this.disposeEmitter.fire();
+      this.stopEmitter.dispose();
+      this.saveEmitter.dispose();
+      this.disposeEmitter.dispose();
+    });
+    this.panel.webview.onDidReceiveMessage(async (msg) => {
+      switch (msg.type) {
+      case 'stop':
+        this.stopEmitter.fire();
+        break;
+      case 'clear':
+        this.content = '';
+        break;
+      case 'saveAsMarkdown':
+        this.saveEmitter.fire(this.content);
+        break;
+      case 'copyFallback':
+        await vscode.env.clipboard.writeText(this.content);
+        void vscode.window.showInformationMessage('Plan copied to clipboard');
+        break;
+      }
+    });
     this.panel.webview.html = this.getHtml();
   }
 
+  public get disposed(): boolean {
+    return this.isDisposed;
+  }
+
+  /** Markdown received so far */
+  public getContent(): string {
+    return this.content;
+  }
+
   public setHeader(headerMarkdown: string): void {
     if (this.isDisposed) {return;}
     this.panel.webview.postMessage({ type: 'header', markdown: headerMarkdown });
   }
 
+  public setStatus(text: string): void {
+    if (this.isDisposed) {return;}
+    this.panel.webview.postMessage({ type: 'status', text });
+  }
+
   public setProgress(current: number, total: number): void {
     if (this.isDisposed) {return;}
     this.panel.webview.postMessage({ type: 'progress', current, total });
   }
 
   public appendToken(text: string): void {
+    this.content += text;
     if (this.isDisposed) {return;}
     this.panel.webview.postMessage({ type: 'append', text });
   }
 
-  public finish(): void {
+  public finish(outcome: StreamingOutcome = 'completed', message?: string): void {
+    if (this.isDisposed) {return;}
+    this.panel.webview.postMessage({ type: 'done', outcome, message });
+  }
+
+  public reveal(): void {
     if (this.isDisposed) {return;}
-    this.panel.webview.postMessage({ type: 'done' });
+    this.panel.reveal(undefined, true);
   }
 
   private getHtml(): string {
@@ -52,27 +108,94 @@ export class StreamingPanel {
         flex-direction: column;
         height: 100vh;
       }
+      .progress-bar {
+        height: 2px;
+        width: 0;
+        background: var(--vscode-progressBar-background);
+        transition: width 0.3s ease;
+      }
       .header {
         padding: 12px 16px;
         border-bottom: 1px solid var(--vscode-editorWidget-border);
         background: var(--vscode-editorWidget-background);
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+      }
+      .header-content {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+      }
+      .header-title {
+        margin: 0;
+        font-size: 15px;
         font-weight: 600;
       }
+      .header-subtitle { opacity: 0.8; font-size: 12px; }
+      .header-status { font-size: 12px; white-space: nowrap; }
       .content {
         flex: 1;
         padding: 16px;
         overflow-y: auto;
         line-height: 1.5;
-        white-space: pre-wrap;
+      }
+      .plan-content h1, .plan-content h2, .plan-content h3 {
+        border-bottom: 1px solid var(--vscode-editorWidget-border);
+        padding-bottom: 4px;
+      }
+      .plan-content code {
         font-family: var(--vscode-editor-font-family, monospace);
+        background: var(--vscode-textCodeBlock-background);
+        padding: 1px 4px;
+        border-radius: 3px;
+      }
+      .plan-content pre {
+        background: var(--vscode-textCodeBlock-background);
+        padding: 12px;
+        border-radius: 4px;
+        overflow-x: auto;
+      }
+      .plan-content pre code { padding: 0; background: none; }
+      .plan-content blockquote {
+        margin: 0;
+        padding-left: 12px;
+        border-left: 3px solid var(--vscode-textBlockQuote-border);
+        opacity: 0.9;
       }
+      .plan-content a { color: var(--vscode-textLink-foreground); }
+      .typing-indicator::after {
+        content: '▍';
+        animation: blink 1s step-start infinite;
+      }
+      @keyframes blink { 50% { opacity: 0; } }
+      .empty-state { opacity: 0.7; text-align: center; margin-top: 48px; }
+      .empty-icon { font-size: 32px; }
+      .completion-message {
+        display: none;
+        margin-top: 16px;
+        padding: 12px;
+        border-radius: 4px;
+        background: var(--vscode-editorWidget-background);
+        border: 1px solid var(--vscode-editorWidget-border);
+      }
+      .completion-message.show { display: block; }
+      .completion-message.error { border-color: var(--vscode-inputValidation-errorBorder); }
       .toolbar {
         border-top: 1px solid var(--vscode-editorWidget-border);
         padding: 8px 16px;
         display: flex;
+        align-items: center;
         gap: 8px;
         background: var(--vscode-editorWidget-background);
       }
+      .toolbar-section { display: flex; gap: 8px; }
+      .toolbar-divider {
+        width: 1px;
+        height: 20px;
+        background: var(--vscode-editorWidget-border);
+      }
+      .stats { display: flex; gap: 12px; font-size: 12px; opacity: 0.8; }
       button {
         background: var(--vscode-button-background);
         color: var(--vscode-button-foreground);
@@ -81,16 +204,23 @@ export class StreamingPanel {
         border-radius: 4px;
         cursor: pointer;
       }
-      button:hover { filter: brightness(1.1); }
+      button.secondary {
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+      }
+      button:disabled { opacity: 0.5; cursor: default; }
+      button:hover:not(:disabled) { filter: brightness(1.1); }
       .muted { opacity: 0.8; font-size: 12px; }
     `;
     const js = `
       const content = document.getElementById('planContent');
+      const scroller = document.getElementById('scroller');
       const headerTitle = document.getElementById('headerTitle');
       const headerSubtitle = document.getElementById('headerSubtitle');
       const headerStatus = document.getElementById('headerStatus');
       const progressBar = document.getElementById('progressBar');
       const completionMessage = document.getElementById('completionMessage');
+      const stopBtn = document.getElementById('stopBtn');
       const copyBtn = document.getElementById('copyBtn');
       const saveBtn = document.getElementById('saveBtn');
       const clearBtn = document.getElementById('clearBtn');
@@ -101,36 +231,156 @@ export class StreamingPanel {
       
       let startTime = Date.now();
       let isGenerating = true;
-      let totalWords = 0;
-      let totalChars = 0;
-      
-      function updateStats() {
-        const text = content.textContent || '';
-        totalWords = text.trim() ? text.trim().split(/\\s+/).length : 0;
-        totalChars = text.length;
-        
-        wordCount.textContent = totalWords;
-        charCount.textContent = totalChars;
-        
-        const elapsed = Math.floor((Date.now() - startTime) / 1000);
-        const minutes = Math.floor(elapsed / 60);
-        const seconds = elapsed % 60;
-        timeElapsed.textContent = minutes > 0 ? minutes + 'm ' + seconds + 's' : seconds + 's';
+      let rawText = '';
+      let renderScheduled = false;
+
+      function escapeHtml(text) {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
       }
-      
-      function showTypingIndicator() {
-        if (isGenerating) {
-          const indicator = document.createElement('span');
-          indicator.className = 'typing-indicator';
-          indicator.id = 'typingIndicator';
-          content.appendChild(indicator);
+
+      function renderInline(text) {
+        let html = escapeHtml(text);
+        html = html.replace(/\\x60([^\\x60]+)\\x60/g, '<code>$1</code>');
+        html = html.replace(/\\*\\*([^*]+)\\*\\*/g, '<strong>$1</strong>');
+        html = html.replace(/(^|[^*\\w])\\*([^*\\s][^*]*)\\*/g, '$1<em>$2</em>');
+        html = html.replace(/\\[([^\\]]+)\\]\\((https?:[^)\\s]+)\\)/g, '<a href="$2">$1</a>');
+        return html;
+      }
+
+      // Small incremental-safe markdown renderer: headings, lists (two levels), code fences,
+      // block quotes, rules and inline emphasis. Unclosed fences render as code while streaming.
+      function renderMarkdown(markdown) {
+        const out = [];
+        let paragraph = [];
+        let code = null;
+        let listType = null;
+        let subType = null;
+
+        function flushParagraph() {
+          if (paragraph.length) {
+            out.push('<p>' + paragraph.map(renderInline).join('<br>') + '</p>');
+            paragraph = [];
+          }
+        }
+        function closeSub() {
+          if (subType) {
+            out.push('</li></' + subType + '>');
+            subType = null;
+          }
+        }
+        function closeList() {
+          closeSub();
+          if (listType) {
+            out.push('</li></' + listType + '>');
+            listType = null;
+          }
+        }
+
+        for (const line of markdown.split(/\\r?\\n/)) {
+          if (/^\\s*\\x60\\x60\\x60/.test(line)) {
+            if (code) {
+              out.push('<pre><code>' + escapeHtml(code.join('\\n')) + '</code></pre>');
+              code = null;
+            } else {
+              flushParagraph();
+              closeList();
+              code = [];
+            }
+            continue;
+          }
+          if (code) {
+            code.push(line);
+            continue;
+          }
+
+          const heading = /^(#{1,6})\\s+(.*)$/.exec(line);
+          const item = /^(\\s*)([-*+]|\\d+\\.)\\s+(.*)$/.exec(line);
+          if (heading) {
+            flushParagraph();
+            closeList();
+            const level = heading[1].length;
+            out.push('<h' + level + '>' + renderInline(heading[2]) + '</h' + level + '>');
+          } else if (/^\\s*(-{3,}|\\*{3,}|_{3,})\\s*$/.test(line)) {
+            flushParagraph();
+            closeList();
+            out.push('<hr>');
+          } else if (item) {
+            flushParagraph();
+            const type = /\\d/.test(item[2]) ? 'ol' : 'ul';
+            const start = type === 'ol' ? ' start="' + parseInt(item[2], 10) + '"' : '';
+            const text = renderInline(item[3]);
+            if (item[1].length >= 2 && listType) {
+              if (subType && subType !== type) {
+                closeSub();
+              }
+              if (subType) {
+                out.push('</li><li>' + text);
+              } else {
+                out.push('<' + type + start + '><li>' + text);
+                subType = type;
+              }
+            } else {
+              closeSub();
+              if (listType && listType !== type) {
+                closeList();
+              }
+              if (listType) {
+                out.push('</li><li>' + text);
+              } else {
+                out.push('<' + type + start + '><li>' + text);
+                listType = type;
+              }
+            }
+          } else if (/^>\\s?/.test(line)) {
+            flushParagraph();
+            closeList();
+            out.push('<blockquote>' + renderInline(line.replace(/^>\\s?/, '')) + '</blockquote>');
+          } else if (!line.trim()) {
+            // Keep lists open across blank lines so numbered steps continue
+            flushParagraph();
+          } else if (listType && /^\\s+/.test(line)) {
+            out.push('<br>' + renderInline(line.trim()));
+          } else {
+            closeList();
+            paragraph.push(line);
+          }
+        }
+
+        flushParagraph();
+        closeList();
+        if (code) {
+          out.push('<pre><code>' + escapeHtml(code.join('\\n')) + '</code></pre>');
+        }
+        return out.join('\\n');
+      }
+
+      function render() {
+        renderScheduled = false;
+        const nearBottom = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight < 80;
+        content.innerHTML = renderMarkdown(rawText) + (isGenerating ? '<span class="typing-indicator"></span>' : '');
+        if (nearBottom) {
+          scroller.scrollTop = scroller.scrollHeight;
+        }
+        updateStats();
+      }
+
+      function scheduleRender() {
+        if (!renderScheduled) {
+          renderScheduled = true;
+          setTimeout(render, 50);
         }
       }
       
-      function removeTypingIndicator() {
-        const indicator = document.getElementById('typingIndicator');
-        if (indicator) {
-          indicator.remove();
+      function updateStats() {
+        const text = rawText.trim();
+        wordCount.textContent = text ? text.split(/\\s+/).length : 0;
+        charCount.textContent = rawText.length;
+        
+        if (isGenerating) {
+          const elapsed = Math.floor((Date.now() - startTime) / 1000);
+          const minutes = Math.floor(elapsed / 60);
+          const seconds = elapsed % 60;
+          timeElapsed.textContent = minutes > 0 ? minutes + 'm ' + seconds + 's' : seconds + 's';
         }
       }
       
@@ -145,73 +395,86 @@ export class StreamingPanel {
         if (msg.type === 'header') {
           headerTitle.textContent = msg.markdown;
           headerSubtitle.textContent = 'Generating implementation plan with AI';
-          headerStatus.innerHTML = '⏳ Generating...';
+          headerStatus.textContent = '⏳ Generating...';
           startTime = Date.now();
           
-          // Clear empty state
-          content.innerHTML = '';
-          showTypingIndicator();
-          
+        } else if (msg.type === 'status') {
+          headerSubtitle.textContent = msg.text;
+
+        } else if (msg.type === 'progress') {
+          updateProgress(msg.current, msg.total);
+
         } else if (msg.type === 'append') {
-          removeTypingIndicator();
-          content.textContent += msg.text;
-          content.scrollTop = content.scrollHeight;
-          updateStats();
+          rawText += msg.text;
+          scheduleRender();
           
-          // Simulate progress based on content length (rough estimation)
-          const estimatedTotal = 2000; // Average plan length
-          updateProgress(totalChars, estimatedTotal);
+          // Rough progress estimate based on an average plan length
+          updateProgress(rawText.length, 6000);
           
         } else if (msg.type === 'done') {
           isGenerating = false;
-          removeTypingIndicator();
-          
-          headerStatus.innerHTML = '✅ Completed';
-          headerSubtitle.textContent = 'Implementation plan ready';
+          stopBtn.disabled = true;
+          stopBtn.style.display = 'none';
+          render();
           
-          completionMessage.innerHTML = '🎉 <strong>Plan Generated Successfully!</strong><br>Your AI-powered implementation plan is ready to use.';
+          if (msg.outcome === 'stopped') {
+            headerStatus.textContent = '⏹️ Stopped';
+            headerSubtitle.textContent = 'Generation stopped; the partial plan is kept';
+            completionMessage.textContent = msg.message || 'Generation was stopped before the plan was complete.';
+          } else if (msg.outcome === 'failed') {
+            headerStatus.textContent = '❌ Failed';
+            headerSubtitle.textContent = 'Plan generation failed';
+            completionMessage.textContent = msg.message || 'Plan generation failed.';
+            completionMessage.classList.add('error');
+          } else {
+            headerStatus.textContent = '✅ Completed';
+            headerSubtitle.textContent = 'Implementation plan ready';
+            completionMessage.innerHTML = '🎉 <strong>Plan Generated Successfully!</strong><br>Save it as a document to keep editing.';
+            progressBar.style.width = '100%';
+          }
           completionMessage.classList.add('show');
           
-          progressBar.style.width = '100%';
-          
-          // Enable save/copy buttons
-          saveBtn.disabled = false;
-          copyBtn.disabled = false;
-          
-          updateStats();
+          saveBtn.disabled = !rawText;
+          copyBtn.disabled = !rawText;
         }
       });
 
+      stopBtn.addEventListener('click', () => {
+        stopBtn.disabled = true;
+        headerStatus.textContent = '⏳ Stopping...';
+        vscodeApi.postMessage({ type: 'stop' });
+      });
+
       copyBtn.addEventListener('click', async () => {
         try {
-          await navigator.clipboard.writeText(content.textContent || '');
-          copyBtn.innerHTML = '✅ Copied!';
+          await navigator.clipboard.writeText(rawText);
+          copyBtn.textContent = '✅ Copied!';
           setTimeout(() => {
-            copyBtn.innerHTML = '📋 Copy Plan';
+            copyBtn.textContent = '📋 Copy Plan';
           }, 2000);
         } catch (e) {
-          vscodeApi.postMessage({ type: 'copyFallback', text: content.textContent || '' });
+          vscodeApi.postMessage({ type: 'copyFallback' });
         }
       });
       
       saveBtn.addEventListener('click', () => {
-        vscodeApi.postMessage({ type: 'saveAsMarkdown', text: content.textContent || '' });
-        saveBtn.innerHTML = '✅ Saved!';
-        setTimeout(() => {
-          saveBtn.innerHTML = '💾 Save as Markdown';
-        }, 2000);
+        vscodeApi.postMessage({ type: 'saveAsMarkdown' });
       });
       
       clearBtn.addEventListener('click', () => {
         if (confirm('Are you sure you want to clear the current plan?')) {
-          content.textContent = '';
+          rawText = '';
+          content.innerHTML = '';
+          saveBtn.disabled = true;
+          copyBtn.disabled = true;
+          vscodeApi.postMessage({ type: 'clear' });
           completionMessage.classList.remove('show');
           updateStats();
           progressBar.style.width = '0%';
         }
       });
       
-      // Update stats every second
+      // Keep the elapsed time ticking while waiting for the first token
       setInterval(updateStats, 1000);
     `;
     return `<!DOCTYPE html>
@@ -238,7 +501,7 @@ export class StreamingPanel {
             <div class="header-status" id="headerStatus">⏳ Starting...</div>
           </div>
           
-          <div class="content">
+          <div class="content" id="scroller">
             <div class="content-wrapper">
               <div class="plan-content" id="planContent">
                 <div class="empty-state">
@@ -253,8 +516,9 @@ export class StreamingPanel {
           
           <div class="toolbar">
             <div class="toolbar-section">
+              <button id="stopBtn" class="secondary">⏹️ Stop</button>
               <button id="copyBtn" class="secondary" disabled>📋 Copy Plan</button>
-              <button id="saveBtn" class="primary" disabled>💾 Save as Markdown</button>
+              <button id="saveBtn" class="primary" disabled>💾 Save as Document</button>
             </div>
             
             <div class="toolbar-divider"></div>
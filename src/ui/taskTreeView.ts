@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { ActiveTask, TaskQueue, TaskResult, TaskStatus, taskQueue } from '../utils/taskQueue';
+
+const STATUS_ICONS: Record<TaskStatus, vscode.ThemeIcon> = {
+  pending: new vscode.ThemeIcon('clock'),
+  running: new vscode.ThemeIcon('sync~spin'),
+  completed: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+  failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+  cancelled: new vscode.ThemeIcon('circle-slash')
+};
+
+/**
+ * A queued, running or finished task as shown in the Tasks view
+ */
+export class TaskTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly taskId: string,
+    public readonly status: TaskStatus,
+    public readonly metadata: Record<string, any> | undefined,
+    public readonly result?: TaskResult
+  ) {
+    super(metadata?.ticket?.key ? `${metadata.ticket.key}: ${metadata.ticket.summary}` : taskId);
+    this.id = taskId;
+    this.iconPath = STATUS_ICONS[status];
+    // Drives the inline cancel / retry / open actions in package.json
+    this.contextValue = `aiPlanTask.${status}`;
+  }
+}
+
+/**
+ * Lists the task queue's pending, running and finished tasks in the AI Plan activity bar container
+ */
+export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItem>, vscode.Disposable {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  private readonly unsubscribe: () => void;
+  private refreshTimer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(private readonly queue: TaskQueue = taskQueue) {
+    this.unsubscribe = queue.onAnyProgress(() => this.refresh());
+  }
+
+  refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire();
+    this.updateRefreshTimer();
+  }
+
+  /**
+   * Remove finished tasks from the view
+   */
+  clearFinished(): void {
+    this.queue.clearCompleted();
+    this.refresh();
+  }
+
+  getTreeItem(element: TaskTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: TaskTreeItem): TaskTreeItem[] {
+    if (element) {
+      return [];
+    }
+
+    const active = this.queue.getActiveTasks().map(task => this.createActiveItem(task));
+    const finished = this.queue.getAllResults()
+      .slice()
+      .reverse()
+      .map(result => this.createFinishedItem(result));
+
+    return [...active, ...finished];
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+    }
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+
+  private createActiveItem(task: ActiveTask): TaskTreeItem {
+    const item = new TaskTreeItem(task.id, task.status, task.metadata);
+    const elapsed = formatDuration(Date.now() - task.startTime.getTime());
+    const attempt = task.attempt > 1 ? ` · attempt ${task.attempt}` : '';
+
+    item.description = `${task.status === 'running' ? 'Running' : 'Queued'} ${elapsed}${attempt}`;
+    item.tooltip = this.createTooltip(task.name, task.status, task.metadata, [
+      `**Queued:** ${task.startTime.toLocaleTimeString()}`
+    ]);
+    return item;
+  }
+
+  private createFinishedItem(result: TaskResult): TaskTreeItem {
+    const item = new TaskTreeItem(result.id, result.status, result.metadata, result);
+    const duration = result.duration !== undefined ? formatDuration(result.duration) : '';
+    const details = [`**Duration:** ${duration || 'unknown'}`];
+    if (result.error) {
+      details.push(`**Error:** ${result.error.message}`);
+    }
+
+    item.description = `${capitalize(result.status)} ${duration}`.trim();
+    item.tooltip = this.createTooltip(result.name, result.status, result.metadata, details);
+    if (result.status === 'completed') {
+      item.command = { command: 'ai-plan.tasks.openPlan', title: 'Open Plan', arguments: [item] };
+    }
+    return item;
+  }
+
+  private createTooltip(
+    name: string,
+    status: TaskStatus,
+    metadata: Record<string, any> | undefined,
+    details: string[]
+  ): vscode.MarkdownString {
+    const lines = [`**${name}** — ${status}`];
+    if (metadata?.provider) {
+      lines.push(`**Provider:** ${metadata.provider} (${metadata.model})`);
+    }
+    const tooltip = new vscode.MarkdownString([...lines, ...details].join('\n\n'));
+    tooltip.supportThemeIcons = true;
+    return tooltip;
+  }
+
+  /**
+   * Tick the elapsed time of running tasks once a second, only while something is running
+   */
+  private updateRefreshTimer(): void {
+    const hasActive = this.queue.getActiveTasks().length > 0;
+    if (hasActive && !this.refreshTimer) {
+      this.refreshTimer = setInterval(() => this.onDidChangeTreeDataEmitter.fire(), 1000);
+    } else if (!hasActive && this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
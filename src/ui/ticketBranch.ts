@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { RecentTicket } from '../types';
+import { GitAPI, GitRepository, getGitAPI } from '../gitApi';
+import { formatBranchName, validateBranchName } from '../branchName';
+import { getProviderConfig } from '../config/environment';
+import { getExtensionContext } from '../context';
+import { feedbackSystem } from './feedbackSystem';
+import { errorHandler } from './errorHandler';
+import { ErrorFactory, ExtensionError } from '../utils/errorTypes';
+import { PlanGenerator } from './planGenerator';
+import { startWork } from './ticketWorkflow';
+
+const BRANCH_TICKETS_KEY = 'aiPlan.branchTickets';
+/** Links kept per workspace; the oldest are dropped first */
+const MAX_BRANCH_LINKS = 200;
+
+const branchLinksChanged = new vscode.EventEmitter<void>();
+/** Fired when a branch is linked to a ticket, so the current ticket follows a branch created for it */
+export const onDidChangeBranchLinks = branchLinksChanged.event;
+
+/**
+ * A branch created for a ticket
+ */
+export interface BranchTicketLink {
+  /** File system path of the repository root */
+  repository: string;
+  branch: string;
+  ticket: RecentTicket;
+  createdAt: string;
+}
+
+/**
+ * The ticket a branch was created for, if it was created with AI Plan in this workspace
+ */
+export function getBranchTicket(repository: string, branch: string): RecentTicket | undefined {
+  const link = getBranchLinks().find(candidate => candidate.repository === repository && candidate.branch === branch);
+  if (!link) {
+    return undefined;
+  }
+  // Workspace state holds JSON, so the dates come back as strings
+  return { ...link.ticket, createdAt: new Date(link.ticket.createdAt), updatedAt: new Date(link.ticket.updatedAt) };
+}
+
+/**
+ * Remember which ticket a branch is for, replacing an earlier link of the same branch
+ */
+export async function linkBranchToTicket(repository: string, branch: string, ticket: RecentTicket): Promise<void> {
+  const state = getExtensionContext()?.workspaceState;
+  if (!state) {
+    return;
+  }
+
+  const links = getBranchLinks().filter(link => link.repository !== repository || link.branch !== branch);
+  links.push({ repository, branch, ticket, createdAt: new Date().toISOString() });
+  await state.update(BRANCH_TICKETS_KEY, links.slice(-MAX_BRANCH_LINKS));
+  branchLinksChanged.fire();
+}
+
+function getBranchLinks(): BranchTicketLink[] {
+  return getExtensionContext()?.workspaceState.get<BranchTicketLink[]>(BRANCH_TICKETS_KEY) || [];
+}
+
+/**
+ * Create and check out a branch for a ticket, named from `AIPLAN_BRANCH_TEMPLATE` and editable before it is
+ * created. A branch that already exists is checked out instead. Either way the branch is linked to the ticket.
+ */
+export async function createTicketBranch(ticket: RecentTicket): Promise<void> {
+  try {
+    const git = await getGitAPI();
+    if (!git) {
+      await feedbackSystem.showWarning('The Git extension is disabled, so no branch can be created. Enable "git.enabled" and try again.');
+      return;
+    }
+
+    const repository = await pickRepository(git);
+    if (!repository) {
+      return;
+    }
+
+    const branch = await vscode.window.showInputBox({
+      title: `Branch for ${ticket.key}`,
+      prompt: `Create and check out a branch in ${vscode.workspace.asRelativePath(repository.rootUri) || repository.rootUri.fsPath}`,
+      value: formatBranchName(getProviderConfig('branches').template, ticket),
+      validateInput: validateBranchName
+    });
+    if (!branch) {
+      return;
+    }
+
+    const exists = await repository.getBranch(branch).then(() => true, () => false);
+    if (exists) {
+      await repository.checkout(branch);
+    } else {
+      await repository.createBranch(branch, true);
+    }
+    await linkBranchToTicket(repository.rootUri.fsPath, branch, ticket);
+
+    await feedbackSystem.showSuccess(`${exists ? 'Checked out the existing branch' : 'Created and checked out'} ${branch}`, {
+      title: 'Branch Ready',
+      actions: [
+        {
+          label: 'Generate Plan',
+          action: async () => {
+            await new PlanGenerator().generatePlan(ticket);
+          }
+        },
+        {
+          label: 'Start Work',
+          action: async () => {
+            await startWork(ticket);
+          }
+        }
+      ]
+    });
+  } catch (error) {
+    const extensionError = error instanceof ExtensionError
+      ? error
+      : ErrorFactory.workspaceError('TicketBranch', 'create_branch', error instanceof Error ? error.message : String(error));
+
+    await errorHandler.handleExtensionError(extensionError);
+  }
+}
+
+/**
+ * The repository to branch in: the only one, or one picked by the user with the active editor's first
+ */
+async function pickRepository(git: GitAPI): Promise<GitRepository | undefined> {
+  if (git.repositories.length === 0) {
+    await feedbackSystem.showWarning('No git repository is open in this workspace.');
+    return undefined;
+  }
+  if (git.repositories.length === 1) {
+    return git.repositories[0];
+  }
+
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const active = activeUri && git.getRepository(activeUri);
+  const repositories = active ? [active, ...git.repositories.filter(repository => repository !== active)] : git.repositories;
+
+  const picked = await vscode.window.showQuickPick(
+    repositories.map(repository => ({
+      label: repository.rootUri.path.split('/').pop() || repository.rootUri.fsPath,
+      description: repository.state.HEAD?.name,
+      detail: repository.rootUri.fsPath,
+      repository
+    })),
+    { placeHolder: 'Select the repository to create the branch in...' }
+  );
+  return picked?.repository;
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { RecentTicket } from '../types';
+import { createProvider } from '../config/provider-factory';
+import { TicketTransition, WorkflowStage, WritableProvider, isWritableProvider, selectTransition } from '../providers/writable';
+import { feedbackSystem } from './feedbackSystem';
+import { errorHandler } from './errorHandler';
+import { ErrorFactory, ExtensionError } from '../utils/errorTypes';
+
+const STAGE_LABELS: Record<WorkflowStage, string> = {
+  todo: 'To Do',
+  inProgress: 'In Progress',
+  inReview: 'In Review',
+  done: 'Done'
+};
+
+/**
+ * Start implementing a ticket: assign it to me and move it to in progress
+ */
+export async function startWork(ticket: RecentTicket): Promise<void> {
+  await updateTicket(ticket, 'start_work', async provider => {
+    await provider.assignToMe(ticket);
+    const transitions = await readTransitions(provider, ticket);
+    const transition = transitions.length > 0 ? await findTransition(ticket, transitions, 'inProgress') : undefined;
+    if (transition) {
+      await provider.transitionTicket(ticket, transition);
+    }
+    return transition
+      ? `${ticket.key} is assigned to you and moved to ${transition.name}`
+      : `${ticket.key} is assigned to you; its status was left at ${ticket.status}`;
+  });
+}
+
+/**
+ * Move a ticket to in review or done, asking which state to use when the ticket has no obvious one
+ */
+export async function moveTicket(ticket: RecentTicket, stage: 'inReview' | 'done'): Promise<void> {
+  await updateTicket(ticket, `move_to_${stage}`, async provider => {
+    const transitions = await readTransitions(provider, ticket);
+    if (transitions.length === 0) {
+      await feedbackSystem.showWarning(`${ticket.key} cannot be moved to ${STAGE_LABELS[stage]}: its workflow has no transitions from ${ticket.status}.`);
+      return undefined;
+    }
+
+    const transition = await findTransition(ticket, transitions, stage);
+    if (!transition) {
+      return undefined;
+    }
+    await provider.transitionTicket(ticket, transition);
+    return `${ticket.key} moved to ${transition.name}`;
+  });
+}
+
+/**
+ * Run an update against the ticket's provider with progress and error reporting
+ * @param update returns the success message, or undefined when the user backed out
+ */
+async function updateTicket(
+  ticket: RecentTicket,
+  operation: string,
+  update: (provider: WritableProvider) => Promise<string | undefined>
+): Promise<void> {
+  try {
+    const provider = createProvider(ticket.provider);
+    if (!isWritableProvider(provider)) {
+      await feedbackSystem.showWarning(`${provider.getProviderName()} tickets cannot be updated from the editor.`);
+      return;
+    }
+
+    const message = await update(provider);
+    if (message) {
+      await feedbackSystem.showSuccess(message, {
+        title: 'Ticket Updated',
+        actions: [{
+          label: 'View in Browser',
+          action: async () => {
+            await vscode.env.openExternal(vscode.Uri.parse(ticket.url));
+          }
+        }]
+      });
+    }
+  } catch (error) {
+    const extensionError = error instanceof ExtensionError
+      ? error
+      : ErrorFactory.invalidResponse('TicketWorkflow', `${ticket.key} could not be updated (${operation}): ${error instanceof Error ? error.message : String(error)}`);
+
+    await errorHandler.handleExtensionError(extensionError);
+  }
+}
+
+async function readTransitions(provider: WritableProvider, ticket: RecentTicket): Promise<TicketTransition[]> {
+  return await feedbackSystem.showProgress(`Reading the workflow of ${ticket.key}`, async () =>
+    provider.getTransitions(ticket)
+  ) || [];
+}
+
+/**
+ * The transition into a stage; the user picks one of the available transitions when none clearly leads there
+ * @returns undefined when the user backed out
+ */
+async function findTransition(
+  ticket: RecentTicket,
+  transitions: TicketTransition[],
+  stage: WorkflowStage
+): Promise<TicketTransition | undefined> {
+  const transition = selectTransition(transitions, stage);
+  if (transition) {
+    return transition;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    transitions.map(candidate => ({ label: candidate.name, description: STAGE_LABELS[candidate.stage], transition: candidate })),
+    { placeHolder: `${ticket.key} has no "${STAGE_LABELS[stage]}" state it can move to. Pick another status...` }
+  );
+  return picked?.transition;
+}
@@ -29,6 +29,7 @@ export enum ErrorCode {
   FILE_NOT_FOUND = 'FILE_NOT_FOUND',
   
   // General errors
+  CANCELLED = 'CANCELLED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   VALIDATION_ERROR = 'VALIDATION_ERROR'
 }
@@ -149,6 +150,7 @@ export const ErrorFactory = {
       false
     ),
 
+  /** @param retryAfter milliseconds the service asked us to wait, if it said */
   rateLimited: (component: string, provider?: string, retryAfter?: number): ProviderError => {
     const error = new ProviderError(
       'Rate limit exceeded - please try again later',
@@ -169,6 +171,51 @@ export const ErrorFactory = {
       { operation: 'validation', component }
     ),
 
+  invalidResponse: (component: string, details?: string): ExtensionError =>
+    new ExtensionError(
+      `Invalid response from service${details ? `: ${details}` : ''}`,
+      ErrorCode.INVALID_RESPONSE,
+      { operation: 'api_request', component },
+      ErrorSeverity.MEDIUM,
+      false
+    ),
+
+  aiRequestFailed: (component: string, details?: string): ExtensionError =>
+    new ExtensionError(
+      `AI request failed${details ? `: ${details}` : ''}`,
+      ErrorCode.AI_REQUEST_FAILED,
+      { operation: 'ai_generation', component },
+      ErrorSeverity.MEDIUM,
+      true
+    ),
+
+  contextTooLarge: (component: string, model: string, requiredTokens: number, contextWindow: number): ExtensionError =>
+    new ExtensionError(
+      `The ticket and prompt need about ${requiredTokens} tokens, more than the ${contextWindow}-token window of ${model}`,
+      ErrorCode.CONTEXT_TOO_LARGE,
+      { operation: 'ai_generation', component, metadata: { model, requiredTokens, contextWindow } },
+      ErrorSeverity.MEDIUM,
+      false
+    ),
+
+  timedOut: (component: string, operation: string, timeoutMs: number): ExtensionError =>
+    new ExtensionError(
+      `${operation} timed out after ${Math.round(timeoutMs / 1000)}s`,
+      ErrorCode.TIMEOUT,
+      { operation, component, metadata: { timeoutMs } },
+      ErrorSeverity.MEDIUM,
+      true
+    ),
+
+  cancelled: (component: string, operation: string): ExtensionError =>
+    new ExtensionError(
+      'Operation cancelled',
+      ErrorCode.CANCELLED,
+      { operation, component },
+      ErrorSeverity.LOW,
+      false
+    ),
+
   workspaceError: (component: string, operation: string, details?: string): ExtensionError =>
     new ExtensionError(
       `Workspace ${operation} failed${details ? `: ${  details}` : ''}`,
@@ -177,4 +224,19 @@ export const ErrorFactory = {
       ErrorSeverity.MEDIUM,
       true
     )
-};
\ No newline at end of file
+};
+
+/**
+ * Convert a Retry-After header (delay in seconds or an HTTP date) to milliseconds
+ */
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | undefined {
+  if (typeof header !== 'string' || !header.trim()) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -3,27 +3,42 @@
  * Handles async operations without blocking the UI
  */
 
-import { ErrorFactory, ExtensionError } from './errorTypes';
-import { errorHandler } from '../ui/errorHandler';
+import { ErrorCode, ErrorFactory, ExtensionError } from './errorTypes';
 
 export interface Task<T = any> {
   id: string;
   name: string;
-  operation: () => Promise<T>;
+  /** Receives a signal that is aborted when the task is cancelled or times out */
+  operation: (signal: AbortSignal) => Promise<T>;
   priority: 'low' | 'medium' | 'high';
   timeout?: number;
   retryCount?: number;
+  /** Retries after a failure; an attempt that times out is not retried */
   maxRetries?: number;
+  /** Tasks sharing a resource key (e.g. "llm:ollama") obey that key's concurrency limit */
+  resourceKey?: string;
+  /** Free-form details shown to the user, e.g. the provider and model of a plan generation */
+  metadata?: Record<string, any>;
 }
 
 export interface TaskResult<T = any> {
   id: string;
+  name: string;
   status: 'completed' | 'failed' | 'cancelled';
   result?: T;
   error?: ExtensionError;
   startTime: Date;
   endTime?: Date;
   duration?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface TaskQueueStats {
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
 }
 
 export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
@@ -35,143 +50,225 @@ export interface TaskProgress {
   message?: string;
 }
 
+export interface ActiveTask {
+  id: string;
+  name: string;
+  status: TaskStatus;
+  attempt: number;
+  resourceKey?: string;
+  /** When the task was queued */
+  startTime: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Timer functions used by the queue; injectable so tests can drive time
+ */
+export interface TaskTimers {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+  now(): number;
+}
+
+export interface TaskQueueOptions {
+  maxConcurrentTasks?: number;
+  defaultTimeout?: number;
+  defaultMaxRetries?: number;
+  /** First retry delay in ms; doubles on every attempt */
+  baseRetryDelay?: number;
+  maxRetryDelay?: number;
+  /** Maximum concurrent tasks per resource key; unlisted keys only obey maxConcurrentTasks */
+  resourceLimits?: Record<string, number>;
+  timers?: TaskTimers;
+  /** Called for tasks that fail after their last attempt */
+  reportError?: (error: ExtensionError) => void | Promise<void>;
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+}
+
+interface TaskEntry {
+  task: Task;
+  deferred: Deferred<TaskResult>;
+  state: 'pending' | 'waiting' | 'running';
+  /** Insertion order, so equal priorities run first-in first-out */
+  sequence: number;
+  startTime: Date;
+  controller?: AbortController;
+  retryHandle?: unknown;
+}
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+const systemTimers: TaskTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  now: () => Date.now()
+};
+
+function createDeferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
 /**
- * Background task queue with priority and concurrency control
+ * Background task queue with priority, per-resource concurrency and retry control.
+ * Completion is event driven: every task settles a deferred promise exactly once.
  */
 export class TaskQueue {
   private static instance: TaskQueue;
-  private tasks = new Map<string, Task>();
+  private entries = new Map<string, TaskEntry>();
   private results = new Map<string, TaskResult>();
-  private runningTasks = new Map<string, Promise<any>>();
   private listeners = new Map<string, Array<(progress: TaskProgress) => void>>();
-  
+  private globalListeners: Array<(progress: TaskProgress) => void> = [];
+  private runningByResource = new Map<string, number>();
+  private runningCount = 0;
+  private sequence = 0;
+
   private readonly maxConcurrentTasks: number;
   private readonly defaultTimeout: number;
   private readonly defaultMaxRetries: number;
+  private readonly baseRetryDelay: number;
+  private readonly maxRetryDelay: number;
+  private readonly resourceLimits: Map<string, number>;
+  private readonly timers: TaskTimers;
+  private readonly reportError: (error: ExtensionError) => void | Promise<void>;
 
-  private constructor(options: {
-    maxConcurrentTasks?: number;
-    defaultTimeout?: number;
-    defaultMaxRetries?: number;
-  } = {}) {
+  constructor(options: TaskQueueOptions = {}) {
     this.maxConcurrentTasks = options.maxConcurrentTasks || 3;
     this.defaultTimeout = options.defaultTimeout || 30000; // 30 seconds
-    this.defaultMaxRetries = options.defaultMaxRetries || 2;
+    this.defaultMaxRetries = options.defaultMaxRetries ?? 2;
+    this.baseRetryDelay = options.baseRetryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30000;
+    this.resourceLimits = new Map(Object.entries(options.resourceLimits || {}));
+    this.timers = options.timers || systemTimers;
+    this.reportError = options.reportError || (async (error) => {
+      // Loaded lazily so the queue itself does not depend on the VS Code API
+      const { errorHandler } = await import('../ui/errorHandler');
+      await errorHandler.handleExtensionError(error);
+    });
   }
 
   static getInstance(): TaskQueue {
     if (!TaskQueue.instance) {
-      TaskQueue.instance = new TaskQueue();
+      TaskQueue.instance = new TaskQueue({
+        // Local Ollama serves one generation at a time; parallel requests only queue up on the GPU
+        resourceLimits: { 'llm:ollama': 1 }
+      });
     }
     return TaskQueue.instance;
   }
 
   /**
    * Add a task to the queue
+   * @returns a promise that settles once with the final result; it never rejects
    */
   enqueue<T>(task: Omit<Task<T>, 'retryCount'>): Promise<TaskResult<T>> {
-    const fullTask: Task<T> = {
-      ...task,
-      retryCount: 0,
-      maxRetries: task.maxRetries ?? this.defaultMaxRetries,
-      timeout: task.timeout ?? this.defaultTimeout
+    const existing = this.entries.get(task.id);
+    if (existing) {
+      return existing.deferred.promise as Promise<TaskResult<T>>;
+    }
+
+    const entry: TaskEntry = {
+      task: {
+        ...task,
+        retryCount: 0,
+        maxRetries: task.maxRetries ?? this.defaultMaxRetries,
+        timeout: task.timeout ?? this.defaultTimeout
+      },
+      deferred: createDeferred<TaskResult>(),
+      state: 'pending',
+      sequence: this.sequence++,
+      startTime: new Date(this.timers.now())
     };
 
-    this.tasks.set(task.id, fullTask);
-    
-    // Notify listeners
-    this.notifyListeners(task.id, { 
-      id: task.id, 
-      status: 'pending', 
-      message: `Task "${task.name}" queued` 
-    });
+    this.entries.set(task.id, entry);
+    this.results.delete(task.id);
 
-    // Start processing if possible
-    this.processQueue();
-
-    // Return promise that resolves when task completes
-    return new Promise((resolve) => {
-      const checkResult = () => {
-        const result = this.results.get(task.id);
-        if (result) {
-          resolve(result as TaskResult<T>);
-        } else {
-          setTimeout(checkResult, 100);
-        }
-      };
-      checkResult();
+    this.notifyListeners(task.id, {
+      id: task.id,
+      status: 'pending',
+      message: `Task "${task.name}" queued`
     });
+
+    this.schedule();
+    return entry.deferred.promise as Promise<TaskResult<T>>;
   }
 
   /**
-   * Cancel a task
+   * Cancel a task. Pending tasks settle immediately; running tasks are aborted
+   * and settle as soon as the abort is observed.
    */
   cancel(taskId: string): boolean {
-    const task = this.tasks.get(taskId);
-    if (!task) {
+    const entry = this.entries.get(taskId);
+    if (!entry) {
       return false;
     }
 
-    // Remove from queue if not running
-    if (!this.runningTasks.has(taskId)) {
-      this.tasks.delete(taskId);
-      this.results.set(taskId, {
-        id: taskId,
-        status: 'cancelled',
-        startTime: new Date()
-      });
-      
-      this.notifyListeners(taskId, { 
-        id: taskId, 
-        status: 'cancelled', 
-        message: 'Task cancelled' 
-      });
-      
+    if (entry.state === 'running') {
+      entry.controller?.abort();
       return true;
     }
 
-    // Mark running task for cancellation
-    // (The actual cancellation depends on the task implementation)
-    this.notifyListeners(taskId, { 
-      id: taskId, 
-      status: 'cancelled', 
-      message: 'Cancellation requested' 
-    });
-
+    if (entry.retryHandle !== undefined) {
+      this.timers.clearTimeout(entry.retryHandle);
+    }
+    this.settle(entry, { status: 'cancelled', error: ErrorFactory.cancelled('TaskQueue', 'task_execution') });
     return true;
   }
 
+  /**
+   * Limit how many tasks with the given resource key run at once
+   */
+  setResourceLimit(resourceKey: string, limit: number): void {
+    this.resourceLimits.set(resourceKey, Math.max(1, limit));
+    this.schedule();
+  }
+
+  /**
+   * Get pending and running tasks
+   */
+  getActiveTasks(): ActiveTask[] {
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(entry => ({
+        id: entry.task.id,
+        name: entry.task.name,
+        status: entry.state === 'running' ? 'running' : 'pending',
+        attempt: entry.task.retryCount! + 1,
+        resourceKey: entry.task.resourceKey,
+        startTime: entry.startTime,
+        metadata: entry.task.metadata
+      }));
+  }
+
   /**
    * Get task status
    */
   getStatus(taskId: string): TaskProgress | null {
-    const task = this.tasks.get(taskId);
-    const result = this.results.get(taskId);
-    
-    if (result) {
+    const entry = this.entries.get(taskId);
+    if (entry) {
       return {
         id: taskId,
-        status: result.status,
-        message: result.error ? result.error.message : 'Task completed'
+        status: entry.state === 'running' ? 'running' : 'pending',
+        message: entry.state === 'running'
+          ? `Running "${entry.task.name}"`
+          : `Waiting to run "${entry.task.name}"`
       };
     }
-    
-    if (this.runningTasks.has(taskId)) {
-      return {
-        id: taskId,
-        status: 'running',
-        message: task ? `Running "${task.name}"` : 'Task running'
-      };
-    }
-    
-    if (task) {
+
+    const result = this.results.get(taskId);
+    if (result) {
       return {
         id: taskId,
-        status: 'pending',
-        message: `Waiting to run "${task.name}"`
+        status: result.status,
+        message: result.error ? result.error.message : 'Task completed'
       };
     }
-    
+
     return null;
   }
 
@@ -182,9 +279,9 @@ export class TaskQueue {
     if (!this.listeners.has(taskId)) {
       this.listeners.set(taskId, []);
     }
-    
+
     this.listeners.get(taskId)!.push(listener);
-    
+
     // Return unsubscribe function
     return () => {
       const listeners = this.listeners.get(taskId);
@@ -197,6 +294,19 @@ export class TaskQueue {
     };
   }
 
+  /**
+   * Listen to progress updates of every task
+   */
+  onAnyProgress(listener: (progress: TaskProgress) => void): () => void {
+    this.globalListeners.push(listener);
+    return () => {
+      const index = this.globalListeners.indexOf(listener);
+      if (index > -1) {
+        this.globalListeners.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Get all task results
    */
@@ -205,27 +315,19 @@ export class TaskQueue {
   }
 
   /**
-   * Clear completed tasks
+   * Clear finished tasks
    */
   clearCompleted(): void {
-    for (const [id, result] of this.results.entries()) {
-      if (result.status === 'completed' || result.status === 'failed') {
-        this.results.delete(id);
-        this.listeners.delete(id);
-      }
+    for (const id of this.results.keys()) {
+      this.results.delete(id);
+      this.listeners.delete(id);
     }
   }
 
   /**
    * Get queue statistics
    */
-    getStats(): {
-        pending: number;
-        running: number;
-        completed: number;
-        failed: number;
-        cancelled: number;
-    } {
+  getStats(): TaskQueueStats {
     const stats = {
       pending: 0,
       running: 0,
@@ -234,11 +336,14 @@ export class TaskQueue {
       cancelled: 0
     };
 
-    // Count pending tasks
-    stats.pending = this.tasks.size - this.runningTasks.size;
-    stats.running = this.runningTasks.size;
+    for (const entry of this.entries.values()) {
+      if (entry.state === 'running') {
+        stats.running++;
+      } else {
+        stats.pending++;
+      }
+    }
 
-    // Count completed tasks
     for (const result of this.results.values()) {
       stats[result.status]++;
     }
@@ -248,141 +353,189 @@ export class TaskQueue {
 
   // Private methods
 
-  private async processQueue(): Promise<void> {
-    if (this.runningTasks.size >= this.maxConcurrentTasks) {
-      return; // Max concurrency reached
+  /**
+   * Start as many pending tasks as the global and per-resource limits allow
+   */
+  private schedule(): void {
+    while (this.runningCount < this.maxConcurrentTasks) {
+      const next = this.getNextTask();
+      if (!next) {
+        return;
+      }
+      void this.run(next);
     }
+  }
+
+  private getNextTask(): TaskEntry | null {
+    const candidates = Array.from(this.entries.values())
+      .filter(entry => entry.state === 'pending' && this.hasResourceCapacity(entry.task.resourceKey));
 
-    // Get next highest priority task
-    const nextTask = this.getNextTask();
-    if (!nextTask) {
-      return; // No tasks to process
+    if (candidates.length === 0) {
+      return null;
     }
 
-    // Start the task
-    await this.executeTask(nextTask);
-    
-    // Process next task
-    setTimeout(() => this.processQueue(), 0);
+    // Sort by priority (high > medium > low), then first-in first-out
+    candidates.sort((a, b) =>
+      PRIORITY_ORDER[a.task.priority] - PRIORITY_ORDER[b.task.priority] || a.sequence - b.sequence
+    );
+    return candidates[0];
   }
 
-  private getNextTask(): Task | null {
-    const pendingTasks = Array.from(this.tasks.values())
-      .filter(task => !this.runningTasks.has(task.id));
-    
-    if (pendingTasks.length === 0) {
-      return null;
+  private hasResourceCapacity(resourceKey?: string): boolean {
+    if (!resourceKey) {
+      return true;
     }
-
-    // Sort by priority (high > medium > low)
-    const priorityOrder = { high: 0, medium: 1, low: 2 };
-    pendingTasks.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
-    
-    return pendingTasks[0];
+    const limit = this.resourceLimits.get(resourceKey);
+    return limit === undefined || (this.runningByResource.get(resourceKey) || 0) < limit;
   }
 
-  private async executeTask<T>(task: Task<T>): Promise<void> {
-    const startTime = new Date();
-    
+  private async run(entry: TaskEntry): Promise<void> {
+    const { task } = entry;
+    const resourceKey = task.resourceKey;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    entry.state = 'running';
+    entry.controller = controller;
+    this.runningCount++;
+    if (resourceKey) {
+      this.runningByResource.set(resourceKey, (this.runningByResource.get(resourceKey) || 0) + 1);
+    }
+
     this.notifyListeners(task.id, {
       id: task.id,
       status: 'running',
-      message: `Starting "${task.name}"`
+      message: task.retryCount! > 0
+        ? `Running "${task.name}" (attempt ${task.retryCount! + 1}/${task.maxRetries! + 1})`
+        : `Starting "${task.name}"`
     });
 
-    // Create timeout promise
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(ErrorFactory.rateLimited('TaskQueue', 'task', task.timeout));
-      }, task.timeout);
+    // Timing out aborts the operation's in-flight work as well
+    const timeoutHandle = this.timers.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, task.timeout!);
+
+    // Settle as soon as the signal aborts, even if the operation ignores it
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => {
+        reject(timedOut
+          ? ErrorFactory.timedOut('TaskQueue', task.name, task.timeout!)
+          : ErrorFactory.cancelled('TaskQueue', 'task_execution'));
+      });
     });
 
-    // Execute the task with timeout
-    const taskPromise = task.operation();
-    this.runningTasks.set(task.id, taskPromise);
-
+    let outcome: { ok: boolean; result?: unknown; error?: unknown };
     try {
-      const result = await Promise.race([taskPromise, timeoutPromise]);
-      
-      // Task completed successfully
-      const endTime = new Date();
-      const taskResult: TaskResult<T> = {
-        id: task.id,
-        status: 'completed',
-        result,
-        startTime,
-        endTime,
-        duration: endTime.getTime() - startTime.getTime()
-      };
+      outcome = { ok: true, result: await Promise.race([task.operation(controller.signal), aborted]) };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
 
-      this.results.set(task.id, taskResult);
-      this.tasks.delete(task.id);
-      
-      this.notifyListeners(task.id, {
-        id: task.id,
-        status: 'completed',
-        message: `"${task.name}" completed successfully`
-      });
+    this.timers.clearTimeout(timeoutHandle);
+    entry.controller = undefined;
+    this.runningCount--;
+    if (resourceKey) {
+      this.runningByResource.set(resourceKey, this.runningByResource.get(resourceKey)! - 1);
+    }
 
-    } catch (error) {
-      // Task failed
-      const extensionError = error instanceof ExtensionError 
-        ? error 
-        : ErrorFactory.workspaceError('TaskQueue', 'task_execution', error.message);
-
-      // Check if we should retry
-      if (task.retryCount! < task.maxRetries! && extensionError.isRetryable) {
-        task.retryCount!++;
-        this.notifyListeners(task.id, {
-          id: task.id,
-          status: 'pending',
-          message: `Retrying "${task.name}" (attempt ${task.retryCount! + 1}/${task.maxRetries! + 1})`
-        });
-        
-        // Re-queue for retry
-        setTimeout(() => this.processQueue(), 1000 * task.retryCount!); // Exponential backoff
-      } else {
-        // Max retries reached or non-retryable error
-        const endTime = new Date();
-        const taskResult: TaskResult<T> = {
-          id: task.id,
-          status: 'failed',
-          error: extensionError,
-          startTime,
-          endTime,
-          duration: endTime.getTime() - startTime.getTime()
-        };
-
-        this.results.set(task.id, taskResult);
-        this.tasks.delete(task.id);
-
-        this.notifyListeners(task.id, {
-          id: task.id,
-          status: 'failed',
-          message: `"${task.name}" failed: ${extensionError.message}`
-        });
-
-        // Handle error through error handler
-        await errorHandler.handleExtensionError(extensionError);
-      }
-    } finally {
-      this.runningTasks.delete(task.id);
+    if (outcome.ok) {
+      this.settle(entry, { status: 'completed', result: outcome.result });
+    } else if (controller.signal.aborted && !timedOut) {
+      this.settle(entry, { status: 'cancelled', error: ErrorFactory.cancelled('TaskQueue', 'task_execution') });
+    } else {
+      this.handleFailure(entry, outcome.error, timedOut);
     }
+
+    this.schedule();
   }
 
-  private notifyListeners(taskId: string, progress: TaskProgress): void {
-    const listeners = this.listeners.get(taskId);
-    if (listeners) {
-      listeners.forEach(listener => {
-        try {
-          listener(progress);
-        } catch (error) {
-          console.error('Error in task progress listener:', error);
-        }
+  private handleFailure(entry: TaskEntry, error: unknown, timedOut: boolean): void {
+    const { task } = entry;
+    let extensionError: ExtensionError;
+    if (timedOut) {
+      extensionError = ErrorFactory.timedOut('TaskQueue', task.name, task.timeout!);
+    } else if (error instanceof ExtensionError) {
+      extensionError = error;
+    } else {
+      extensionError = ErrorFactory.workspaceError('TaskQueue', 'task_execution', error instanceof Error ? error.message : String(error));
+    }
+
+    // A timed-out attempt would most likely take as long again, e.g. resending a whole prompt to the LLM,
+    // so it is left to the user to retry
+    if (timedOut || task.retryCount! >= task.maxRetries! || !extensionError.isRetryable) {
+      this.settle(entry, { status: 'failed', error: extensionError });
+      Promise.resolve(this.reportError(extensionError)).catch(reportError => {
+        console.error('Error reporting task failure:', reportError);
       });
+      return;
     }
+
+    task.retryCount!++;
+    const delay = this.getRetryDelay(extensionError, task.retryCount!);
+    entry.state = 'waiting';
+    entry.retryHandle = this.timers.setTimeout(() => {
+      entry.retryHandle = undefined;
+      entry.state = 'pending';
+      this.schedule();
+    }, delay);
+
+    this.notifyListeners(task.id, {
+      id: task.id,
+      status: 'pending',
+      message: `Retrying "${task.name}" in ${Math.ceil(delay / 1000)}s (attempt ${task.retryCount! + 1}/${task.maxRetries! + 1})`
+    });
+  }
+
+  /**
+   * Exponential backoff, unless the service told us how long to wait
+   */
+  private getRetryDelay(error: ExtensionError, attempt: number): number {
+    const retryAfter = error.context.metadata?.retryAfter;
+    if (error.code === ErrorCode.RATE_LIMITED && typeof retryAfter === 'number' && retryAfter > 0) {
+      return retryAfter;
+    }
+    return Math.min(this.baseRetryDelay * 2 ** (attempt - 1), this.maxRetryDelay);
+  }
+
+  private settle(entry: TaskEntry, outcome: Pick<TaskResult, 'status' | 'result' | 'error'>): void {
+    const { task } = entry;
+    const endTime = new Date(this.timers.now());
+    const result: TaskResult = {
+      id: task.id,
+      name: task.name,
+      ...outcome,
+      startTime: entry.startTime,
+      endTime,
+      duration: endTime.getTime() - entry.startTime.getTime(),
+      metadata: task.metadata
+    };
+
+    this.entries.delete(task.id);
+    this.results.set(task.id, result);
+
+    let message = `"${task.name}" completed successfully`;
+    if (result.status === 'cancelled') {
+      message = `"${task.name}" cancelled`;
+    } else if (result.status === 'failed') {
+      message = `"${task.name}" failed: ${result.error?.message}`;
+    }
+    this.notifyListeners(task.id, { id: task.id, status: result.status, message });
+
+    entry.deferred.resolve(result);
+  }
+
+  private notifyListeners(taskId: string, progress: TaskProgress): void {
+    const listeners = [...(this.listeners.get(taskId) || []), ...this.globalListeners];
+    listeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('Error in task progress listener:', error);
+      }
+    });
   }
 }
 
 // Global task queue instance
-export const taskQueue = TaskQueue.getInstance();
\ No newline at end of file
+export const taskQueue = TaskQueue.getInstance();
@@ -135,6 +135,15 @@ export const ValidationRules = {
   range: (min: number, max: number, message?: string): ValidationRule<number> => ({
     test: (value: number) => value >= min && value <= max,
     message: message || `Must be between ${min} and ${max}`
+  }),
+
+  optionalNumber: (min: number, max: number, message?: string): ValidationRule<string | number | undefined> => ({
+    test: (value: string | number | undefined) => {
+      if (value === undefined || value === '') {return true;}
+      const num = Number(value);
+      return !isNaN(num) && num >= min && num <= max;
+    },
+    message: message || `Must be a number between ${min} and ${max}`
   })
 };
 
@@ -206,6 +215,15 @@ export const ConfigSchemas = {
     ],
     baseUrl: [
       ValidationRules.url('Must be a valid Ollama server URL')
+    ],
+    numCtx: [
+      ValidationRules.optionalNumber(256, 1048576, 'Context window must be between 256 and 1048576 tokens')
+    ],
+    numPredict: [
+      ValidationRules.optionalNumber(1, 131072, 'Max output tokens must be between 1 and 131072')
+    ],
+    temperature: [
+      ValidationRules.optionalNumber(0, 2, 'Temperature must be between 0 and 2')
     ]
   },
 
@@ -218,6 +236,27 @@ export const ConfigSchemas = {
     model: [
       ValidationRules.minLength(1, 'Model name cannot be empty')
     ]
+  },
+
+  openAICompatible: {
+    baseUrl: [
+      ValidationRules.required('Server base URL is required'),
+      ValidationRules.url('Must be a valid server URL')
+    ],
+    headers: [
+      {
+        test: (value: string) => {
+          if (!value) {return true;}
+          try {
+            const parsed = JSON.parse(value);
+            return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed);
+          } catch {
+            return false;
+          }
+        },
+        message: 'Headers must be a JSON object, e.g. {"X-Team": "platform"}'
+      }
+    ]
   }
 };
 
@@ -257,6 +296,10 @@ export class ConfigValidator {
     Validator.validateObject(config, ConfigSchemas.openRouter, component);
   }
 
+  static validateOpenAICompatibleConfig(config: any, component: string = 'OpenAICompatibleProvider'): void {
+    Validator.validateObject(config, ConfigSchemas.openAICompatible, component);
+  }
+
   /**
    * Sanitize configuration before validation
    */
@@ -0,0 +1,135 @@
+/**
+ * Converting Jira wiki markup, the text format of descriptions in the Jira Server/Data Center REST API (v2),
+ * to markdown so it reads the same as descriptions from Jira Cloud
+ */
+
+const CODE_BLOCK = /^\s*\{(code|noformat)(?::([^}]*))?\}(.*)$/;
+const QUOTE_BLOCK = /^\s*\{quote\}(.*)$/;
+const HEADING = /^\s*h([1-6])\.\s+(.*)$/;
+const LIST_ITEM = /^\s*([*#-]+)\s+(.*)$/;
+const TABLE_ROW = /^\s*\|/;
+const RULE = /^\s*-{4,}\s*$/;
+
+/**
+ * Convert Jira wiki markup to markdown. Headings, lists, tables, code and quote blocks, links, images,
+ * mentions and text effects are converted; colours, panels and underlines are dropped, keeping their text.
+ */
+export function wikiMarkupToMarkdown(markup: string): string {
+  const lines = markup.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const code = line.match(CODE_BLOCK);
+    if (code) {
+      const block = readBlock(lines, index, code[1], code[3]);
+      const language = code[1] === 'code' ? (code[2] || '').split('|').find(option => !option.includes('=')) || '' : '';
+      output.push(`\`\`\`${language.trim()}`, ...block.content, '```');
+      index = block.next;
+      continue;
+    }
+
+    const quote = line.match(QUOTE_BLOCK);
+    if (quote) {
+      const block = readBlock(lines, index, 'quote', quote[1]);
+      output.push(...block.content.map(text => `> ${convertInline(text)}`.trimEnd()));
+      index = block.next;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      const rows: string[][] = [];
+      let header = false;
+      while (index < lines.length && TABLE_ROW.test(lines[index])) {
+        const row = lines[index++].trim();
+        header = header || (rows.length === 0 && row.startsWith('||'));
+        rows.push(row.replace(/^\|\|?|\|\|?$/g, '').split(/\|\|?/).map(cell => convertInline(cell.trim())));
+      }
+      const columns = Math.max(...rows.map(row => row.length));
+      const format = (row: string[]) => `| ${[...row, ...Array(columns - row.length).fill('')].join(' | ')} |`;
+      // Markdown tables need a header row; a table without one gets an empty header
+      const [first, ...rest] = header ? rows : [Array(columns).fill(''), ...rows];
+      output.push(format(first), format(Array(columns).fill('---')), ...rest.map(format));
+      continue;
+    }
+
+    output.push(convertLine(line));
+    index++;
+  }
+
+  return output.join('\n').trim();
+}
+
+/**
+ * The lines of a `{tag}...{tag}` block starting on `start`, which may open and close on one line
+ */
+function readBlock(lines: string[], start: number, tag: string, rest: string): { content: string[]; next: number } {
+  const close = `{${tag}}`;
+  const content: string[] = [];
+  let text = rest;
+  let index = start;
+
+  while (index < lines.length) {
+    const end = text.indexOf(close);
+    if (end >= 0) {
+      if (text.slice(0, end).trim()) {
+        content.push(text.slice(0, end));
+      }
+      return { content, next: index + 1 };
+    }
+    if (index > start || text.trim()) {
+      content.push(text);
+    }
+    text = lines[++index] ?? '';
+  }
+  // An unclosed block runs to the end, as Jira renders it
+  return { content, next: index };
+}
+
+function convertLine(line: string): string {
+  if (RULE.test(line)) {
+    return '---';
+  }
+
+  const heading = line.match(HEADING);
+  if (heading) {
+    return `${'#'.repeat(Number(heading[1]))} ${convertInline(heading[2])}`;
+  }
+
+  if (/^\s*bq\.\s/.test(line)) {
+    return `> ${convertInline(line.replace(/^\s*bq\.\s+/, ''))}`;
+  }
+
+  const item = line.match(LIST_ITEM);
+  // `-` lists only have one level; a run of dashes is struck-through text or a rule
+  if (item && (!item[1].includes('-') || item[1] === '-')) {
+    const indent = '  '.repeat(item[1].length - 1);
+    const marker = item[1].endsWith('#') ? '1.' : '-';
+    return `${indent}${marker} ${convertInline(item[2])}`;
+  }
+
+  return convertInline(line).trimEnd();
+}
+
+/**
+ * Text effects, links and images within a line; `{{monospace}}` text is kept as is
+ */
+function convertInline(text: string): string {
+  return text.split(/(\{\{.+?\}\})/).map(part => {
+    if (part.startsWith('{{') && part.endsWith('}}')) {
+      return `\`${part.slice(2, -2)}\``;
+    }
+    return part
+      .replace(/\{(?:color|panel)(?::[^}]*)?\}/g, '')
+      .replace(/\[~([^\]]+)\]/g, '@$1')
+      .replace(/\[([^|\]]+)\|([^\]]+)\]/g, (_, label, href) => `[${label.trim()}](${href.trim()})`)
+      .replace(/\[((?:https?|mailto):[^\]\s]+)\]/g, '<$1>')
+      .replace(/!([^!\s|]+\.[A-Za-z0-9]+)(?:\|[^!]*)?!/g, (_, source) => `![](${source})`)
+      .replace(/(?<![\w*])\*(?![\s*])(.+?)(?<!\s)\*(?![\w*])/g, '**$1**')
+      .replace(/(?<![\w-])-(?![\s-])(.+?)(?<!\s)-(?![\w-])/g, '~~$1~~')
+      // Markdown has no underline
+      .replace(/(?<![\w+])\+(?![\s+])(.+?)(?<!\s)\+(?![\w+])/g, '$1');
+  }).join('');
+}
@@ -0,0 +1,362 @@
+/**
+ * Persistent, incrementally updated index of one workspace folder
+ * Holds what context building needs to know about every file without reading it again: size,
+ * modification time, content hash, declared symbols, BM25 term statistics and a declaration outline.
+ * No VS Code dependency; `IndexService` persists it and feeds it file watcher events.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { IgnoreMatcher } from './ignoreMatcher';
+import { extractOutline, extractSymbols, indexDocument } from './contextRanker';
+import { ErrorFactory } from './utils/errorTypes';
+
+/** Bump when `IndexedFile` changes shape so old snapshots are rebuilt */
+const INDEX_VERSION = 1;
+
+/** Project-level ignore file for files that are tracked by git but should never reach the model */
+export const AIPLAN_IGNORE_FILE = '.aiplanignore';
+
+export const RELEVANT_EXTENSIONS = [
+  '.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.cs',
+  '.go', '.rs', '.php', '.rb', '.swift', '.kt', '.scala', '.dart',
+  '.vue', '.svelte', '.html', '.css', '.scss', '.less', '.json',
+  '.xml', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf',
+  '.md', '.txt', '.sql', '.sh', '.bash', '.zsh', '.fish'
+];
+
+/** Larger files are usually generated or minified */
+export const MAX_INDEXED_FILE_SIZE = 256 * 1024;
+
+export interface IndexedFile {
+  /** Folder-relative path with forward slashes */
+  path: string;
+  size: number;
+  mtimeMs: number;
+  /** SHA-1 of the contents, so a file that is touched but not changed keeps its entry */
+  hash: string;
+  symbols: string[];
+  /** BM25 statistics, see `indexDocument` */
+  terms: Record<string, number>;
+  length: number;
+  /** Declarations found by pattern matching, see `extractOutline` */
+  outline: string;
+}
+
+interface IndexSnapshot {
+  version: number;
+  rootPath: string;
+  files: IndexedFile[];
+}
+
+export class WorkspaceIndex {
+  private readonly files = new Map<string, IndexedFile>();
+  private ignoredFiles: string[] = [];
+  /** Root ignore rules plus every nested `.gitignore`, as of the last walk */
+  private matcher = IgnoreMatcher.create();
+  /** Set until the first walk, and whenever ignore rules or whole directories change */
+  private stale = true;
+  private refreshing: Promise<void> | undefined;
+  /** Serializes single-file updates so events for the same file apply in order */
+  private updates: Promise<void> = Promise.resolve();
+  private changeListeners: Array<() => void> = [];
+
+  constructor(readonly rootPath: string) {}
+
+  /**
+   * Restore an index saved with `toSnapshot`. It starts stale: the next refresh walks the folder
+   * but only reads files whose size or modification time differ from the snapshot.
+   * @returns an empty index when the snapshot is unreadable, from another version or another folder
+   */
+  static fromSnapshot(rootPath: string, snapshot: string): WorkspaceIndex {
+    const index = new WorkspaceIndex(rootPath);
+    try {
+      const parsed = JSON.parse(snapshot) as IndexSnapshot;
+      if (parsed.version === INDEX_VERSION && parsed.rootPath === rootPath && Array.isArray(parsed.files)) {
+        for (const file of parsed.files) {
+          index.files.set(file.path, file);
+        }
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable workspace index for ${rootPath}:`, error);
+    }
+    return index;
+  }
+
+  toSnapshot(): string {
+    const snapshot: IndexSnapshot = { version: INDEX_VERSION, rootPath: this.rootPath, files: this.getFiles() };
+    return JSON.stringify(snapshot);
+  }
+
+  isStale(): boolean {
+    return this.stale;
+  }
+
+  /**
+   * Force a full walk on the next `ensureFresh`, e.g. after ignore rules changed
+   */
+  markStale(): void {
+    this.stale = true;
+  }
+
+  getFiles(): IndexedFile[] {
+    return Array.from(this.files.values()).sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  getFile(relativePath: string): IndexedFile | undefined {
+    return this.files.get(relativePath);
+  }
+
+  /**
+   * Whether ignore rules, as of the last walk, leave a folder-relative path out of the index
+   */
+  isIgnored(relativePath: string): boolean {
+    return this.matcher.ignores(relativePath);
+  }
+
+  /** Folder-relative paths skipped by ignore rules during the last walk */
+  getIgnoredFiles(): string[] {
+    return [...this.ignoredFiles];
+  }
+
+  /**
+   * Called after entries were added, changed or removed, so the index can be saved
+   */
+  onDidChange(listener: () => void): { dispose(): void } {
+    this.changeListeners.push(listener);
+    return { dispose: () => {
+      this.changeListeners = this.changeListeners.filter(existing => existing !== listener);
+    } };
+  }
+
+  /**
+   * Walk the folder if the index is stale; otherwise wait for pending file updates only
+   */
+  async ensureFresh(signal?: AbortSignal): Promise<void> {
+    if (this.stale) {
+      await this.refresh(signal);
+    }
+    await this.updates;
+  }
+
+  /**
+   * Walk the whole folder, reindexing new and modified files and dropping deleted or newly ignored ones.
+   * Concurrent calls share one walk. Aborting stops waiting with a CANCELLED error; the walk itself
+   * finishes in the background so the work is not lost.
+   */
+  async refresh(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw ErrorFactory.cancelled('WorkspaceIndex', 'refresh');
+    }
+    if (!this.refreshing) {
+      this.stale = false;
+      this.refreshing = this.walk()
+        .catch(error => {
+          this.stale = true;
+          throw error;
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    await this.waitFor(this.refreshing, signal);
+  }
+
+  /**
+   * Bring one path up to date after a file system event
+   */
+  update(relativePath: string): Promise<void> {
+    this.updates = this.updates.then(() => this.applyUpdate(relativePath)).catch(error => {
+      console.error(`Error updating workspace index for ${relativePath}:`, error);
+    });
+    return this.updates;
+  }
+
+  private async applyUpdate(relativePath: string): Promise<void> {
+    const name = path.posix.basename(relativePath);
+    if (name === '.gitignore' || name === AIPLAN_IGNORE_FILE || relativePath === '.git/info/exclude') {
+      this.markStale();
+      return;
+    }
+    if (this.matcher.ignores(relativePath)) {
+      return;
+    }
+
+    const stat = await fs.promises.stat(path.join(this.rootPath, relativePath)).catch(() => undefined);
+    if (!stat) {
+      // Deleted; a deleted directory takes its files with it
+      const removed = Array.from(this.files.keys()).filter(file => file === relativePath || file.startsWith(`${relativePath}/`));
+      removed.forEach(file => this.files.delete(file));
+      if (removed.length > 0) {
+        this.notifyChange();
+      }
+      return;
+    }
+    if (stat.isDirectory()) {
+      // A new or moved directory may bring ignore files and many entries; walk it all next time
+      this.markStale();
+      return;
+    }
+    if (await this.indexFile(relativePath, stat)) {
+      this.notifyChange();
+    }
+  }
+
+  private async walk(): Promise<void> {
+    let matcher = await this.loadIgnoreRules();
+    const ignoredFiles: string[] = [];
+    const seen = new Set<string>();
+    let changed = false;
+
+    const walkDir = async (dir: string, dirMatcher: IgnoreMatcher): Promise<void> => {
+      let items: fs.Dirent[];
+      try {
+        items = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        console.error(`Error walking directory ${dir}:`, error);
+        return;
+      }
+      const relativeDir = path.relative(this.rootPath, dir).split(path.sep).join('/');
+
+      // A nested .gitignore applies to its own directory and below
+      if (relativeDir && items.some(item => item.name === '.gitignore' && item.isFile())) {
+        const nested = await this.readIgnoreFile(path.join(dir, '.gitignore'));
+        if (nested) {
+          dirMatcher = dirMatcher.withRules(nested, relativeDir);
+          // Rules are scoped by directory, so one matcher with every nested file serves single-file updates
+          matcher = matcher.withRules(nested, relativeDir);
+        }
+      }
+
+      for (const item of items) {
+        const fullPath = path.join(dir, item.name);
+        const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+        const stat = item.isFile() || item.isDirectory() ? undefined : await fs.promises.stat(fullPath).catch(() => undefined);
+        const isDirectory = item.isDirectory() || stat?.isDirectory() === true;
+
+        // Parents were checked on the way down, so only the entry itself needs matching
+        if (dirMatcher.matches(relativePath, isDirectory)) {
+          ignoredFiles.push(relativePath);
+          continue;
+        }
+
+        if (isDirectory) {
+          await walkDir(fullPath, dirMatcher);
+        } else if (RELEVANT_EXTENSIONS.includes(path.extname(item.name).toLowerCase())) {
+          seen.add(relativePath);
+          const fileStat = stat || await fs.promises.stat(fullPath).catch(() => undefined);
+          if (fileStat && await this.indexFile(relativePath, fileStat)) {
+            changed = true;
+          }
+        }
+      }
+    };
+
+    await walkDir(this.rootPath, matcher);
+
+    for (const file of Array.from(this.files.keys())) {
+      if (!seen.has(file)) {
+        this.files.delete(file);
+        changed = true;
+      }
+    }
+    this.matcher = matcher;
+    this.ignoredFiles = ignoredFiles;
+    if (changed) {
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * (Re)index a file unless its size and modification time, or failing that its hash, are unchanged
+   * @returns whether the entry was added, changed or removed
+   */
+  private async indexFile(relativePath: string, stat: fs.Stats): Promise<boolean> {
+    const existing = this.files.get(relativePath);
+    if (stat.size > MAX_INDEXED_FILE_SIZE || !RELEVANT_EXTENSIONS.includes(path.extname(relativePath).toLowerCase())) {
+      return this.files.delete(relativePath);
+    }
+    if (existing && existing.size === stat.size && existing.mtimeMs === stat.mtimeMs) {
+      return false;
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(path.join(this.rootPath, relativePath), 'utf8');
+    } catch (error) {
+      console.error(`Error reading file ${relativePath}:`, error);
+      return this.files.delete(relativePath);
+    }
+
+    const hash = createHash('sha1').update(content).digest('hex');
+    if (existing && existing.hash === hash) {
+      this.files.set(relativePath, { ...existing, size: stat.size, mtimeMs: stat.mtimeMs });
+      return true;
+    }
+
+    this.files.set(relativePath, {
+      path: relativePath,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      hash,
+      symbols: extractSymbols(content),
+      ...indexDocument({ path: relativePath, content }),
+      outline: extractOutline(content)
+    });
+    return true;
+  }
+
+  /**
+   * Load the folder-wide ignore rules, lowest precedence first:
+   * `.git/info/exclude`, the root `.gitignore`, then `.aiplanignore` which overrides everything else
+   */
+  private async loadIgnoreRules(): Promise<IgnoreMatcher> {
+    let matcher = IgnoreMatcher.create();
+    const exclude = await this.readIgnoreFile(path.join(this.rootPath, '.git', 'info', 'exclude'));
+    if (exclude) {
+      matcher = matcher.withRules(exclude);
+    }
+    const gitignore = await this.readIgnoreFile(path.join(this.rootPath, '.gitignore'));
+    if (gitignore) {
+      matcher = matcher.withRules(gitignore);
+    }
+    const aiplanignore = await this.readIgnoreFile(path.join(this.rootPath, AIPLAN_IGNORE_FILE));
+    if (aiplanignore) {
+      matcher = matcher.withOverrides(aiplanignore);
+    }
+    return matcher;
+  }
+
+  private async readIgnoreFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        console.error(`Error reading ${filePath}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  private waitFor(work: Promise<void>, signal?: AbortSignal): Promise<void> {
+    if (!signal) {
+      return work;
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(ErrorFactory.cancelled('WorkspaceIndex', 'refresh'));
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+}